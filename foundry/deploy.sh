@@ -1,10 +1,25 @@
 #!/bin/bash
 
 # Foundry Smart Contract Deployment Script
-# This script automates the deployment process and creates the .env file
+# This script automates the deployment process, creates the .env file and
+# records the deployment in the frontend manifest (frontend/public/deployments.json)
+#
+# Usage: ./deploy.sh [publish|upgrade]
+#   publish  Publish a new package (default)
+#   upgrade  Upgrade the package recorded in the manifest for this network
+#
+# Set NETWORK to deploy somewhere other than testnet (e.g. NETWORK=localnet)
 
 set -e  # Exit on error
 
+MODE="${1:-publish}"
+NETWORK="${NETWORK:-testnet}"
+
+if [ "$MODE" != "publish" ] && [ "$MODE" != "upgrade" ]; then
+    echo "❌ Error: Unknown mode '$MODE' (expected publish or upgrade)"
+    exit 1
+fi
+
 echo "━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━"
 echo "  Foundry Smart Contract Deployment"
 echo "━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━"
@@ -17,6 +32,12 @@ if ! command -v sui &> /dev/null; then
     exit 1
 fi
 
+# jq is used to read the publish output and update the manifest
+if ! command -v jq &> /dev/null; then
+    echo "❌ Error: jq is not installed"
+    exit 1
+fi
+
 echo "✅ Sui CLI found: $(sui --version)"
 echo ""
 
@@ -24,10 +45,10 @@ echo ""
 ACTIVE_ENV=$(sui client active-env)
 echo "🌐 Active network: $ACTIVE_ENV"
 
-if [ "$ACTIVE_ENV" != "testnet" ]; then
-    echo "⚠️  Warning: Not on testnet. Switching to testnet..."
-    sui client switch --env testnet
-    echo "✅ Switched to testnet"
+if [ "$ACTIVE_ENV" != "$NETWORK" ]; then
+    echo "⚠️  Warning: Not on $NETWORK. Switching to $NETWORK..."
+    sui client switch --env "$NETWORK"
+    echo "✅ Switched to $NETWORK"
 fi
 echo ""
 
@@ -52,6 +73,23 @@ cd "$(dirname "$0")"
 echo "📁 Working directory: $(pwd)"
 echo ""
 
+# Deployment manifest read by the frontend at runtime
+MANIFEST_FILE="../frontend/public/deployments.json"
+if [ ! -f "$MANIFEST_FILE" ]; then
+    echo "{}" > "$MANIFEST_FILE"
+fi
+
+if [ "$MODE" == "upgrade" ]; then
+    UPGRADE_CAP_ID=$(jq -r --arg net "$NETWORK" '.[$net].upgradeCapId // empty' "$MANIFEST_FILE")
+    if [ -z "$UPGRADE_CAP_ID" ]; then
+        echo "❌ Error: No UpgradeCap recorded for $NETWORK in $MANIFEST_FILE"
+        echo "Publish the package with this script first"
+        exit 1
+    fi
+    echo "🔑 UpgradeCap: $UPGRADE_CAP_ID"
+    echo ""
+fi
+
 # Build the contract
 echo "🔨 Building contract..."
 if sui move build; then
@@ -74,11 +112,15 @@ fi
 echo ""
 
 # Deploy the contract
-echo "🚀 Deploying contract to Sui Testnet..."
+echo "🚀 Deploying contract to Sui $NETWORK ($MODE)..."
 echo "   (This may take a minute...)"
 echo ""
 
-DEPLOY_OUTPUT=$(sui client publish --gas-budget 500000000 --json)
+if [ "$MODE" == "upgrade" ]; then
+    DEPLOY_OUTPUT=$(sui client upgrade --upgrade-capability "$UPGRADE_CAP_ID" --gas-budget 500000000 --json)
+else
+    DEPLOY_OUTPUT=$(sui client publish --gas-budget 500000000 --json)
+fi
 
 if [ $? -eq 0 ]; then
     echo "✅ Deployment successful!"
@@ -97,6 +139,45 @@ if [ $? -eq 0 ]; then
     echo "📦 Package ID: $PACKAGE_ID"
     echo ""
     
+    TX_DIGEST=$(echo $DEPLOY_OUTPUT | jq -r '.digest')
+    DEPLOYED_AT=$(date -u +"%Y-%m-%dT%H:%M:%SZ")
+    
+    # Record the deployment in the manifest
+    echo "📝 Updating deployment manifest: $MANIFEST_FILE"
+    
+    if [ "$MODE" == "upgrade" ]; then
+        # Types keep the original package ID; calls go to the new one
+        jq --arg net "$NETWORK" --arg pkg "$PACKAGE_ID" --arg digest "$TX_DIGEST" --arg at "$DEPLOYED_AT" '
+          .[$net].packageId = $pkg
+          | .[$net].history += [{
+              version: ((.[$net].history | map(.version) | max) + 1),
+              packageId: $pkg,
+              digest: $digest,
+              deployedAt: $at
+            }]
+        ' "$MANIFEST_FILE" > "$MANIFEST_FILE.tmp"
+    else
+        UPGRADE_CAP_ID=$(echo $DEPLOY_OUTPUT | jq -r '[.objectChanges[] | select(.type=="created" and (.objectType | endswith("::package::UpgradeCap"))) | .objectId][0] // empty')
+        
+        jq --arg net "$NETWORK" --arg pkg "$PACKAGE_ID" --arg cap "$UPGRADE_CAP_ID" --arg digest "$TX_DIGEST" --arg at "$DEPLOYED_AT" '
+          .[$net] = {
+            packageId: $pkg,
+            originalPackageId: $pkg,
+            upgradeCapId: (if $cap == "" then null else $cap end),
+            types: {
+              Project: ($pkg + "::foundry::Project"),
+              Contribution: ($pkg + "::foundry::Contribution"),
+              Feedback: ($pkg + "::foundry::Feedback")
+            },
+            history: [{ version: 1, packageId: $pkg, digest: $digest, deployedAt: $at }]
+          }
+        ' "$MANIFEST_FILE" > "$MANIFEST_FILE.tmp"
+    fi
+    
+    mv "$MANIFEST_FILE.tmp" "$MANIFEST_FILE"
+    echo "✅ Manifest updated"
+    echo ""
+    
     # Create .env file
     ENV_FILE="../.env"
     echo "📝 Creating .env file at: $ENV_FILE"
@@ -106,7 +187,7 @@ if [ $? -eq 0 ]; then
 # Generated on: $(date)
 
 # Sui Network Configuration
-SUI_NETWORK=testnet
+SUI_NETWORK=$NETWORK
 
 # Package ID
 PACKAGE_ID=$PACKAGE_ID
@@ -121,11 +202,8 @@ WALRUS_PUBLISHER_URL=https://publisher.walrus-testnet.walrus.space
 WALRUS_AGGREGATOR_URL=https://aggregator.walrus-testnet.walrus.space
 
 # Frontend Configuration
-VITE_SUI_NETWORK=testnet
-VITE_PACKAGE_ID=${PACKAGE_ID}
-VITE_PROJECT_TYPE=${PACKAGE_ID}::foundry::Project
-VITE_CONTRIBUTION_TYPE=${PACKAGE_ID}::foundry::Contribution
-VITE_FEEDBACK_TYPE=${PACKAGE_ID}::foundry::Feedback
+# (package IDs and types are read from frontend/public/deployments.json)
+VITE_SUI_NETWORK=$NETWORK
 VITE_WALRUS_PUBLISHER_URL=https://publisher.walrus-testnet.walrus.space
 VITE_WALRUS_AGGREGATOR_URL=https://aggregator.walrus-testnet.walrus.space
 
@@ -137,8 +215,6 @@ EOF
     echo "✅ .env file created successfully"
     echo ""
     
-    # Extract transaction digest
-    TX_DIGEST=$(echo $DEPLOY_OUTPUT | jq -r '.digest')
     echo "📋 Transaction Digest: $TX_DIGEST"
     echo ""
     
@@ -148,7 +224,7 @@ EOF
 # Foundry Deployment Information
 
 Deployment Date: $(date)
-Network: Sui Testnet
+Network: Sui $NETWORK
 Deployer Address: $ACTIVE_ADDRESS
 
 ## Package Information
@@ -1,9 +1,12 @@
 import { BrowserRouter as Router, Routes, Route } from 'react-router-dom';
-import { Navbar } from './components';
-import { Home, ProjectDetail, CreateProject } from './pages';
+import { Navbar, NotificationCenter, FundingCart } from './components';
+import { Home, ProjectDetail, CreateProject, Portfolio, Dashboard } from './pages';
+import { useResetQueriesOnNetworkChange } from './hooks/useNetwork';
 import './App.css';
 
 function App() {
+  useResetQueriesOnNetworkChange();
+
   return (
     <Router>
       <div className="app">
@@ -13,8 +16,12 @@ function App() {
             <Route path="/" element={<Home />} />
             <Route path="/project/:id" element={<ProjectDetail />} />
             <Route path="/create-project" element={<CreateProject />} />
+            <Route path="/dashboard" element={<Dashboard />} />
+            <Route path="/me" element={<Portfolio />} />
           </Routes>
         </main>
+        <FundingCart />
+        <NotificationCenter />
       </div>
     </Router>
   );
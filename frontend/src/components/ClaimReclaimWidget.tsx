@@ -5,12 +5,14 @@
  * with dynamic button display based on conditions
  */
 
-import { useState, useEffect } from 'react';
-import { Transaction } from '@mysten/sui/transactions';
-import { useCurrentAccount, useSuiClient } from '@mysten/dapp-kit';
-import { useExecuteTransaction } from '../hooks/useSuiProvider';
-import { PACKAGE_ID, mistToSui } from '../config/constants';
-import type { Project, Contribution } from '../types/contract';
+import { useState } from 'react';
+import { useCurrentAccount } from '@mysten/dapp-kit';
+import { useClaimFunds, useReclaimFunds } from '../hooks/useFoundryMutations';
+import { useMyContributions } from '../hooks/useMyContributions';
+import { getErrorMessage, isConfirmationPending } from '../utils/moveErrors';
+import { formatSui, percentOf } from '../utils/suiAmount';
+import TransactionEstimate from './TransactionEstimate';
+import type { Project } from '../types/contract';
 import './ClaimReclaimWidget.css';
 
 interface ClaimReclaimWidgetProps {
@@ -20,23 +22,23 @@ interface ClaimReclaimWidgetProps {
 
 export default function ClaimReclaimWidget({ project, onSuccess }: ClaimReclaimWidgetProps) {
   const account = useCurrentAccount();
-  const client = useSuiClient();
-  const { executeTransaction } = useExecuteTransaction();
+  const claimFunds = useClaimFunds(project);
+  const reclaimFunds = useReclaimFunds(project);
+  const contributionsQuery = useMyContributions(project.id.id);
+  const userContributions = contributionsQuery.data?.contributions ?? [];
+  const isLoadingContributions = contributionsQuery.isLoading;
 
   // State
-  const [userContributions, setUserContributions] = useState<Contribution[]>([]);
-  const [isLoadingContributions, setIsLoadingContributions] = useState(false);
   const [isClaiming, setIsClaiming] = useState(false);
   const [isReclaiming, setIsReclaiming] = useState(false);
   const [error, setError] = useState<string | null>(null);
 
   // Calculate project status
-  const currentFunding = mistToSui(parseInt(project.current_funding));
-  const fundingGoal = mistToSui(parseInt(project.funding_goal));
-  const fundingProgress = (currentFunding / fundingGoal) * 100;
-  const isGoalMet = fundingProgress >= 100;
-  const isExpired = new Date(parseInt(project.deadline)) < new Date();
+  const fundingProgress = percentOf(project.current_funding, project.funding_goal);
+  const isGoalMet = project.current_funding >= project.funding_goal;
+  const isExpired = new Date(Number(project.deadline)) < new Date();
   const isOwner = account && project.owner === account.address;
+  const totalContributed = contributionsQuery.data?.totalAmount ?? 0n;
 
   // Check if user can claim funds
   const canClaim = isOwner && isGoalMet && !project.is_withdrawn;
@@ -44,77 +46,8 @@ export default function ClaimReclaimWidget({ project, onSuccess }: ClaimReclaimW
   // Check if user can reclaim funds
   const canReclaim = !isOwner && isExpired && !isGoalMet && userContributions.length > 0;
 
-  // Fetch user's contributions
-  useEffect(() => {
-    const fetchUserContributions = async () => {
-      if (!account) {
-        setUserContributions([]);
-        return;
-      }
-
-      setIsLoadingContributions(true);
-      setError(null);
-
-      try {
-        // Query for Contribution objects owned by the user
-        const response = await client.queryEvents({
-          query: {
-            MoveEventType: `${PACKAGE_ID}::foundry::ContributionMade`,
-          },
-          limit: 100,
-          order: 'descending',
-        });
-
-        // Filter contributions for this project and user
-        const contributions: Contribution[] = [];
-        
-        for (const event of response.data) {
-          if (event.parsedJson) {
-            const eventData = event.parsedJson as any;
-            
-            // Check if this contribution is for the current project and user
-            if (
-              eventData.project_id === project.id.id &&
-              eventData.backer === account.address
-            ) {
-              // Get the actual Contribution object
-              try {
-                const contributionObj = await client.getObject({
-                  id: eventData.contribution_id,
-                  options: {
-                    showContent: true,
-                    showType: true,
-                  },
-                });
-
-                if (contributionObj.data?.content && 'fields' in contributionObj.data.content) {
-                  const fields = contributionObj.data.content.fields as any;
-                  
-                  contributions.push({
-                    id: { id: eventData.contribution_id },
-                    project_id: fields.project_id,
-                    backer_address: fields.backer_address,
-                    amount: fields.amount,
-                  });
-                }
-              } catch (err) {
-                console.warn('Failed to fetch contribution object:', err);
-              }
-            }
-          }
-        }
-
-        setUserContributions(contributions);
-      } catch (error) {
-        console.error('Error fetching contributions:', error);
-        setError('Failed to load your contributions');
-      } finally {
-        setIsLoadingContributions(false);
-      }
-    };
-
-    fetchUserContributions();
-  }, [account, project.id.id, client]);
+  // Lifecycle of the transaction being signed, for the gas estimate
+  const { simulation, isSimulating } = isClaiming ? claimFunds : reclaimFunds;
 
   // Handle claim funds
   const handleClaimFunds = async () => {
@@ -126,49 +59,19 @@ export default function ClaimReclaimWidget({ project, onSuccess }: ClaimReclaimW
     try {
       console.log('🚀 Claiming funds for project:', project.id.id);
 
-      // Build transaction
-      const tx = new Transaction();
-
-      // Get clock object
-      const clock = tx.sharedObjectRef({
-        objectId: '0x0000000000000000000000000000000000000000000000000000000000000006',
-        initialSharedVersion: 1,
-        mutable: false,
-      });
-
-      // Call claim_funds
-      tx.moveCall({
-        target: `${PACKAGE_ID}::foundry::claim_funds`,
-        arguments: [
-          tx.object(project.id.id),  // project: &mut Project
-          clock,                      // clock: &Clock
-        ],
-      });
+      const outcome = await claimFunds.mutateAsync({ onRetry: handleClaimFunds });
 
-      console.log('📦 Transaction built');
-
-      // Execute transaction
-      const result = await executeTransaction(tx, {
-        successMessage: 'Funds claimed successfully!',
-        errorMessage: 'Failed to claim funds',
-        onSuccess: (digest) => {
-          console.log('✅ Claim successful:', digest);
-          if (onSuccess) {
-            setTimeout(() => onSuccess(), 500);
-          }
-        },
-      });
-
-      console.log('✅ Claim complete:', result);
+      console.log('✅ Claim successful:', outcome.digest);
+      if (onSuccess) {
+        onSuccess();
+      }
 
     } catch (error) {
       console.error('❌ Claim error:', error);
       
-      const errorMessage = error instanceof Error 
-        ? error.message 
-        : 'An unknown error occurred';
+      const errorMessage = getErrorMessage(error);
       
-      setError(`Failed to claim funds: ${errorMessage}`);
+      setError(isConfirmationPending(error) ? errorMessage : `Failed to claim funds: ${errorMessage}`);
     } finally {
       setIsClaiming(false);
     }
@@ -184,69 +87,46 @@ export default function ClaimReclaimWidget({ project, onSuccess }: ClaimReclaimW
     try {
       console.log('🚀 Reclaiming funds for contributions:', userContributions.length);
 
-      // Build transaction for each contribution
-      const tx = new Transaction();
-
-      // Get clock object
-      const clock = tx.sharedObjectRef({
-        objectId: '0x0000000000000000000000000000000000000000000000000000000000000006',
-        initialSharedVersion: 1,
-        mutable: false,
+      // One reclaim_funds call per contribution, in a single transaction
+      const outcome = await reclaimFunds.mutateAsync({
+        contributions: userContributions,
+        onRetry: handleReclaimFunds,
       });
 
-      // For each contribution, call reclaim_funds
-      for (const contribution of userContributions) {
-        tx.moveCall({
-          target: `${PACKAGE_ID}::foundry::reclaim_funds`,
-          arguments: [
-            tx.object(project.id.id),        // project: &mut Project
-            tx.object(contribution.id.id),   // contribution: Contribution
-            clock,                           // clock: &Clock
-          ],
-        });
+      console.log('✅ Reclaim successful:', outcome.digest);
+      if (onSuccess) {
+        onSuccess();
       }
 
-      console.log('📦 Transaction built for', userContributions.length, 'contributions');
-
-      // Execute transaction
-      const result = await executeTransaction(tx, {
-        successMessage: `Successfully reclaimed ${userContributions.length} contribution(s)!`,
-        errorMessage: 'Failed to reclaim funds',
-        onSuccess: (digest) => {
-          console.log('✅ Reclaim successful:', digest);
-          if (onSuccess) {
-            setTimeout(() => onSuccess(), 500);
-          }
-        },
-      });
-
-      console.log('✅ Reclaim complete:', result);
-
     } catch (error) {
       console.error('❌ Reclaim error:', error);
       
-      const errorMessage = error instanceof Error 
-        ? error.message 
-        : 'An unknown error occurred';
+      const errorMessage = getErrorMessage(error);
       
-      setError(`Failed to reclaim funds: ${errorMessage}`);
+      setError(isConfirmationPending(error) ? errorMessage : `Failed to reclaim funds: ${errorMessage}`);
     } finally {
       setIsReclaiming(false);
     }
   };
 
-  // Don't render if no actions available
-  if (!canClaim && !canReclaim) {
+  // Don't render if no actions available (optimistic updates can remove
+  // the action while its transaction is still being signed)
+  if (!canClaim && !canReclaim && !isClaiming && !isReclaiming) {
     return null;
   }
 
   return (
     <div className="claim-reclaim-widget">
+      {/* Gas Estimate (while the wallet prompt is open) */}
+      {(isClaiming || isReclaiming) && (
+        <TransactionEstimate simulation={simulation} isSimulating={isSimulating} />
+      )}
+
       {/* Error Message */}
-      {error && (
+      {(error || contributionsQuery.isError) && (
         <div className="error-message">
           <span className="error-icon">⚠️</span>
-          {error}
+          {error ?? 'Failed to load your contributions'}
         </div>
       )}
 
@@ -261,11 +141,11 @@ export default function ClaimReclaimWidget({ project, onSuccess }: ClaimReclaimW
           <div className="action-stats">
             <div className="stat">
               <span className="stat-label">Raised</span>
-              <span className="stat-value">{currentFunding.toLocaleString()} SUI</span>
+              <span className="stat-value">{formatSui(project.current_funding)} SUI</span>
             </div>
             <div className="stat">
               <span className="stat-label">Goal</span>
-              <span className="stat-value">{fundingGoal.toLocaleString()} SUI</span>
+              <span className="stat-value">{formatSui(project.funding_goal)} SUI</span>
             </div>
             <div className="stat">
               <span className="stat-label">Progress</span>
@@ -288,7 +168,7 @@ export default function ClaimReclaimWidget({ project, onSuccess }: ClaimReclaimW
                 Claiming Funds...
               </>
             ) : (
-              <>💰 Claim {currentFunding.toLocaleString()} SUI</>
+              <>💰 Claim {formatSui(project.current_funding)} SUI</>
             )}
           </button>
         </div>
@@ -317,12 +197,12 @@ export default function ClaimReclaimWidget({ project, onSuccess }: ClaimReclaimW
                 <div className="stat">
                   <span className="stat-label">Total Amount</span>
                   <span className="stat-value">
-                    {userContributions.reduce((sum, c) => sum + mistToSui(parseInt(c.amount)), 0).toLocaleString()} SUI
+                    {formatSui(totalContributed)} SUI
                   </span>
                 </div>
                 <div className="stat">
                   <span className="stat-label">Goal</span>
-                  <span className="stat-value">{fundingGoal.toLocaleString()} SUI</span>
+                  <span className="stat-value">{formatSui(project.funding_goal)} SUI</span>
                 </div>
               </div>
 
@@ -334,7 +214,7 @@ export default function ClaimReclaimWidget({ project, onSuccess }: ClaimReclaimW
                     <ul>
                       {userContributions.map((contribution, index) => (
                         <li key={contribution.id.id}>
-                          Contribution #{index + 1}: {mistToSui(parseInt(contribution.amount)).toLocaleString()} SUI
+                          Contribution #{index + 1}: {formatSui(contribution.amount)} SUI
                         </li>
                       ))}
                     </ul>
@@ -353,7 +233,7 @@ export default function ClaimReclaimWidget({ project, onSuccess }: ClaimReclaimW
                     Reclaiming Funds...
                   </>
                 ) : (
-                  <>💸 Reclaim {userContributions.reduce((sum, c) => sum + mistToSui(parseInt(c.amount)), 0).toLocaleString()} SUI</>
+                  <>💸 Reclaim {formatSui(totalContributed)} SUI</>
                 )}
               </button>
             </>
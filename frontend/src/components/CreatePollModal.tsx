@@ -6,11 +6,11 @@
  */
 
 import { useState } from 'react';
-import { Transaction } from '@mysten/sui/transactions';
 import { useCurrentAccount } from '@mysten/dapp-kit';
-import { useExecuteTransaction } from '../hooks/useSuiProvider';
-import { PACKAGE_ID } from '../config/constants';
-import { uploadJson } from '../utils/walrusClient';
+import { useCreatePoll } from '../hooks/useFoundryMutations';
+import { useWalrus } from '../hooks/useWalrus';
+import { getErrorMessage, isConfirmationPending } from '../utils/moveErrors';
+import { notifyUpload } from '../utils/notifications';
 import { createPollData } from '../utils/walrusSchemas';
 import type { Project } from '../types/contract';
 import type { PollData } from '../types/walrus';
@@ -30,7 +30,8 @@ export default function CreatePollModal({
   onSuccess 
 }: CreatePollModalProps) {
   const account = useCurrentAccount();
-  const { executeTransaction } = useExecuteTransaction();
+  const createPoll = useCreatePoll(project);
+  const walrus = useWalrus();
 
   // Form state
   const [formData, setFormData] = useState({
@@ -138,9 +139,10 @@ export default function CreatePollModal({
     return true;
   };
 
-  // Handle form submission
-  const handleSubmit = async (e: React.FormEvent) => {
-    e.preventDefault();
+  // Handle form submission; a retried transaction passes the poll data
+  // it already uploaded, so only the transaction runs again
+  const handleSubmit = async (e?: React.FormEvent, uploadedPollDataCid?: string) => {
+    e?.preventDefault();
     
     if (!validateForm()) return;
     if (!account) return;
@@ -149,85 +151,68 @@ export default function CreatePollModal({
     setError(null);
 
     try {
-      // Step 1: Create poll data
-      setCurrentStep('Creating poll data...');
-      console.log('📝 Creating poll data...');
+      let pollDataCid = uploadedPollDataCid;
 
-      const pollData = createPollData({
-        question: formData.question,
-        description: formData.description || undefined,
-        options: formData.options.filter(option => option.trim().length > 0),
-        allowMultipleVotes: formData.allowMultipleVotes,
-        expiresAt: formData.expiresAt ? new Date(formData.expiresAt).getTime() : undefined,
-      });
+      if (!pollDataCid) {
+        // Step 1: Create poll data
+        setCurrentStep('Creating poll data...');
+        console.log('📝 Creating poll data...');
 
-      console.log('✅ Poll data created:', pollData);
+        const pollData = createPollData({
+          question: formData.question,
+          description: formData.description || undefined,
+          options: formData.options.filter(option => option.trim().length > 0),
+          allowMultipleVotes: formData.allowMultipleVotes,
+          expiresAt: formData.expiresAt ? new Date(formData.expiresAt).getTime() : undefined,
+        });
 
-      // Step 2: Upload to Walrus
-      setCurrentStep('Uploading poll data to Walrus...');
-      console.log('📤 Uploading to Walrus...');
+        console.log('✅ Poll data created:', pollData);
 
-      const uploadResult = await uploadJson(pollData, { epochs: 5 });
-      const pollDataCid = uploadResult.cid;
+        // Step 2: Upload to Walrus
+        setCurrentStep('Uploading poll data to Walrus...');
+        console.log('📤 Uploading to Walrus...');
 
-      console.log('✅ Uploaded to Walrus:', pollDataCid);
+        const uploadResult = await notifyUpload('Poll data', walrus.uploadJson(pollData, { epochs: 5 }), () => handleSubmit());
+        pollDataCid = uploadResult.ref;
 
-      // Step 3: Build transaction
-      setCurrentStep('Building transaction...');
-      console.log('🔧 Building transaction...');
+        console.log('✅ Uploaded to Walrus:', pollDataCid);
+      }
 
-      const tx = new Transaction();
-
-      tx.moveCall({
-        target: `${PACKAGE_ID}::foundry::create_poll`,
-        arguments: [
-          tx.object(project.id.id),           // project: &mut Project
-          tx.pure.string(formData.question),  // question: String
-          tx.pure.vector('string', formData.options.filter(option => option.trim().length > 0)), // options: vector<String>
-        ],
-      });
-
-      console.log('📦 Transaction built');
-
-      // Step 4: Execute transaction
+      // Step 3: Create the poll on chain
       setCurrentStep('Submitting transaction to Sui blockchain...');
       console.log('🚀 Executing transaction...');
 
-      const result = await executeTransaction(tx, {
-        successMessage: 'Poll created successfully!',
-        errorMessage: 'Failed to create poll',
-        onSuccess: (digest) => {
-          console.log('✅ Poll created successfully:', digest);
-          setCurrentStep('Poll created successfully!');
-          
-          // Reset form and close modal
-          setFormData({
-            question: '',
-            description: '',
-            options: ['', ''],
-            allowMultipleVotes: false,
-            expiresAt: '',
-          });
-          
-          setTimeout(() => {
-            onClose();
-            if (onSuccess) {
-              onSuccess();
-            }
-          }, 1000);
-        },
+      const outcome = await createPoll.mutateAsync({
+        question: formData.question,
+        options: formData.options.filter(option => option.trim().length > 0),
+        onRetry: () => handleSubmit(undefined, pollDataCid),
       });
 
-      console.log('✅ Poll creation complete:', result);
+      console.log('✅ Poll created successfully:', outcome.digest);
+      setCurrentStep('Poll created successfully!');
+      
+      // Reset form and close modal
+      setFormData({
+        question: '',
+        description: '',
+        options: ['', ''],
+        allowMultipleVotes: false,
+        expiresAt: '',
+      });
+      
+      setTimeout(() => {
+        onClose();
+        if (onSuccess) {
+          onSuccess();
+        }
+      }, 1000);
 
     } catch (error) {
       console.error('❌ Error creating poll:', error);
       
-      const errorMessage = error instanceof Error 
-        ? error.message 
-        : 'An unknown error occurred';
+      const errorMessage = getErrorMessage(error);
       
-      setError(`Failed to create poll: ${errorMessage}`);
+      setError(isConfirmationPending(error) ? errorMessage : `Failed to create poll: ${errorMessage}`);
       setCurrentStep('');
     } finally {
       setIsSubmitting(false);
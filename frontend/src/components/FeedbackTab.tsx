@@ -5,13 +5,17 @@
  * Integrates with Walrus for feedback storage and on-chain submission
  */
 
-import { useState, useEffect, useCallback } from 'react';
-import { useCurrentAccount, useSuiClient } from '@mysten/dapp-kit';
-import { useExecuteTransaction } from '../hooks/useSuiProvider';
-import { PACKAGE_ID, OBJECT_TYPES } from '../config/constants';
-import { uploadJson, fetchJson } from '../utils/walrusClient';
+import { useEffect, useState } from 'react';
+import { useCurrentAccount } from '@mysten/dapp-kit';
+import { useSubmitFeedback } from '../hooks/useFoundryMutations';
+import { useProjectFeedback } from '../hooks/useProjectTabs';
+import { useMyContributions } from '../hooks/useMyContributions';
+import { useWalrus } from '../hooks/useWalrus';
+import { getErrorMessage } from '../utils/moveErrors';
+import { notifyUpload } from '../utils/notifications';
+import { markFeedbackSeen } from '../utils/seenFeedback';
 import { createFeedbackMessage } from '../utils/walrusSchemas';
-import type { Project, Feedback } from '../types/contract';
+import type { Project } from '../types/contract';
 import type { FeedbackMessage } from '../types/walrus';
 import FeedbackForm from './FeedbackForm';
 import FeedbackList from './FeedbackList';
@@ -24,15 +28,19 @@ interface FeedbackTabProps {
 
 export default function FeedbackTab({ project, onSuccess }: FeedbackTabProps) {
   const account = useCurrentAccount();
-  const client = useSuiClient();
-  const { executeTransaction } = useExecuteTransaction();
+  const submitFeedback = useSubmitFeedback(project);
+  const walrus = useWalrus();
+
+  // Feedback is cached per project; feedback rights come from the account's receipts
+  const feedbackQuery = useProjectFeedback(project);
+  const contributionsQuery = useMyContributions(project.id.id);
+  const { feedback, messages: feedbackMessages } = feedbackQuery.data ?? { feedback: [], messages: {} };
+  const userContributions = contributionsQuery.data?.contributions ?? [];
+  const isLoading = feedbackQuery.isLoading;
 
   // State
-  const [feedback, setFeedback] = useState<Feedback[]>([]);
-  const [feedbackMessages, setFeedbackMessages] = useState<Record<string, FeedbackMessage>>({});
-  const [userContributions, setUserContributions] = useState<any[]>([]);
-  const [isLoading, setIsLoading] = useState(false);
-  const [error, setError] = useState<string | null>(null);
+  const [submitError, setError] = useState<string | null>(null);
+  const error = submitError ?? (feedbackQuery.isError ? 'Failed to load feedback' : null);
   const [isSubmitting, setIsSubmitting] = useState(false);
 
   // Check if user is project owner
@@ -41,153 +49,24 @@ export default function FeedbackTab({ project, onSuccess }: FeedbackTabProps) {
   // Check if user is a backer (has contributions)
   const isBacker = userContributions.length > 0;
 
-  // Fetch feedback from the project
-  const fetchFeedback = async () => {
-    if (!project.id.id) return;
-
-    setIsLoading(true);
-    setError(null);
-
-    try {
-      console.log('💬 Fetching feedback for project:', project.id.id);
-
-      // Query for FeedbackSubmitted events for this project
-      const { data: events } = await client.queryEvents({
-        query: {
-          MoveEventType: `${PACKAGE_ID}::foundry::FeedbackSubmitted`,
-        },
-        order: 'descending',
-        limit: 100,
-      });
-
-      const feedbackList: Feedback[] = [];
-
-      for (const event of events) {
-        if (event.parsedJson) {
-          const eventData = event.parsedJson as any;
-          // Filter events for the current project
-          if (eventData.project_id === project.id.id) {
-            // Fetch the actual Feedback object to ensure it still exists
-            const feedbackObject = await client.getObject({
-              id: eventData.feedback_id,
-              options: { showContent: true, showType: true },
-            });
-
-            if (feedbackObject.data?.content && 'fields' in feedbackObject.data.content) {
-              const fields = feedbackObject.data.content.fields as any;
-              feedbackList.push({
-                id: fields.id as { id: string },
-                project_id: fields.project_id as string,
-                backer_address: fields.backer_address as string,
-                message_cid: fields.message_cid as string,
-              });
-            }
-          }
-        }
-      }
-
-      console.log('📝 Found feedback:', feedbackList.length);
-      setFeedback(feedbackList);
-
-      // Fetch feedback messages from Walrus
-      await fetchFeedbackMessages(feedbackList);
-
-    } catch (error) {
-      console.error('❌ Error fetching feedback:', error);
-      setError('Failed to load feedback');
-    } finally {
-      setIsLoading(false);
-    }
-  };
-
-  // Fetch feedback messages from Walrus
-  const fetchFeedbackMessages = async (feedbackList: Feedback[]) => {
-    const messages: Record<string, FeedbackMessage> = {};
-
-    for (const fb of feedbackList) {
-      if (fb.message_cid) {
-        try {
-          console.log('📥 Fetching feedback message:', fb.message_cid);
-          const message = await fetchJson<FeedbackMessage>(fb.message_cid);
-          messages[fb.id.id] = message;
-        } catch (error) {
-          console.warn('Failed to fetch feedback message:', fb.message_cid, error);
-          // Create a fallback message
-          messages[fb.id.id] = {
-            message: 'Feedback message not available',
-            category: 'general',
-            isAnonymous: false,
-            version: '1.0.0',
-            createdAt: Date.now(),
-          };
-        }
-      }
-    }
-
-    setFeedbackMessages(messages);
-  };
-
-  // Fetch user's contributions to determine if they can submit feedback
-  const fetchUserContributions = useCallback(async () => {
-    if (!account || !project.id.id) {
-      setUserContributions([]);
-      return;
-    }
-
-    try {
-      console.log('🔍 Fetching user contributions for feedback rights...');
-
-      // Query for ContributionMade events by this user for this project
-      const { data: events } = await client.queryEvents({
-        query: {
-          MoveEventType: `${PACKAGE_ID}::foundry::ContributionMade`,
-        },
-        order: 'descending',
-        limit: 100,
-      });
-
-      const contributions: any[] = [];
-
-      for (const event of events) {
-        if (event.parsedJson) {
-          const eventData = event.parsedJson as any;
-          // Filter events for the current project and the connected user
-          if (eventData.project_id === project.id.id && eventData.backer === account.address) {
-            // Fetch the actual Contribution object to ensure it still exists
-            const contributionObject = await client.getObject({
-              id: eventData.contribution_id,
-              options: { showContent: true, showType: true },
-            });
-
-            if (contributionObject.data?.content && 'fields' in contributionObject.data.content) {
-              contributions.push(contributionObject.data.content.fields);
-            }
-          }
-        }
-      }
-
-      console.log('✅ Found user contributions:', contributions.length);
-      setUserContributions(contributions);
-
-    } catch (error) {
-      console.error('❌ Error fetching user contributions:', error);
-      setUserContributions([]);
-    }
-  }, [account, client, project.id.id]);
-
-  // Load feedback and contributions on mount
+  // Feedback shown to the owner no longer counts as unread on the dashboard
   useEffect(() => {
-    fetchFeedback();
-    fetchUserContributions();
-  }, [project.id.id, fetchUserContributions]);
-
-  // Handle feedback submission
-  const handleFeedbackSubmit = async (feedbackData: {
-    message: string;
-    category: 'general' | 'bug_report' | 'feature_request' | 'complaint' | 'praise';
-    isAnonymous: boolean;
-    rating?: number;
-  }) => {
+    if (isOwner && feedback.length > 0) {
+      markFeedbackSeen(project.id.id, feedback.map((entry) => entry.id.id));
+    }
+  }, [feedback, isOwner, project.id.id]);
+
+  // Handle feedback submission; a retried transaction passes the message
+  // it already uploaded, so only the transaction runs again
+  const handleFeedbackSubmit = async (
+    feedbackData: {
+      message: string;
+      category: 'general' | 'bug_report' | 'feature_request' | 'complaint' | 'praise';
+      isAnonymous: boolean;
+      rating?: number;
+    },
+    uploaded?: { messageCid: string; feedbackMessage: FeedbackMessage }
+  ) => {
     if (!account || !isBacker || userContributions.length === 0) {
       setError('You need to contribute to this project to submit feedback');
       return;
@@ -199,62 +78,52 @@ export default function FeedbackTab({ project, onSuccess }: FeedbackTabProps) {
     try {
       console.log('📝 Submitting feedback...');
 
-      // Step 1: Create feedback message
-      const feedbackMessage = createFeedbackMessage({
-        message: feedbackData.message,
-        category: feedbackData.category,
-        isAnonymous: feedbackData.isAnonymous,
-        rating: feedbackData.rating,
-      });
-
-      console.log('✅ Feedback message created:', feedbackMessage);
-
-      // Step 2: Upload to Walrus
-      console.log('📤 Uploading to Walrus...');
-      const uploadResult = await uploadJson(feedbackMessage, { epochs: 5 });
-      const messageCid = uploadResult.cid;
-
-      console.log('✅ Uploaded to Walrus:', messageCid);
-
-      // Step 3: Build transaction
-      console.log('🔧 Building transaction...');
-      const tx = new Transaction();
-
-      // Use the first contribution for feedback submission
-      const contribution = userContributions[0];
-      
-      tx.moveCall({
-        target: `${PACKAGE_ID}::foundry::submit_feedback`,
-        arguments: [
-          tx.pure.string(project.id.id),     // project_id: String
-          tx.object(contribution.id),        // contribution: &Contribution
-          tx.pure.string(messageCid),        // message_cid: String
-        ],
-      });
-
-      console.log('📦 Transaction built');
+      let feedbackMessage: FeedbackMessage;
+      let messageCid: string;
+
+      if (uploaded) {
+        ({ feedbackMessage, messageCid } = uploaded);
+      } else {
+        // Step 1: Create feedback message
+        feedbackMessage = createFeedbackMessage({
+          message: feedbackData.message,
+          category: feedbackData.category,
+          isAnonymous: feedbackData.isAnonymous,
+          rating: feedbackData.rating,
+        });
+
+        console.log('✅ Feedback message created:', feedbackMessage);
+
+        // Step 2: Upload to Walrus
+        console.log('📤 Uploading to Walrus...');
+        const uploadResult = await notifyUpload(
+          'Feedback',
+          walrus.uploadJson(feedbackMessage, { epochs: 5 }),
+          () => handleFeedbackSubmit(feedbackData)
+        );
+        messageCid = uploadResult.ref;
+
+        console.log('✅ Uploaded to Walrus:', messageCid);
+      }
 
-      // Step 4: Execute transaction
+      // Step 3: Submit on chain, using the first contribution as proof;
+      // the feedback is listed right away and reconciled once finalized
       console.log('🚀 Executing transaction...');
-      await executeTransaction(tx, {
-        successMessage: 'Feedback submitted successfully!',
-        errorMessage: 'Failed to submit feedback',
-        onSuccess: () => {
-          console.log('✅ Feedback submitted successfully');
-          // Refresh feedback list
-          fetchFeedback();
-          if (onSuccess) {
-            onSuccess();
-          }
-        },
-        onError: (err) => {
-          setError(err.message);
-        },
+      await submitFeedback.mutateAsync({
+        contributionId: userContributions[0].id.id,
+        messageCid,
+        message: feedbackMessage,
+        onRetry: () => handleFeedbackSubmit(feedbackData, { messageCid, feedbackMessage }),
       });
 
+      console.log('✅ Feedback submitted successfully');
+      if (onSuccess) {
+        onSuccess();
+      }
+
     } catch (error) {
       console.error('❌ Error submitting feedback:', error);
-      setError('Failed to submit feedback. Please try again.');
+      setError(getErrorMessage(error));
     } finally {
       setIsSubmitting(false);
     }
@@ -262,8 +131,9 @@ export default function FeedbackTab({ project, onSuccess }: FeedbackTabProps) {
 
   // Handle retry
   const handleRetry = () => {
-    fetchFeedback();
-    fetchUserContributions();
+    setError(null);
+    feedbackQuery.refetch();
+    contributionsQuery.refetch();
   };
 
   return (
@@ -0,0 +1,154 @@
+import { useState } from 'react';
+import { Link } from 'react-router-dom';
+import { useCurrentAccount } from '@mysten/dapp-kit';
+import { useFundingCart } from '../hooks/useFundingCart';
+import { useFundProjects } from '../hooks/useFoundryMutations';
+import { useProjectsByIds, useProjectsMetadata } from '../hooks/useProjects';
+import { getErrorMessage, isConfirmationPending } from '../utils/moveErrors';
+import { formatSui, sumMist } from '../utils/suiAmount';
+import WalletConnectButton from './WalletConnectButton';
+import TransactionEstimate from './TransactionEstimate';
+import './FundingCart.css';
+
+/**
+ * FundingCart - Checkout for the projects picked in the funding cart
+ *
+ * Mounted once in App, outside the routes, so the cart stays reachable
+ * while the backer browses. Funds every project still open with a single
+ * transaction, so one wallet approval covers the whole cart.
+ */
+export default function FundingCart() {
+  const account = useCurrentAccount();
+  const cart = useFundingCart();
+  const fundProjects = useFundProjects();
+  const { projects } = useProjectsByIds(cart.items.map((item) => item.projectId));
+  const { metadataByCid } = useProjectsMetadata(projects);
+  const [isOpen, setIsOpen] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  if (cart.items.length === 0) return null;
+
+  const projectsById = new Map(projects.map((project) => [project.id.id, project]));
+
+  // fund_project does not check the deadline, but backing an ended
+  // campaign would only lock the funds until they are reclaimed
+  const isClosed = (projectId: string) => {
+    const project = projectsById.get(projectId);
+    return !!project && (project.is_withdrawn || Date.now() > Number(project.deadline));
+  };
+
+  const payments = cart.items.filter((item) => !isClosed(item.projectId));
+  const total = sumMist(payments.map((payment) => payment.amount));
+
+  const handleCheckout = async () => {
+    setError(null);
+
+    try {
+      console.log('🚀 Funding projects from cart:', payments.length);
+
+      const outcome = await fundProjects.mutateAsync({
+        payments: payments.map(({ projectId, amount }) => ({ projectId, amount })),
+        onRetry: handleCheckout,
+      });
+
+      console.log('✅ Cart checkout successful:', outcome.digest);
+      console.log('🧾 Contribution receipts:', outcome.contributionIds);
+
+      payments.forEach((payment) => cart.remove(payment.projectId));
+      setIsOpen(false);
+    } catch (error) {
+      console.error('❌ Cart checkout error:', error);
+      setError(isConfirmationPending(error) ? getErrorMessage(error) : `Failed to fund projects: ${getErrorMessage(error)}`);
+    }
+  };
+
+  return (
+    <div className="funding-cart">
+      {isOpen && (
+        <div className="funding-cart-panel" role="dialog" aria-label="Funding cart">
+          <div className="funding-cart-header">
+            <h3>🛒 Funding Cart</h3>
+            <button
+              className="funding-cart-close"
+              onClick={() => setIsOpen(false)}
+              aria-label="Close"
+            >
+              ✕
+            </button>
+          </div>
+
+          <ul className="funding-cart-items">
+            {cart.items.map((item) => {
+              const project = projectsById.get(item.projectId);
+              const name = (project && metadataByCid[project.metadata_cid]?.name) ?? `Project ${item.projectId.slice(0, 10)}...`;
+              const closed = isClosed(item.projectId);
+
+              return (
+                <li key={item.projectId} className={`funding-cart-item ${closed ? 'closed' : ''}`}>
+                  <div className="funding-cart-item-info">
+                    <Link to={`/project/${item.projectId}`} onClick={() => setIsOpen(false)}>
+                      {name}
+                    </Link>
+                    {closed && <span className="funding-cart-item-note">Campaign ended, skipped</span>}
+                  </div>
+                  <span className="funding-cart-item-amount">{formatSui(item.amount)} SUI</span>
+                  <button
+                    className="funding-cart-remove"
+                    onClick={() => cart.remove(item.projectId)}
+                    disabled={fundProjects.isPending}
+                    aria-label="Remove from cart"
+                  >
+                    ✕
+                  </button>
+                </li>
+              );
+            })}
+          </ul>
+
+          <div className="funding-cart-total">
+            <span>Total ({payments.length} project{payments.length === 1 ? '' : 's'})</span>
+            <strong>{formatSui(total)} SUI</strong>
+          </div>
+
+          {/* Gas Estimate (while the wallet prompt is open) */}
+          {fundProjects.isPending && (
+            <TransactionEstimate simulation={fundProjects.simulation} isSimulating={fundProjects.isSimulating} />
+          )}
+
+          {error && <p className="funding-cart-error">{error}</p>}
+
+          {account ? (
+            <button
+              className="btn btn-primary"
+              onClick={handleCheckout}
+              disabled={fundProjects.isPending || payments.length === 0}
+            >
+              {fundProjects.isPending ? (
+                <>
+                  <span className="spinner"></span>
+                  {fundProjects.status === 'submitted' ? 'Confirming...' : 'Processing...'}
+                </>
+              ) : (
+                <>💰 Fund {payments.length} project{payments.length === 1 ? '' : 's'}</>
+              )}
+            </button>
+          ) : (
+            <WalletConnectButton />
+          )}
+
+          <button
+            className="btn btn-secondary btn-sm"
+            onClick={cart.clear}
+            disabled={fundProjects.isPending}
+          >
+            Empty cart
+          </button>
+        </div>
+      )}
+
+      <button className="funding-cart-toggle" onClick={() => setIsOpen(!isOpen)}>
+        🛒 {payments.length} · {formatSui(total, { maximumFractionDigits: 2 })} SUI
+      </button>
+    </div>
+  );
+}
@@ -6,10 +6,21 @@
  */
 
 import { useState } from 'react';
-import { Transaction } from '@mysten/sui/transactions';
 import { useCurrentAccount } from '@mysten/dapp-kit';
-import { useExecuteTransaction } from '../hooks/useSuiProvider';
-import { PACKAGE_ID, suiToMist, mistToSui } from '../config/constants';
+import { useFundProject } from '../hooks/useFoundryMutations';
+import { useFundingCart } from '../hooks/useFundingCart';
+import { MAX_FUNDING_MIST, validateFundingAmount } from '../utils/fundingCart';
+import { getErrorMessage, isConfirmationPending } from '../utils/moveErrors';
+import {
+  MIST_PER_SUI,
+  formatSui,
+  mistToSuiString,
+  parseSui,
+  percentOf,
+  remainingMist,
+  tryParseSui,
+} from '../utils/suiAmount';
+import TransactionEstimate from './TransactionEstimate';
 import type { Project } from '../types/contract';
 import './FundingWidget.css';
 
@@ -27,26 +38,26 @@ export default function FundingWidget({
   onSuccess 
 }: FundingWidgetProps) {
   const account = useCurrentAccount();
-  const { executeTransaction } = useExecuteTransaction();
+  const fundProject = useFundProject(project);
+  const { simulation, isSimulating, status } = fundProject;
+  const cart = useFundingCart();
+  const isInCart = cart.isInCart(project.id.id);
 
   // Form state
   const [amount, setAmount] = useState<string>('');
   const [isSubmitting, setIsSubmitting] = useState(false);
   const [error, setError] = useState<string | null>(null);
 
-  // Calculate funding stats
-  const currentFunding = mistToSui(parseInt(project.current_funding));
-  const fundingGoal = mistToSui(parseInt(project.funding_goal));
-  const remainingAmount = fundingGoal - currentFunding;
-  const fundingProgress = (currentFunding / fundingGoal) * 100;
+  // Calculate funding stats (in MIST)
+  const remainingAmount = remainingMist(project.funding_goal, project.current_funding);
+  const fundingProgress = percentOf(project.current_funding, project.funding_goal);
 
   // Preset amounts
-  const presetAmounts = [
-    Math.min(10, remainingAmount),
-    Math.min(50, remainingAmount),
-    Math.min(100, remainingAmount),
-    Math.min(500, remainingAmount),
-  ].filter(amt => amt > 0);
+  const presetAmounts = [...new Set(
+    [10n, 50n, 100n, 500n]
+      .map((sui) => sui * MIST_PER_SUI)
+      .map((mist) => (mist < remainingAmount ? mist : remainingAmount))
+  )].filter(amt => amt > 0n);
 
   // Handle amount change
   const handleAmountChange = (value: string) => {
@@ -58,31 +69,32 @@ export default function FundingWidget({
   };
 
   // Set preset amount
-  const setPresetAmount = (value: number) => {
-    setAmount(value.toString());
+  const setPresetAmount = (value: bigint) => {
+    setAmount(mistToSuiString(value));
     setError(null);
   };
 
   // Validate amount
   const validateAmount = (): boolean => {
-    if (!amount || parseFloat(amount) <= 0) {
-      setError('Please enter a valid amount');
+    const validationError = validateFundingAmount(tryParseSui(amount));
+
+    if (validationError) {
+      setError(validationError);
       return false;
     }
 
-    const amountNum = parseFloat(amount);
+    return true;
+  };
 
-    if (amountNum < 0.01) {
-      setError('Minimum funding amount is 0.01 SUI');
-      return false;
-    }
+  // Add the amount to the funding cart, to be paid with other projects
+  const handleAddToCart = () => {
+    if (!validateAmount()) return;
 
-    if (amountNum > 10000) {
-      setError('Maximum funding amount is 10,000 SUI per transaction');
-      return false;
-    }
+    cart.add(project.id.id, parseSui(amount));
+    console.log('🛒 Added to funding cart:', project.id.id, `${amount} SUI`);
 
-    return true;
+    setAmount('');
+    onClose();
   };
 
   // Handle fund project
@@ -98,66 +110,34 @@ export default function FundingWidget({
     setError(null);
 
     try {
-      const amountMist = suiToMist(parseFloat(amount));
+      const amountMist = parseSui(amount);
 
       console.log('🚀 Funding project:', {
         projectId: project.id.id,
         amount: `${amount} SUI`,
-        amountMist,
+        amountMist: amountMist.toString(),
       });
 
-      // Build transaction
-      const tx = new Transaction();
-
-      // Split coins to get exact amount
-      const [coin] = tx.splitCoins(tx.gas, [tx.pure.u64(amountMist)]);
-
-      // Get clock object (0x6 is the shared Clock object on Sui)
-      const clock = tx.sharedObjectRef({
-        objectId: '0x0000000000000000000000000000000000000000000000000000000000000006',
-        initialSharedVersion: 1,
-        mutable: false,
-      });
+      // The funding bar updates optimistically while the wallet is open
+      const outcome = await fundProject.mutateAsync({ amount: amountMist, onRetry: handleFundProject });
 
-      // Call fund_project
-      tx.moveCall({
-        target: `${PACKAGE_ID}::foundry::fund_project`,
-        arguments: [
-          tx.object(project.id.id),  // project: &mut Project
-          coin,                       // payment: Coin<SUI>
-          clock,                      // clock: &Clock
-        ],
-      });
+      console.log('✅ Transaction successful:', outcome.digest);
+      console.log('🧾 Contribution receipt:', outcome.contributionIds);
 
-      console.log('📦 Transaction built');
-
-      // Execute transaction
-      const result = await executeTransaction(tx, {
-        successMessage: `Successfully funded with ${amount} SUI!`,
-        errorMessage: 'Failed to fund project',
-        onSuccess: (digest) => {
-          console.log('✅ Transaction successful:', digest);
-          
-          // Close modal and trigger success callback
-          setAmount('');
-          onClose();
-          
-          if (onSuccess) {
-            setTimeout(() => onSuccess(), 500);
-          }
-        },
-      });
+      // Close modal and trigger success callback
+      setAmount('');
+      onClose();
 
-      console.log('✅ Funding complete:', result);
+      if (onSuccess) {
+        onSuccess();
+      }
 
     } catch (error) {
       console.error('❌ Funding error:', error);
       
-      const errorMessage = error instanceof Error 
-        ? error.message 
-        : 'An unknown error occurred';
+      const errorMessage = getErrorMessage(error);
       
-      setError(`Failed to fund project: ${errorMessage}`);
+      setError(isConfirmationPending(error) ? errorMessage : `Failed to fund project: ${errorMessage}`);
     } finally {
       setIsSubmitting(false);
     }
@@ -210,15 +190,15 @@ export default function FundingWidget({
           <div className="project-summary">
             <div className="summary-stat">
               <span className="stat-label">Current Funding</span>
-              <span className="stat-value">{currentFunding.toLocaleString()} SUI</span>
+              <span className="stat-value">{formatSui(project.current_funding)} SUI</span>
             </div>
             <div className="summary-stat">
               <span className="stat-label">Goal</span>
-              <span className="stat-value">{fundingGoal.toLocaleString()} SUI</span>
+              <span className="stat-value">{formatSui(project.funding_goal)} SUI</span>
             </div>
             <div className="summary-stat">
               <span className="stat-label">Remaining</span>
-              <span className="stat-value highlight">{remainingAmount.toLocaleString()} SUI</span>
+              <span className="stat-value highlight">{formatSui(remainingAmount)} SUI</span>
             </div>
           </div>
 
@@ -226,7 +206,7 @@ export default function FundingWidget({
           <div className="funding-progress">
             <div className="progress-info">
               <span>{fundingProgress.toFixed(1)}% funded</span>
-              <span>{remainingAmount > 0 ? `${remainingAmount.toFixed(2)} SUI to go` : 'Goal reached!'}</span>
+              <span>{remainingAmount > 0n ? `${formatSui(remainingAmount, { maximumFractionDigits: 2 })} SUI to go` : 'Goal reached!'}</span>
             </div>
             <div className="progress-bar">
               <div 
@@ -267,29 +247,34 @@ export default function FundingWidget({
               <div className="preset-buttons">
                 {presetAmounts.map((preset) => (
                   <button
-                    key={preset}
+                    key={preset.toString()}
                     type="button"
                     className="preset-button"
                     onClick={() => setPresetAmount(preset)}
                     disabled={isSubmitting}
                   >
-                    {preset} SUI
+                    {formatSui(preset)} SUI
                   </button>
                 ))}
-                {remainingAmount > 0 && remainingAmount <= 10000 && (
+                {remainingAmount > 0n && remainingAmount <= MAX_FUNDING_MIST && (
                   <button
                     type="button"
                     className="preset-button preset-full"
                     onClick={() => setPresetAmount(remainingAmount)}
                     disabled={isSubmitting}
                   >
-                    Full Amount ({remainingAmount.toFixed(2)} SUI)
+                    Full Amount ({formatSui(remainingAmount, { maximumFractionDigits: 2 })} SUI)
                   </button>
                 )}
               </div>
             </div>
           )}
 
+          {/* Gas Estimate (while the wallet prompt is open) */}
+          {isSubmitting && (
+            <TransactionEstimate simulation={simulation} isSimulating={isSimulating} />
+          )}
+
           {/* Error Message */}
           {error && (
             <div className="error-message">
@@ -328,6 +313,14 @@ export default function FundingWidget({
           >
             Cancel
           </button>
+          <button
+            type="button"
+            className="btn btn-secondary"
+            onClick={handleAddToCart}
+            disabled={isSubmitting || !amount}
+          >
+            🛒 {isInCart ? 'Update Cart' : 'Add to Cart'}
+          </button>
           <button
             type="button"
             className="btn btn-primary"
@@ -337,7 +330,7 @@ export default function FundingWidget({
             {isSubmitting ? (
               <>
                 <span className="spinner"></span>
-                Processing...
+                {status === 'submitted' ? 'Confirming...' : 'Processing...'}
               </>
             ) : (
               <>💰 Fund {amount ? `${amount} SUI` : 'Project'}</>
@@ -5,14 +5,11 @@
  * Integrates with Walrus for poll data and on-chain voting
  */
 
-import { useState, useEffect, useCallback } from 'react';
-import { useCurrentAccount, useSuiClient } from '@mysten/dapp-kit';
-import { useExecuteTransaction } from '../hooks/useSuiProvider';
-import { PACKAGE_ID, OBJECT_TYPES } from '../config/constants';
-import { fetchJson } from '../utils/walrusClient';
-import { createPollData } from '../utils/walrusSchemas';
-import type { Project, Poll } from '../types/contract';
-import type { PollData } from '../types/walrus';
+import { useState } from 'react';
+import { useCurrentAccount } from '@mysten/dapp-kit';
+import { useProjectPolls } from '../hooks/useProjectTabs';
+import { useMyContributions } from '../hooks/useMyContributions';
+import type { Project } from '../types/contract';
 import PollCard from './PollCard';
 import CreatePollModal from './CreatePollModal';
 import './GovernanceTab.css';
@@ -24,15 +21,16 @@ interface GovernanceTabProps {
 
 export default function GovernanceTab({ project, onSuccess }: GovernanceTabProps) {
   const account = useCurrentAccount();
-  const client = useSuiClient();
-  const { executeTransaction } = useExecuteTransaction();
+
+  // Polls are cached per project; voting rights come from the account's receipts
+  const pollsQuery = useProjectPolls(project);
+  const contributionsQuery = useMyContributions(project.id.id);
+  const { polls, pollData, tallies: pollTallies } = pollsQuery.data ?? { polls: [], pollData: {}, tallies: {} };
+  const userContributions = contributionsQuery.data?.contributions ?? [];
+  const isLoading = pollsQuery.isLoading;
+  const error = pollsQuery.isError ? 'Failed to load polls' : null;
 
   // State
-  const [polls, setPolls] = useState<Poll[]>([]);
-  const [pollData, setPollData] = useState<Record<string, PollData>>({});
-  const [userContributions, setUserContributions] = useState<any[]>([]);
-  const [isLoading, setIsLoading] = useState(false);
-  const [error, setError] = useState<string | null>(null);
   const [isCreatePollModalOpen, setIsCreatePollModalOpen] = useState(false);
 
   // Check if user is project owner
@@ -41,165 +39,17 @@ export default function GovernanceTab({ project, onSuccess }: GovernanceTabProps
   // Check if user is a backer (has contributions)
   const isBacker = userContributions.length > 0;
 
-  // Fetch polls from the project
-  const fetchPolls = async () => {
-    if (!project.id.id) return;
-
-    setIsLoading(true);
-    setError(null);
-
-    try {
-      console.log('🗳️ Fetching polls for project:', project.id.id);
-
-      // Get the project object to access the polls table
-      const projectObj = await client.getObject({
-        id: project.id.id,
-        options: {
-          showContent: true,
-          showType: true,
-        },
-      });
-
-      if (!projectObj.data?.content || !('fields' in projectObj.data.content)) {
-        throw new Error('Project not found');
-      }
-
-      const fields = projectObj.data.content.fields as any;
-      const pollsTable = fields.polls;
-
-      if (!pollsTable || !pollsTable.fields?.contents) {
-        console.log('No polls found in project');
-        setPolls([]);
-        return;
-      }
-
-      // Extract polls from the table
-      const pollsList: Poll[] = [];
-      const contents = pollsTable.fields.contents;
-
-      for (const [key, value] of Object.entries(contents)) {
-        if (value && typeof value === 'object' && 'fields' in value) {
-          const pollFields = (value as any).fields;
-          
-          pollsList.push({
-            id: { id: key },
-            question: pollFields.question || 'Untitled Poll',
-            options: pollFields.options || [],
-            votes: pollFields.votes || {},
-            voters: pollFields.voters || {},
-          });
-        }
-      }
-
-      console.log('📊 Found polls:', pollsList.length);
-      setPolls(pollsList);
-
-      // Fetch poll data from Walrus
-      await fetchPollData(pollsList);
-
-    } catch (error) {
-      console.error('❌ Error fetching polls:', error);
-      setError('Failed to load polls');
-    } finally {
-      setIsLoading(false);
-    }
-  };
-
-  // Fetch poll data from Walrus
-  const fetchPollData = async (pollsList: Poll[]) => {
-    const data: Record<string, PollData> = {};
-
-    for (const poll of pollsList) {
-      try {
-        // For now, we'll create a basic PollData from the on-chain data
-        // In a real implementation, you might store additional metadata on Walrus
-        const pollData: PollData = {
-          question: poll.question,
-          description: `Poll created for project governance`,
-          options: poll.options,
-          allowMultipleVotes: false,
-          isActive: true,
-          expiresAt: undefined, // No expiration for now
-          version: '1.0.0',
-          createdAt: Date.now(),
-        };
-        
-        data[poll.id.id] = pollData;
-      } catch (error) {
-        console.warn('Failed to process poll data:', poll.id.id, error);
-      }
-    }
-
-    setPollData(data);
-  };
-
-  // Fetch user's contributions to determine if they can vote
-  const fetchUserContributions = useCallback(async () => {
-    if (!account || !project.id.id) {
-      setUserContributions([]);
-      return;
-    }
-
-    try {
-      console.log('🔍 Fetching user contributions for voting rights...');
-
-      // Query for ContributionMade events by this user for this project
-      const { data: events } = await client.queryEvents({
-        query: {
-          MoveEventType: `${PACKAGE_ID}::foundry::ContributionMade`,
-        },
-        order: 'descending',
-        limit: 100,
-      });
-
-      const contributions: any[] = [];
-
-      for (const event of events) {
-        if (event.parsedJson) {
-          const eventData = event.parsedJson as any;
-          // Filter events for the current project and the connected user
-          if (eventData.project_id === project.id.id && eventData.backer === account.address) {
-            // Fetch the actual Contribution object to ensure it still exists
-            const contributionObject = await client.getObject({
-              id: eventData.contribution_id,
-              options: { showContent: true, showType: true },
-            });
-
-            if (contributionObject.data?.content && 'fields' in contributionObject.data.content) {
-              contributions.push(contributionObject.data.content.fields);
-            }
-          }
-        }
-      }
-
-      console.log('✅ Found user contributions:', contributions.length);
-      setUserContributions(contributions);
-
-    } catch (error) {
-      console.error('❌ Error fetching user contributions:', error);
-      setUserContributions([]);
-    }
-  }, [account, client, project.id.id]);
-
-  // Load polls and contributions on mount
-  useEffect(() => {
-    fetchPolls();
-    fetchUserContributions();
-  }, [project.id.id, fetchUserContributions]);
-
-  // Handle poll creation success
+  // Handle poll creation success (the polls query is invalidated by the mutation)
   const handlePollCreated = () => {
-    console.log('✅ Poll created successfully, refreshing...');
-    fetchPolls();
+    console.log('✅ Poll created successfully');
     if (onSuccess) {
       onSuccess();
     }
   };
 
-  // Handle vote success
+  // Handle vote success (the tally was already updated optimistically)
   const handleVoteSuccess = () => {
-    console.log('✅ Vote cast successfully, refreshing...');
-    fetchPolls();
+    console.log('✅ Vote cast successfully');
     if (onSuccess) {
       onSuccess();
     }
@@ -207,8 +57,8 @@ export default function GovernanceTab({ project, onSuccess }: GovernanceTabProps
 
   // Handle retry
   const handleRetry = () => {
-    fetchPolls();
-    fetchUserContributions();
+    pollsQuery.refetch();
+    contributionsQuery.refetch();
   };
 
   return (
@@ -299,9 +149,12 @@ export default function GovernanceTab({ project, onSuccess }: GovernanceTabProps
                 return (
                   <PollCard
                     key={poll.id.id}
+                    projectId={project.id.id}
                     poll={poll}
                     pollData={data}
+                    tally={pollTallies[poll.id.id]}
                     canVote={isBacker}
+                    contribution={userContributions[0]}
                     onVoteSuccess={handleVoteSuccess}
                   />
                 );
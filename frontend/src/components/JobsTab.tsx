@@ -5,12 +5,9 @@
  * Integrates with Walrus for job descriptions and on-chain job storage
  */
 
-import { useState, useEffect } from 'react';
-import { useCurrentAccount, useSuiClient } from '@mysten/dapp-kit';
-import { useExecuteTransaction } from '../hooks/useSuiProvider';
-import { PACKAGE_ID } from '../config/constants';
-import { fetchJson } from '../utils/walrusClient';
-import { createJobDescription } from '../utils/walrusSchemas';
+import { useState } from 'react';
+import { useCurrentAccount } from '@mysten/dapp-kit';
+import { useProjectJobs } from '../hooks/useProjectTabs';
 import type { Project, Job } from '../types/contract';
 import type { JobDescription } from '../types/walrus';
 import PostJobModal from './PostJobModal';
@@ -23,123 +20,22 @@ interface JobsTabProps {
 
 export default function JobsTab({ project, onSuccess }: JobsTabProps) {
   const account = useCurrentAccount();
-  const client = useSuiClient();
-  const { executeTransaction } = useExecuteTransaction();
+
+  // Jobs are cached per project (see useProjectTabs)
+  const jobsQuery = useProjectJobs(project);
+  const { jobs, descriptions: jobDescriptions } = jobsQuery.data ?? { jobs: [], descriptions: {} };
+  const isLoading = jobsQuery.isLoading;
+  const error = jobsQuery.isError ? 'Failed to load jobs' : null;
 
   // State
-  const [jobs, setJobs] = useState<Job[]>([]);
-  const [jobDescriptions, setJobDescriptions] = useState<Record<string, JobDescription>>({});
-  const [isLoading, setIsLoading] = useState(false);
-  const [error, setError] = useState<string | null>(null);
   const [isPostJobModalOpen, setIsPostJobModalOpen] = useState(false);
 
   // Check if user is project owner
   const isOwner = account && project.owner === account.address;
 
-  // Fetch jobs from the project
-  const fetchJobs = async () => {
-    if (!project.id.id) return;
-
-    setIsLoading(true);
-    setError(null);
-
-    try {
-      console.log('🔍 Fetching jobs for project:', project.id.id);
-
-      // Get the project object to access the jobs table
-      const projectObj = await client.getObject({
-        id: project.id.id,
-        options: {
-          showContent: true,
-          showType: true,
-        },
-      });
-
-      if (!projectObj.data?.content || !('fields' in projectObj.data.content)) {
-        throw new Error('Project not found');
-      }
-
-      const fields = projectObj.data.content.fields as any;
-      const jobsTable = fields.jobs;
-
-      if (!jobsTable || !jobsTable.fields?.contents) {
-        console.log('No jobs found in project');
-        setJobs([]);
-        return;
-      }
-
-      // Extract jobs from the table
-      const jobsList: Job[] = [];
-      const contents = jobsTable.fields.contents;
-
-      for (const [key, value] of Object.entries(contents)) {
-        if (value && typeof value === 'object' && 'fields' in value) {
-          const jobFields = (value as any).fields;
-          
-          jobsList.push({
-            id: key,
-            title: jobFields.title || 'Untitled Job',
-            description_cid: jobFields.description_cid || '',
-          });
-        }
-      }
-
-      console.log('📋 Found jobs:', jobsList.length);
-      setJobs(jobsList);
-
-      // Fetch job descriptions from Walrus
-      await fetchJobDescriptions(jobsList);
-
-    } catch (error) {
-      console.error('❌ Error fetching jobs:', error);
-      setError('Failed to load jobs');
-    } finally {
-      setIsLoading(false);
-    }
-  };
-
-  // Fetch job descriptions from Walrus
-  const fetchJobDescriptions = async (jobsList: Job[]) => {
-    const descriptions: Record<string, JobDescription> = {};
-
-    for (const job of jobsList) {
-      if (job.description_cid) {
-        try {
-          console.log('📥 Fetching job description:', job.description_cid);
-          const description = await fetchJson<JobDescription>(job.description_cid);
-          descriptions[job.id] = description;
-        } catch (error) {
-          console.warn('Failed to fetch job description:', job.description_cid, error);
-          // Create a fallback description
-          descriptions[job.id] = {
-            title: job.title,
-            description: 'Description not available',
-            responsibilities: [],
-            requirements: { skills: [], experience: 'Not specified' },
-            compensation: { type: 'negotiable' },
-            duration: 'Not specified',
-            workType: 'remote',
-            experienceLevel: 'any',
-            applicationInstructions: 'Contact project owner',
-            version: '1.0.0',
-            createdAt: Date.now(),
-          };
-        }
-      }
-    }
-
-    setJobDescriptions(descriptions);
-  };
-
-  // Load jobs on mount
-  useEffect(() => {
-    fetchJobs();
-  }, [project.id.id]);
-
-  // Handle job posting success
+  // Handle job posting success (the new job is listed optimistically)
   const handleJobPosted = () => {
-    console.log('✅ Job posted successfully, refreshing...');
-    fetchJobs();
+    console.log('✅ Job posted successfully');
     if (onSuccess) {
       onSuccess();
     }
@@ -147,7 +43,7 @@ export default function JobsTab({ project, onSuccess }: JobsTabProps) {
 
   // Handle retry
   const handleRetry = () => {
-    fetchJobs();
+    jobsQuery.refetch();
   };
 
   return (
@@ -216,11 +112,11 @@ export default function JobsTab({ project, onSuccess }: JobsTabProps) {
           ) : (
             <div className="jobs-list">
               {jobs.map((job) => {
-                const description = jobDescriptions[job.id];
+                const description = jobDescriptions[job.id.toString()];
                 
                 return (
                   <JobCard
-                    key={job.id}
+                    key={job.id.toString()}
                     job={job}
                     description={description}
                     isOwner={isOwner}
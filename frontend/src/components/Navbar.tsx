@@ -1,14 +1,18 @@
 import { Link, useLocation } from 'react-router-dom';
+import { useCurrentAccount } from '@mysten/dapp-kit';
 import WalletConnectButton from './WalletConnectButton';
+import NetworkSwitcher from './NetworkSwitcher';
+import WalrusStatus from './WalrusStatus';
 import './Navbar.css';
 
 /**
  * Navbar - Global navigation bar component
  * 
- * Provides navigation links and wallet connection functionality
+ * Provides navigation links, network selection, storage status and wallet connection functionality
  */
 export default function Navbar() {
   const location = useLocation();
+  const account = useCurrentAccount();
 
   const isActive = (path: string) => {
     return location.pathname === path ? 'active' : '';
@@ -31,9 +35,21 @@ export default function Navbar() {
           <Link to="/create-project" className={`navbar-link ${isActive('/create-project')}`}>
             Create Project
           </Link>
+          {account && (
+            <>
+              <Link to="/dashboard" className={`navbar-link ${isActive('/dashboard')}`}>
+                Dashboard
+              </Link>
+              <Link to="/me" className={`navbar-link ${isActive('/me')}`}>
+                My Portfolio
+              </Link>
+            </>
+          )}
         </div>
 
         <div className="navbar-wallet">
+          <NetworkSwitcher />
+          <WalrusStatus />
           <WalletConnectButton />
         </div>
       </div>
@@ -0,0 +1,32 @@
+import { SUI_NETWORKS } from '../config/sui';
+import type { SuiNetwork } from '../config/sui';
+import { useNetwork } from '../hooks/useNetwork';
+import './NetworkSwitcher.css';
+
+/**
+ * NetworkSwitcher - Runtime Sui network selector
+ * 
+ * Switches the RPC client, the signing chain and the package ID used
+ * throughout the app. Networks without a deployed package are marked.
+ */
+export default function NetworkSwitcher() {
+  const { network, selectNetwork, isDeployed } = useNetwork();
+
+  return (
+    <label className={`network-switcher network-${network}`}>
+      <span className="network-dot" aria-hidden="true"></span>
+      <select
+        value={network}
+        onChange={(e) => selectNetwork(e.target.value as SuiNetwork)}
+        aria-label="Sui network"
+      >
+        {SUI_NETWORKS.map((name) => (
+          <option key={name} value={name}>
+            {name.charAt(0).toUpperCase() + name.slice(1)}
+            {isDeployed(name) ? '' : ' (not deployed)'}
+          </option>
+        ))}
+      </select>
+    </label>
+  );
+}
@@ -0,0 +1,94 @@
+import { useNotifications } from '../hooks/useNotifications';
+import type { Notification } from '../utils/notifications';
+import './NotificationCenter.css';
+
+// Older notifications wait in the queue beyond this
+const MAX_VISIBLE = 4;
+
+const ICONS: Record<Notification['kind'], string> = {
+  success: '✅',
+  error: '❌',
+  info: 'ℹ️',
+};
+
+/**
+ * NotificationCenter - Toast stack for transaction and storage outcomes
+ * 
+ * Mounted once in App, outside the routes, so notifications persist while
+ * the user navigates. Shows the newest notifications first; the rest stay
+ * queued until earlier ones are dismissed or expire.
+ */
+export default function NotificationCenter() {
+  const { notifications, dismiss, clear } = useNotifications();
+
+  if (notifications.length === 0) return null;
+
+  const visible = notifications.slice(-MAX_VISIBLE).reverse();
+  const queued = notifications.length - visible.length;
+
+  return (
+    <div className="notification-center" role="region" aria-label="Notifications">
+      {visible.map((notification) => (
+        <div
+          key={notification.id}
+          className={`notification notification-${notification.kind}`}
+          role={notification.kind === 'error' ? 'alert' : 'status'}
+        >
+          <span className="notification-icon">{ICONS[notification.kind]}</span>
+
+          <div className="notification-body">
+            <div className="notification-title">{notification.title}</div>
+            {notification.message && (
+              <div className="notification-message">{notification.message}</div>
+            )}
+
+            {(notification.explorerUrl || notification.action) && (
+              <div className="notification-actions">
+                {notification.explorerUrl && (
+                  <a
+                    href={notification.explorerUrl}
+                    target="_blank"
+                    rel="noopener noreferrer"
+                    className="notification-link"
+                  >
+                    View transaction ↗
+                  </a>
+                )}
+                {notification.action && (
+                  <button
+                    type="button"
+                    className="notification-action"
+                    onClick={() => {
+                      dismiss(notification.id);
+                      notification.action?.onClick();
+                    }}
+                  >
+                    {notification.action.label}
+                  </button>
+                )}
+              </div>
+            )}
+          </div>
+
+          <button
+            type="button"
+            className="notification-close"
+            onClick={() => dismiss(notification.id)}
+            aria-label="Dismiss notification"
+          >
+            ✕
+          </button>
+        </div>
+      ))}
+
+      {queued > 0 && (
+        <div className="notification-queue">
+          <span>+{queued} more</span>
+          <button type="button" className="notification-clear" onClick={clear}>
+            Clear all
+          </button>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -6,67 +6,47 @@
  */
 
 import { useState, useEffect } from 'react';
-import { Transaction } from '@mysten/sui/transactions';
 import { useCurrentAccount } from '@mysten/dapp-kit';
-import { useExecuteTransaction } from '../hooks/useSuiProvider';
-import { PACKAGE_ID, OBJECT_TYPES } from '../config/constants';
-import type { Poll } from '../types/contract';
+import { useVoteOnPoll } from '../hooks/useFoundryMutations';
+import { getErrorMessage } from '../utils/moveErrors';
+import type { Poll, PollTally, Contribution } from '../types/contract';
 import type { PollData } from '../types/walrus';
 import './PollCard.css';
 
 interface PollCardProps {
+  projectId: string;
   poll: Poll;
+  tally?: PollTally;
   pollData?: PollData;
   canVote: boolean;
+  // Contribution receipt that proves the voter backed the project
+  contribution?: Contribution;
   onVoteSuccess?: () => void;
 }
 
-const CLOCK_OBJECT_ID = '0x0000000000000000000000000000000000000000000000000000000000000006';
-
-export default function PollCard({ poll, pollData, canVote, onVoteSuccess }: PollCardProps) {
+export default function PollCard({ projectId, poll, tally, pollData, canVote, contribution, onVoteSuccess }: PollCardProps) {
   const account = useCurrentAccount();
-  const { executeTransaction } = useExecuteTransaction();
+  const voteOnPoll = useVoteOnPoll(projectId);
 
   // State
   const [selectedOption, setSelectedOption] = useState<number | null>(null);
   const [isVoting, setIsVoting] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [hasVoted, setHasVoted] = useState(false);
-  const [userContributions, setUserContributions] = useState<any[]>([]);
 
-  // Calculate vote statistics
-  const totalVotes = Object.values(poll.votes).reduce((sum, count) => sum + count, 0);
-  const votePercentages = poll.options.map((_, index) => {
-    const votes = poll.votes[index] || 0;
-    return totalVotes > 0 ? (votes / totalVotes) * 100 : 0;
-  });
+  // Calculate vote statistics from the on-chain tally
+  const optionVotes = poll.options.map((_, index) => Number(tally?.votes[index] ?? 0n));
+  const totalVotes = optionVotes.reduce((sum, count) => sum + count, 0);
+  const votePercentages = optionVotes.map((votes) =>
+    totalVotes > 0 ? (votes / totalVotes) * 100 : 0
+  );
 
   // Check if user has already voted
   useEffect(() => {
-    if (account && poll.voters) {
-      const userHasVoted = poll.voters[account.address] === true;
-      setHasVoted(userHasVoted);
+    if (account && tally) {
+      setHasVoted(tally.has_voted);
     }
-  }, [account, poll.voters]);
-
-  // Fetch user's contributions for voting
-  useEffect(() => {
-    const fetchUserContributions = async () => {
-      if (!account) return;
-
-      try {
-        // Query for ContributionMade events by this user
-        const { data: events } = await fetch(`${PACKAGE_ID}/events/ContributionMade?limit=100`);
-        // This is a simplified approach - in a real app, you'd use the Sui client
-        // For now, we'll assume the user has contributions if they can vote
-        setUserContributions([{ id: 'placeholder' }]);
-      } catch (error) {
-        console.error('Error fetching contributions:', error);
-      }
-    };
-
-    fetchUserContributions();
-  }, [account]);
+  }, [account, tally]);
 
   // Handle vote submission
   const handleVote = async () => {
@@ -74,7 +54,7 @@ export default function PollCard({ poll, pollData, canVote, onVoteSuccess }: Pol
       return;
     }
 
-    if (userContributions.length === 0) {
+    if (!contribution) {
       setError('You need to contribute to this project to vote');
       return;
     }
@@ -85,45 +65,24 @@ export default function PollCard({ poll, pollData, canVote, onVoteSuccess }: Pol
     try {
       console.log('🗳️ Casting vote for option:', selectedOption);
 
-      const tx = new Transaction();
-
-      // Reference the shared Clock object
-      const clock = tx.sharedObjectRef({
-        objectId: CLOCK_OBJECT_ID,
-        initialSharedVersion: 1,
-        mutable: false,
-      });
-
-      // Use the first contribution for voting
-      const contribution = userContributions[0];
-      
-      tx.moveCall({
-        target: `${PACKAGE_ID}::foundry::vote_on_poll`,
-        arguments: [
-          tx.object(poll.id.id),           // poll: &mut Poll
-          tx.object(contribution.id),      // contribution: &Contribution
-          tx.pure.u64(selectedOption),     // option_index: u64
-        ],
+      // The tally updates optimistically while the wallet is open
+      await voteOnPoll.mutateAsync({
+        pollObjectId: poll.id.id,
+        pollId: poll.poll_id,
+        contributionId: contribution.id.id,
+        optionIndex: selectedOption,
+        onRetry: handleVote,
       });
 
-      await executeTransaction(tx, {
-        successMessage: 'Vote cast successfully!',
-        errorMessage: 'Failed to cast vote',
-        onSuccess: () => {
-          console.log('✅ Vote cast successfully');
-          setHasVoted(true);
-          if (onVoteSuccess) {
-            onVoteSuccess();
-          }
-        },
-        onError: (err) => {
-          setError(err.message);
-        },
-      });
+      console.log('✅ Vote cast successfully');
+      setHasVoted(true);
+      if (onVoteSuccess) {
+        onVoteSuccess();
+      }
 
     } catch (error) {
       console.error('❌ Error casting vote:', error);
-      setError('Failed to cast vote. Please try again.');
+      setError(getErrorMessage(error));
     } finally {
       setIsVoting(false);
     }
@@ -160,7 +119,7 @@ export default function PollCard({ poll, pollData, canVote, onVoteSuccess }: Pol
       {/* Poll Options */}
       <div className="poll-options">
         {poll.options.map((option, index) => {
-          const votes = poll.votes[index] || 0;
+          const votes = optionVotes[index];
           const percentage = votePercentages[index];
           const isSelected = selectedOption === index;
           const isVoted = hasVoted;
@@ -6,11 +6,11 @@
  */
 
 import { useState } from 'react';
-import { Transaction } from '@mysten/sui/transactions';
 import { useCurrentAccount } from '@mysten/dapp-kit';
-import { useExecuteTransaction } from '../hooks/useSuiProvider';
-import { PACKAGE_ID } from '../config/constants';
-import { uploadJson } from '../utils/walrusClient';
+import { usePostJob } from '../hooks/useFoundryMutations';
+import { useWalrus } from '../hooks/useWalrus';
+import { getErrorMessage, isConfirmationPending } from '../utils/moveErrors';
+import { notifyUpload } from '../utils/notifications';
 import { createJobDescription } from '../utils/walrusSchemas';
 import type { Project } from '../types/contract';
 import type { JobDescription, WorkType, ExperienceLevel, CompensationType } from '../types/walrus';
@@ -30,7 +30,8 @@ export default function PostJobModal({
   onSuccess 
 }: PostJobModalProps) {
   const account = useCurrentAccount();
-  const { executeTransaction } = useExecuteTransaction();
+  const postJob = usePostJob(project);
+  const walrus = useWalrus();
 
   // Form state
   const [formData, setFormData] = useState({
@@ -104,9 +105,13 @@ export default function PostJobModal({
     return true;
   };
 
-  // Handle form submission
-  const handleSubmit = async (e: React.FormEvent) => {
-    e.preventDefault();
+  // Handle form submission; a retried transaction passes the description
+  // it already uploaded, so only the transaction runs again
+  const handleSubmit = async (
+    e?: React.FormEvent,
+    uploaded?: { descriptionCid: string; jobDescription: JobDescription }
+  ) => {
+    e?.preventDefault();
     
     if (!validateForm()) return;
     if (!account) return;
@@ -115,113 +120,100 @@ export default function PostJobModal({
     setError(null);
 
     try {
-      // Step 1: Create job description
-      setCurrentStep('Creating job description...');
-      console.log('📝 Creating job description...');
-
-      const jobDescription = createJobDescription({
-        title: formData.title,
-        description: formData.description,
-        responsibilities: formData.responsibilities.split(',').map(r => r.trim()).filter(r => r),
-        requirements: {
-          skills: formData.skills.split(',').map(s => s.trim()).filter(s => s),
-          experience: formData.experience || 'Not specified',
-          education: formData.education || undefined,
-        },
-        compensation: {
-          type: formData.compensationType,
-          amount: formData.compensationAmount ? parseFloat(formData.compensationAmount) : undefined,
-          currency: formData.compensationCurrency,
-          description: formData.compensationDescription || undefined,
-        },
-        duration: formData.duration,
-        workType: formData.workType,
-        experienceLevel: formData.experienceLevel,
-        location: formData.location || undefined,
-        benefits: formData.benefits.split(',').map(b => b.trim()).filter(b => b),
-        applicationInstructions: formData.applicationInstructions,
-        contactEmail: formData.contactEmail || undefined,
-      });
-
-      console.log('✅ Job description created:', jobDescription);
-
-      // Step 2: Upload to Walrus
-      setCurrentStep('Uploading job description to Walrus...');
-      console.log('📤 Uploading to Walrus...');
-
-      const uploadResult = await uploadJson(jobDescription, { epochs: 5 });
-      const descriptionCid = uploadResult.cid;
-
-      console.log('✅ Uploaded to Walrus:', descriptionCid);
-
-      // Step 3: Build transaction
-      setCurrentStep('Building transaction...');
-      console.log('🔧 Building transaction...');
-
-      const tx = new Transaction();
-
-      tx.moveCall({
-        target: `${PACKAGE_ID}::foundry::post_job`,
-        arguments: [
-          tx.object(project.id.id),           // project: &mut Project
-          tx.pure.string(formData.title),     // title: String
-          tx.pure.string(descriptionCid),     // description_cid: String
-        ],
-      });
-
-      console.log('📦 Transaction built');
-
-      // Step 4: Execute transaction
+      let jobDescription: JobDescription;
+      let descriptionCid: string;
+
+      if (uploaded) {
+        ({ jobDescription, descriptionCid } = uploaded);
+      } else {
+        // Step 1: Create job description
+        setCurrentStep('Creating job description...');
+        console.log('📝 Creating job description...');
+
+        jobDescription = createJobDescription({
+          title: formData.title,
+          description: formData.description,
+          responsibilities: formData.responsibilities.split(',').map(r => r.trim()).filter(r => r),
+          requirements: {
+            skills: formData.skills.split(',').map(s => s.trim()).filter(s => s),
+            experience: formData.experience || 'Not specified',
+            education: formData.education || undefined,
+          },
+          compensation: {
+            type: formData.compensationType,
+            amount: formData.compensationAmount ? parseFloat(formData.compensationAmount) : undefined,
+            currency: formData.compensationCurrency,
+            description: formData.compensationDescription || undefined,
+          },
+          duration: formData.duration,
+          workType: formData.workType,
+          experienceLevel: formData.experienceLevel,
+          location: formData.location || undefined,
+          benefits: formData.benefits.split(',').map(b => b.trim()).filter(b => b),
+          applicationInstructions: formData.applicationInstructions,
+          contactEmail: formData.contactEmail || undefined,
+        });
+
+        console.log('✅ Job description created:', jobDescription);
+
+        // Step 2: Upload to Walrus
+        setCurrentStep('Uploading job description to Walrus...');
+        console.log('📤 Uploading to Walrus...');
+
+        const uploadResult = await notifyUpload('Job description', walrus.uploadJson(jobDescription, { epochs: 5 }), () => handleSubmit());
+        descriptionCid = uploadResult.ref;
+
+        console.log('✅ Uploaded to Walrus:', descriptionCid);
+      }
+
+      // Step 3: Post the job on chain; it appears in the list right away
       setCurrentStep('Submitting transaction to Sui blockchain...');
       console.log('🚀 Executing transaction...');
 
-      const result = await executeTransaction(tx, {
-        successMessage: 'Job posted successfully!',
-        errorMessage: 'Failed to post job',
-        onSuccess: (digest) => {
-          console.log('✅ Job posted successfully:', digest);
-          setCurrentStep('Job posted successfully!');
-          
-          // Reset form and close modal
-          setFormData({
-            title: '',
-            description: '',
-            responsibilities: '',
-            experience: '',
-            education: '',
-            skills: '',
-            compensationType: 'negotiable',
-            compensationAmount: '',
-            compensationCurrency: 'SUI',
-            compensationDescription: '',
-            duration: 'Full-time',
-            workType: 'remote',
-            experienceLevel: 'any',
-            location: '',
-            benefits: '',
-            applicationInstructions: '',
-            contactEmail: '',
-          });
-          
-          setTimeout(() => {
-            onClose();
-            if (onSuccess) {
-              onSuccess();
-            }
-          }, 1000);
-        },
+      const outcome = await postJob.mutateAsync({
+        title: formData.title,
+        descriptionCid,
+        description: jobDescription,
+        onRetry: () => handleSubmit(undefined, { descriptionCid, jobDescription }),
       });
 
-      console.log('✅ Job posting complete:', result);
+      console.log('✅ Job posted successfully:', outcome.digest);
+      setCurrentStep('Job posted successfully!');
+      
+      // Reset form and close modal
+      setFormData({
+        title: '',
+        description: '',
+        responsibilities: '',
+        experience: '',
+        education: '',
+        skills: '',
+        compensationType: 'negotiable',
+        compensationAmount: '',
+        compensationCurrency: 'SUI',
+        compensationDescription: '',
+        duration: 'Full-time',
+        workType: 'remote',
+        experienceLevel: 'any',
+        location: '',
+        benefits: '',
+        applicationInstructions: '',
+        contactEmail: '',
+      });
+      
+      setTimeout(() => {
+        onClose();
+        if (onSuccess) {
+          onSuccess();
+        }
+      }, 1000);
 
     } catch (error) {
       console.error('❌ Error posting job:', error);
       
-      const errorMessage = error instanceof Error 
-        ? error.message 
-        : 'An unknown error occurred';
+      const errorMessage = getErrorMessage(error);
       
-      setError(`Failed to post job: ${errorMessage}`);
+      setError(isConfirmationPending(error) ? errorMessage : `Failed to post job: ${errorMessage}`);
       setCurrentStep('');
     } finally {
       setIsSubmitting(false);
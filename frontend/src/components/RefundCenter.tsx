@@ -0,0 +1,97 @@
+/**
+ * Refund Center Component
+ *
+ * Collects every expired, under-goal project the connected wallet holds
+ * Contribution receipts for, and reclaims all of them with one
+ * transaction calling reclaim_funds once per receipt.
+ */
+
+import { useState } from 'react';
+import { Link } from 'react-router-dom';
+import { useBatchReclaimFunds } from '../hooks/useFoundryMutations';
+import { useRefunds } from '../hooks/useMyContributions';
+import { useProjectsMetadata } from '../hooks/useProjects';
+import { getErrorMessage, isConfirmationPending } from '../utils/moveErrors';
+import { formatSui } from '../utils/suiAmount';
+import TransactionEstimate from './TransactionEstimate';
+import './RefundCenter.css';
+
+export default function RefundCenter() {
+  const { refunds, totalAmount, isLoading } = useRefunds();
+  const { metadataByCid } = useProjectsMetadata(refunds.map((refund) => refund.project));
+  const batchReclaim = useBatchReclaimFunds();
+  const [error, setError] = useState<string | null>(null);
+
+  const receiptCount = refunds.reduce((count, refund) => count + refund.contributions.length, 0);
+
+  const handleReclaimAll = async () => {
+    setError(null);
+
+    try {
+      console.log('🚀 Reclaiming refunds from projects:', refunds.length);
+
+      const outcome = await batchReclaim.mutateAsync({ refunds, onRetry: handleReclaimAll });
+
+      console.log('✅ Batch reclaim successful:', outcome.digest);
+    } catch (error) {
+      console.error('❌ Batch reclaim error:', error);
+      setError(isConfirmationPending(error) ? getErrorMessage(error) : `Failed to reclaim funds: ${getErrorMessage(error)}`);
+    }
+  };
+
+  // Nothing to refund (optimistic updates empty the list while signing)
+  if (isLoading || (refunds.length === 0 && !batchReclaim.isPending)) {
+    return null;
+  }
+
+  return (
+    <div className="refund-center">
+      <div className="refund-center-header">
+        <div>
+          <h2>💸 Refund Center</h2>
+          <p>
+            {refunds.length} campaign{refunds.length === 1 ? '' : 's'} you backed ended under
+            {refunds.length === 1 ? ' its' : ' their'} goal. Reclaim all {receiptCount} contribution
+            {receiptCount === 1 ? '' : 's'} in a single transaction.
+          </p>
+        </div>
+        <div className="refund-center-total">
+          <span className="refund-total-value">{formatSui(totalAmount)} SUI</span>
+          <span className="refund-total-label">Expected back</span>
+        </div>
+      </div>
+
+      <ul className="refund-list">
+        {refunds.map(({ project, contributions, amount }) => {
+          const projectId = project.id.id;
+          const name = metadataByCid[project.metadata_cid]?.name ?? `Project ${projectId.slice(0, 10)}...`;
+
+          return (
+            <li key={projectId} className="refund-row">
+              <Link to={`/project/${projectId}`}>{name}</Link>
+              <span className="refund-row-receipts">
+                {contributions.length} receipt{contributions.length === 1 ? '' : 's'}
+              </span>
+              <span className="refund-row-amount">{formatSui(amount)} SUI</span>
+            </li>
+          );
+        })}
+      </ul>
+
+      {/* Gas Estimate (while the wallet prompt is open) */}
+      {batchReclaim.isPending && (
+        <TransactionEstimate simulation={batchReclaim.simulation} isSimulating={batchReclaim.isSimulating} />
+      )}
+
+      {error && <p className="refund-center-error">{error}</p>}
+
+      <button
+        className="btn btn-primary"
+        onClick={handleReclaimAll}
+        disabled={batchReclaim.isPending || refunds.length === 0}
+      >
+        {batchReclaim.isPending ? 'Reclaiming...' : `Reclaim ${formatSui(totalAmount)} SUI`}
+      </button>
+    </div>
+  );
+}
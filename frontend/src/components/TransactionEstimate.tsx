@@ -0,0 +1,54 @@
+import { normalizeStructTag, SUI_TYPE_ARG } from '@mysten/sui/utils';
+import { formatSui } from '../utils/suiAmount';
+import type { TransactionSimulation } from '../utils/txSimulation';
+import './TransactionEstimate.css';
+
+interface TransactionEstimateProps {
+  simulation: TransactionSimulation | null;
+  isSimulating?: boolean;
+}
+
+const SUI_COIN_TYPE = normalizeStructTag(SUI_TYPE_ARG);
+
+/**
+ * TransactionEstimate - Gas and balance preview from a dry run
+ * 
+ * Shown next to a widget's submit button while the wallet prompt is open,
+ * so users see what the transaction will cost before they approve it.
+ */
+export default function TransactionEstimate({ simulation, isSimulating }: TransactionEstimateProps) {
+  if (isSimulating) {
+    return (
+      <div className="transaction-estimate">
+        <span className="spinner"></span>
+        Simulating transaction...
+      </div>
+    );
+  }
+
+  if (!simulation?.success || !simulation.gas) return null;
+
+  const suiChange = simulation.balanceChanges.find(
+    (change) => normalizeStructTag(change.coinType) === SUI_COIN_TYPE
+  );
+
+  return (
+    <div className="transaction-estimate">
+      <div className="estimate-row">
+        <span className="estimate-label">Estimated network fee</span>
+        <span className="estimate-value">
+          {formatSui(simulation.gas.total, { maximumFractionDigits: 6 })} SUI
+        </span>
+      </div>
+      {suiChange && (
+        <div className="estimate-row">
+          <span className="estimate-label">Your balance change</span>
+          <span className={`estimate-value ${suiChange.amount < 0n ? 'negative' : 'positive'}`}>
+            {suiChange.amount > 0n ? '+' : ''}
+            {formatSui(suiChange.amount, { maximumFractionDigits: 6 })} SUI
+          </span>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -1,4 +1,5 @@
 import { useCurrentAccount, useCurrentWallet } from '@mysten/dapp-kit';
+import { useExplorerUrl, useNetwork } from '../hooks/useNetwork';
 
 /**
  * WalletInfo - Display current wallet connection information
@@ -8,6 +9,10 @@ import { useCurrentAccount, useCurrentWallet } from '@mysten/dapp-kit';
 export default function WalletInfo() {
   const account = useCurrentAccount();
   const { currentWallet } = useCurrentWallet();
+  const { network } = useNetwork();
+  const explorer = useExplorerUrl();
+
+  const addressUrl = account ? explorer.address(account.address) : null;
 
   if (!account) {
     return (
@@ -26,12 +31,26 @@ export default function WalletInfo() {
           <span className="label">Wallet:</span>
           <span className="value">{currentWallet?.name || 'Unknown'}</span>
         </div>
+        <div className="detail-row">
+          <span className="label">Network:</span>
+          <span className="value">{network}</span>
+        </div>
         <div className="detail-row">
           <span className="label">Address:</span>
           <span className="value address">
             {account.address.slice(0, 8)}...{account.address.slice(-6)}
           </span>
         </div>
+        {addressUrl && (
+          <a
+            className="explorer-link"
+            href={addressUrl}
+            target="_blank"
+            rel="noopener noreferrer"
+          >
+            View on explorer ↗
+          </a>
+        )}
       </div>
     </div>
   );
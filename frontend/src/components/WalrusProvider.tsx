@@ -0,0 +1,39 @@
+import { useMemo } from 'react';
+import type { ReactNode } from 'react';
+import { useNetworkVariable } from '../config/sui';
+import type { WalrusEndpoints } from '../config/walrus';
+import { WalrusContext } from '../hooks/useWalrus';
+import { WalrusClient } from '../utils/walrusClient';
+import type { WalrusClientOptions } from '../utils/walrusClient';
+
+export type WalrusProviderOptions = Omit<WalrusClientOptions, 'endpoints'> & {
+  // Replaces the network's publishers or aggregators
+  endpoints?: Partial<WalrusEndpoints>;
+};
+
+interface WalrusProviderProps {
+  children: ReactNode;
+  // Keep the object stable (e.g. a module constant): the client is
+  // recreated whenever it changes
+  options?: WalrusProviderOptions;
+}
+
+/**
+ * WalrusProvider - Shares one Walrus client with the whole app
+ * 
+ * Mounted inside SuiClientProvider: the client is rebuilt with the
+ * endpoints of the `walrus` network variable when the network changes.
+ */
+export default function WalrusProvider({ children, options }: WalrusProviderProps) {
+  const networkEndpoints = useNetworkVariable('walrus');
+
+  const client = useMemo(
+    () => new WalrusClient({
+      ...options,
+      endpoints: { ...networkEndpoints, ...options?.endpoints },
+    }),
+    [networkEndpoints, options]
+  );
+
+  return <WalrusContext.Provider value={client}>{children}</WalrusContext.Provider>;
+}
@@ -0,0 +1,40 @@
+import { useWalrusHealth } from '../hooks/useWalrusHealth';
+import type { WalrusServiceHealth } from '../types/walrus';
+import './WalrusStatus.css';
+
+const describe = (label: string, service: WalrusServiceHealth) =>
+  `${label}: ${service.status}${service.responseTime !== undefined ? ` (${service.responseTime}ms)` : ''}`;
+
+/**
+ * WalrusStatus - Health indicator for Walrus storage
+ * 
+ * Shows whether the active network's aggregators (reads) and publishers
+ * (uploads) respond; the tooltip lists every endpoint.
+ */
+export default function WalrusStatus() {
+  const { health, check } = useWalrusHealth();
+
+  // Degraded when reads work but uploads do not
+  const status = health.aggregator.status === 'healthy' && health.publisher.status !== 'healthy'
+    ? 'degraded'
+    : health.aggregator.status;
+
+  const title = [
+    describe('Reads', health.aggregator),
+    describe('Uploads', health.publisher),
+    '',
+    ...health.endpoints.map((endpoint) => `${endpoint.kind} ${endpoint.url}: ${endpoint.status}`),
+  ].join('\n');
+
+  return (
+    <button
+      className={`walrus-status walrus-status-${status}`}
+      onClick={() => check()}
+      title={title}
+      aria-label={`Walrus storage ${status}, check again`}
+    >
+      <span className="walrus-status-dot" aria-hidden="true"></span>
+      Walrus
+    </button>
+  );
+}
@@ -1,5 +1,6 @@
 export { default as Navbar } from './Navbar';
 export { default as WalletConnectButton } from './WalletConnectButton';
+export { default as NetworkSwitcher } from './NetworkSwitcher';
 export { default as WalletInfo } from './WalletInfo';
 export { default as ProjectCard } from './ProjectCard';
 export { default as FundingWidget } from './FundingWidget';
@@ -12,4 +13,9 @@ export { default as CreatePollModal } from './CreatePollModal';
 export { default as FeedbackTab } from './FeedbackTab';
 export { default as FeedbackForm } from './FeedbackForm';
 export { default as FeedbackList } from './FeedbackList';
-
+export { default as TransactionEstimate } from './TransactionEstimate';
+export { default as NotificationCenter } from './NotificationCenter';
+export { default as RefundCenter } from './RefundCenter';
+export { default as FundingCart } from './FundingCart';
+export { default as WalrusProvider } from './WalrusProvider';
+export { default as WalrusStatus } from './WalrusStatus';
@@ -0,0 +1,215 @@
+/**
+ * Deployment Manifest
+ *
+ * Package IDs and struct type tags of the Foundry Move package, per network.
+ * The manifest is `public/deployments.json`, written by `foundry/deploy.sh`
+ * on every publish or upgrade, and fetched once when the app starts so a
+ * new deployment does not require rebuilding the frontend.
+ *
+ * After an upgrade, functions are called on the latest package ID while
+ * struct and event types keep the ID of the package that first defined
+ * them (`originalPackageId`).
+ */
+
+import type { SuiNetwork } from './sui';
+
+// Structs whose type tags are recorded in the manifest
+export type FoundryStruct = 'Project' | 'Contribution' | 'Feedback';
+
+/**
+ * One published version of the package
+ */
+export interface PackageVersion {
+  version: number;
+  packageId: string;
+  digest?: string;
+  deployedAt?: string;
+}
+
+/**
+ * Deployment of the package on one network
+ */
+export interface NetworkDeployment {
+  packageId: string;
+  originalPackageId: string;
+  upgradeCapId: string | null;
+  types: Record<FoundryStruct, string>;
+  history: PackageVersion[];
+}
+
+export type DeploymentManifest = Partial<Record<SuiNetwork, NetworkDeployment>>;
+
+/**
+ * Everything the app needs to talk to the package on one network
+ */
+export interface FoundryPackage {
+  isDeployed: boolean;
+  packageId: string;
+  // Struct and event types keep the ID of the first published version
+  originalPackageId: string;
+  version: number;
+  functions: {
+    CREATE_PROJECT: string;
+    FUND_PROJECT: string;
+    CLAIM_FUNDS: string;
+    RECLAIM_FUNDS: string;
+    POST_JOB: string;
+    CREATE_POLL: string;
+    VOTE_ON_POLL: string;
+    SUBMIT_FEEDBACK: string;
+  };
+  types: {
+    PROJECT: string;
+    CONTRIBUTION: string;
+    FEEDBACK: string;
+  };
+  events: {
+    PROJECT_CREATED: string;
+    CONTRIBUTION_MADE: string;
+    FUNDS_WITHDRAWN: string;
+    REFUND_ISSUED: string;
+    JOB_POSTED: string;
+    POLL_CREATED: string;
+    VOTE_CAST: string;
+    FEEDBACK_SUBMITTED: string;
+  };
+}
+
+export const EMPTY_MANIFEST: DeploymentManifest = {};
+
+// Served from the `public/` directory
+const MANIFEST_URL = `${import.meta.env.BASE_URL}deployments.json`;
+
+const FOUNDRY_STRUCTS: FoundryStruct[] = ['Project', 'Contribution', 'Feedback'];
+
+const ID_PATTERN = /^0x[0-9a-fA-F]{1,64}$/;
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+/**
+ * Validates one network entry, returning the reason it is invalid or null
+ */
+const findDeploymentError = (entry: unknown): string | null => {
+  if (!isRecord(entry)) return 'entry is not an object';
+
+  if (typeof entry.packageId !== 'string' || !ID_PATTERN.test(entry.packageId)) {
+    return 'packageId is not an object ID';
+  }
+
+  if (typeof entry.originalPackageId !== 'string' || !ID_PATTERN.test(entry.originalPackageId)) {
+    return 'originalPackageId is not an object ID';
+  }
+
+  if (entry.upgradeCapId !== null && typeof entry.upgradeCapId !== 'string') {
+    return 'upgradeCapId must be a string or null';
+  }
+
+  if (!isRecord(entry.types)) return 'types is missing';
+
+  for (const struct of FOUNDRY_STRUCTS) {
+    const typeTag = entry.types[struct];
+    if (typeof typeTag !== 'string' || !typeTag.endsWith(`::foundry::${struct}`)) {
+      return `types.${struct} is not a foundry::${struct} type tag`;
+    }
+  }
+
+  if (!Array.isArray(entry.history) || entry.history.length === 0) {
+    return 'history must list at least one version';
+  }
+
+  const versionsValid = entry.history.every(
+    (version) => isRecord(version) && typeof version.version === 'number' && typeof version.packageId === 'string'
+  );
+  if (!versionsValid) return 'history entries need a version and a packageId';
+
+  return null;
+};
+
+/**
+ * Parses the manifest JSON, dropping (and logging) invalid network entries
+ */
+export function parseDeploymentManifest(data: unknown): DeploymentManifest {
+  if (!isRecord(data)) {
+    console.error('❌ Deployment manifest is not an object');
+    return EMPTY_MANIFEST;
+  }
+
+  const manifest: DeploymentManifest = {};
+
+  for (const [network, entry] of Object.entries(data)) {
+    const error = findDeploymentError(entry);
+    if (error) {
+      console.warn(`⚠️ Ignoring ${network} deployment: ${error}`);
+      continue;
+    }
+    manifest[network as SuiNetwork] = entry as unknown as NetworkDeployment;
+  }
+
+  return manifest;
+}
+
+/**
+ * Fetches and parses the deployment manifest
+ *
+ * Resolves to an empty manifest when it cannot be loaded, so the app can
+ * still render (every network then shows as not deployed).
+ */
+export async function loadDeploymentManifest(): Promise<DeploymentManifest> {
+  try {
+    const response = await fetch(MANIFEST_URL, { cache: 'no-cache' });
+    if (!response.ok) {
+      throw new Error(`HTTP ${response.status}`);
+    }
+    return parseDeploymentManifest(await response.json());
+  } catch (error) {
+    console.error('❌ Failed to load deployment manifest:', error);
+    return EMPTY_MANIFEST;
+  }
+}
+
+/**
+ * Builds function targets and type tags from a network deployment
+ *
+ * Without a deployment every ID is empty and `isDeployed` is false.
+ */
+export function buildFoundryPackage(deployment: NetworkDeployment | undefined): FoundryPackage {
+  const packageId = deployment?.packageId ?? '';
+  const originalPackageId = deployment?.originalPackageId ?? '';
+  const latestVersion = deployment?.history[deployment.history.length - 1];
+
+  const target = (fn: string) => `${packageId}::foundry::${fn}`;
+  const event = (name: string) => `${originalPackageId}::foundry::${name}`;
+
+  return {
+    isDeployed: !!deployment,
+    packageId,
+    originalPackageId,
+    version: latestVersion?.version ?? 0,
+    functions: {
+      CREATE_PROJECT: target('create_project'),
+      FUND_PROJECT: target('fund_project'),
+      CLAIM_FUNDS: target('claim_funds'),
+      RECLAIM_FUNDS: target('reclaim_funds'),
+      POST_JOB: target('post_job'),
+      CREATE_POLL: target('create_poll'),
+      VOTE_ON_POLL: target('vote_on_poll'),
+      SUBMIT_FEEDBACK: target('submit_feedback'),
+    },
+    types: {
+      PROJECT: deployment?.types.Project ?? '',
+      CONTRIBUTION: deployment?.types.Contribution ?? '',
+      FEEDBACK: deployment?.types.Feedback ?? '',
+    },
+    events: {
+      PROJECT_CREATED: event('ProjectCreated'),
+      CONTRIBUTION_MADE: event('ContributionMade'),
+      FUNDS_WITHDRAWN: event('FundsWithdrawn'),
+      REFUND_ISSUED: event('RefundIssued'),
+      JOB_POSTED: event('JobPosted'),
+      POLL_CREATED: event('PollCreated'),
+      VOTE_CAST: event('VoteCast'),
+      FEEDBACK_SUBMITTED: event('FeedbackSubmitted'),
+    },
+  };
+}
@@ -1,33 +1,98 @@
 /**
  * Sui Network Configuration
- * 
- * Configure the Sui network connection and wallet adapters for the dApp
+ *
+ * Configure the Sui network connection and wallet adapters for the dApp.
+ * Values that differ per network (the deployed package, explorer,
+ * indexer, Walrus endpoints) are exposed as network variables and read with useNetworkVariable.
  */
 
 import { getFullnodeUrl } from '@mysten/sui/client';
 import { createNetworkConfig } from '@mysten/dapp-kit';
+import { buildFoundryPackage, EMPTY_MANIFEST } from './deployments';
+import type { DeploymentManifest } from './deployments';
+import { getWalrusEndpoints } from './walrus';
 
-// Define the networks
-const { networkConfig, useNetworkVariable, useNetworkVariables } = createNetworkConfig({
-  testnet: {
-    url: getFullnodeUrl('testnet'),
-  },
-  mainnet: {
-    url: getFullnodeUrl('mainnet'),
-  },
-  devnet: {
-    url: getFullnodeUrl('devnet'),
-  },
-  localnet: {
-    url: 'http://localhost:9000',
-  },
-});
-
-// Get current network from environment or default to testnet
-export const getCurrentNetwork = () => {
-  const network = import.meta.env.VITE_SUI_NETWORK || 'testnet';
-  return network as 'testnet' | 'mainnet' | 'devnet' | 'localnet';
+export type SuiNetwork = 'testnet' | 'mainnet' | 'devnet' | 'localnet';
+
+export const SUI_NETWORKS: SuiNetwork[] = ['testnet', 'mainnet', 'devnet', 'localnet'];
+
+// localStorage key for the network picked in the Navbar switcher
+const NETWORK_STORAGE_KEY = 'foundry:network';
+
+const isSuiNetwork = (value: unknown): value is SuiNetwork =>
+  SUI_NETWORKS.includes(value as SuiNetwork);
+
+// Network the app was built for
+const ENV_NETWORK: SuiNetwork = isSuiNetwork(import.meta.env.VITE_SUI_NETWORK)
+  ? import.meta.env.VITE_SUI_NETWORK
+  : 'testnet';
+
+// Public explorer per network; no public explorer indexes a local network
+const EXPLORER_URLS: Record<SuiNetwork, string | null> = {
+  testnet: 'https://suiscan.xyz/testnet',
+  mainnet: 'https://suiscan.xyz/mainnet',
+  devnet: 'https://suiscan.xyz/devnet',
+  localnet: null,
+};
+
+// Off-chain indexer (see indexer/), which serves the build network only
+const INDEXER_URL: string | null = import.meta.env.VITE_INDEXER_URL || null;
+
+const FULLNODE_URLS: Record<SuiNetwork, string> = {
+  testnet: getFullnodeUrl('testnet'),
+  mainnet: getFullnodeUrl('mainnet'),
+  devnet: getFullnodeUrl('devnet'),
+  localnet: 'http://localhost:9000',
+};
+
+/**
+ * Builds the network configs, with the package from the deployment manifest
+ */
+export const createNetworks = (manifest: DeploymentManifest) => {
+  const network = (name: SuiNetwork) => ({
+    url: FULLNODE_URLS[name],
+    variables: {
+      foundry: buildFoundryPackage(manifest[name]),
+      explorerUrl: EXPLORER_URLS[name],
+      indexerUrl: name === ENV_NETWORK ? INDEXER_URL : null,
+      walrus: getWalrusEndpoints(name, name === ENV_NETWORK),
+    },
+  });
+
+  return {
+    testnet: network('testnet'),
+    mainnet: network('mainnet'),
+    devnet: network('devnet'),
+    localnet: network('localnet'),
+  };
+};
+
+// Define the networks; main.tsx passes the manifest-backed configs to the provider
+const { useNetworkVariable, useNetworkVariables } = createNetworkConfig(
+  createNetworks(EMPTY_MANIFEST)
+);
+
+// Get current network: the last one picked in the app, else the build network
+export const getCurrentNetwork = (): SuiNetwork => {
+  try {
+    const stored = localStorage.getItem(NETWORK_STORAGE_KEY);
+    if (isSuiNetwork(stored)) return stored;
+  } catch {
+    // localStorage can be unavailable (private mode, SSR)
+  }
+  return ENV_NETWORK;
+};
+
+// Remember the network picked in the app across reloads
+export const saveCurrentNetwork = (network: SuiNetwork) => {
+  try {
+    localStorage.setItem(NETWORK_STORAGE_KEY, network);
+  } catch {
+    // Ignore storage failures; the choice just won't persist
+  }
 };
 
-export { networkConfig, useNetworkVariable, useNetworkVariables };
+// Wallet Standard chain identifier for a network (e.g. "sui:mainnet")
+export const getChainId = (network: SuiNetwork) => `sui:${network}` as const;
 
+export { useNetworkVariable, useNetworkVariables };
@@ -0,0 +1,64 @@
+/**
+ * Walrus Endpoint Configuration
+ *
+ * Publishers (uploads) and aggregators (reads) of each Sui network, in
+ * order of preference; the client fails over down each list. They are
+ * exposed as the `walrus` network variable, so WalrusProvider switches
+ * endpoints with the network. VITE_WALRUS_PUBLISHER_URL and
+ * VITE_WALRUS_AGGREGATOR_URL (comma-separated lists) replace them on the
+ * build network, e.g. to use self-hosted publishers.
+ */
+
+import type { SuiNetwork } from './sui';
+
+export interface WalrusEndpoints {
+  // Empty where no public publisher is run (uploads then fail)
+  publisherUrls: string[];
+  aggregatorUrls: string[];
+}
+
+// Mysten's endpoints first, then community operators listed in the Walrus docs
+const TESTNET_ENDPOINTS: WalrusEndpoints = {
+  publisherUrls: [
+    'https://publisher.walrus-testnet.walrus.space',
+    'https://wal-publisher-testnet.staketab.org',
+  ],
+  aggregatorUrls: [
+    'https://aggregator.walrus-testnet.walrus.space',
+    'https://wal-aggregator-testnet.staketab.org',
+    'https://walrus-testnet-aggregator.nodes.guru',
+  ],
+};
+
+// Walrus has no devnet or local deployment; those networks use testnet storage
+export const WALRUS_ENDPOINTS: Record<SuiNetwork, WalrusEndpoints> = {
+  testnet: TESTNET_ENDPOINTS,
+  mainnet: {
+    publisherUrls: [],
+    aggregatorUrls: [
+      'https://aggregator.walrus-mainnet.walrus.space',
+      'https://wal-aggregator-mainnet.staketab.org',
+    ],
+  },
+  devnet: TESTNET_ENDPOINTS,
+  localnet: TESTNET_ENDPOINTS,
+};
+
+const parseUrlList = (value: string | undefined): string[] =>
+  (value ?? '').split(',').map((url) => url.trim()).filter(Boolean);
+
+/**
+ * Endpoints of a network, with the environment overrides on the build network
+ */
+export const getWalrusEndpoints = (network: SuiNetwork, isBuildNetwork: boolean): WalrusEndpoints => {
+  const endpoints = WALRUS_ENDPOINTS[network];
+  if (!isBuildNetwork) return endpoints;
+
+  const publisherUrls = parseUrlList(import.meta.env.VITE_WALRUS_PUBLISHER_URL);
+  const aggregatorUrls = parseUrlList(import.meta.env.VITE_WALRUS_AGGREGATOR_URL);
+
+  return {
+    publisherUrls: publisherUrls.length > 0 ? publisherUrls : endpoints.publisherUrls,
+    aggregatorUrls: aggregatorUrls.length > 0 ? aggregatorUrls : endpoints.aggregatorUrls,
+  };
+};
@@ -0,0 +1,33 @@
+/**
+ * Helpers to write project data into the React Query cache
+ *
+ * Shared by the optimistic mutations and the live event subscription.
+ */
+
+import type { InfiniteData, QueryClient } from '@tanstack/react-query';
+import type { Project } from '../types/contract';
+import { queryKeys } from './queryKeys';
+import type { ProjectsPage } from './useProjects';
+
+/**
+ * Applies an update to a project wherever it is cached: its own query
+ * and the pages of the all-projects and sorted project lists
+ */
+export const updateCachedProject = (
+  queryClient: QueryClient,
+  projectId: string,
+  update: (project: Project) => Project
+) => {
+  queryClient.setQueryData<Project>(queryKeys.project(projectId), (project) => project && update(project));
+
+  const updatePages = (data: InfiniteData<ProjectsPage> | undefined) => data && {
+    ...data,
+    pages: data.pages.map((page) => ({
+      ...page,
+      projects: page.projects.map((project) => (project.id.id === projectId ? update(project) : project)),
+    })),
+  };
+
+  queryClient.setQueryData<InfiniteData<ProjectsPage>>(queryKeys.allProjects, updatePages);
+  queryClient.setQueriesData<InfiniteData<ProjectsPage>>({ queryKey: queryKeys.sortedProjects }, updatePages);
+};
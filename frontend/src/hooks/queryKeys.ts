@@ -0,0 +1,29 @@
+/**
+ * React Query keys
+ *
+ * Every cached read of on-chain or Walrus data is keyed here, so that
+ * mutations can update or invalidate exactly the queries they affect.
+ * Per-project lists are nested under ['project', id] and are matched by
+ * `invalidateQueries({ queryKey: queryKeys.project(id) })` as well.
+ */
+
+export const queryKeys = {
+  allProjects: ['projects', 'all'] as const,
+  // Whole-list orders and status filters served by the indexer
+  sortedProjects: ['projects', 'sorted'] as const,
+  sortedProjectsBy: (sort: string, statuses: readonly string[]) =>
+    ['projects', 'sorted', sort, [...statuses].sort()] as const,
+  ownedProjects: (owner: string | undefined) => ['projects', 'owned', owner ?? null] as const,
+  project: (projectId: string | undefined) => ['project', projectId] as const,
+  projectMetadata: (metadataCid: string | undefined) => ['projectMetadata', metadataCid] as const,
+  walrusBlob: (cid: string | undefined) => ['walrusBlob', cid] as const,
+
+  // Per-tab lists of a project
+  jobs: (projectId: string) => ['project', projectId, 'jobs'] as const,
+  polls: (projectId: string, account: string | undefined) =>
+    ['project', projectId, 'polls', account ?? null] as const,
+  feedback: (projectId: string) => ['project', projectId, 'feedback'] as const,
+
+  // Contribution receipts owned by an account, across projects
+  contributions: (account: string | undefined) => ['contributions', account ?? null] as const,
+};
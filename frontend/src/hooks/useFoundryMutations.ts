@@ -0,0 +1,605 @@
+/**
+ * Custom hooks for foundry write operations
+ *
+ * Each entry function is wrapped in a React Query mutation that:
+ * - updates the cached project and tab data optimistically, as soon as
+ *   the transaction is sent for signing, so the funding bar, vote counts
+ *   and lists react instantly;
+ * - rolls the cache back if the transaction is rejected or aborts (but
+ *   not while its confirmation is pending);
+ * - invalidates only the affected queries once it is finalized, so the
+ *   optimistic data is reconciled with the chain.
+ *
+ * The hooks also expose the transaction lifecycle of useExecuteTransaction
+ * (simulation, status) for widgets that display it.
+ */
+
+import { useMutation, useQueryClient } from '@tanstack/react-query';
+import type { QueryClient, QueryKey } from '@tanstack/react-query';
+import { useCurrentAccount } from '@mysten/dapp-kit';
+import { Transaction } from '@mysten/sui/transactions';
+import { useNetworkVariable } from '../config/sui';
+import * as foundryTx from '../utils/foundryTx';
+import { isConfirmationPending } from '../utils/moveErrors';
+import { formatSui, sumMist } from '../utils/suiAmount';
+import type { Contribution, Feedback, Job, Project } from '../types/contract';
+import type { FeedbackMessage, JobDescription } from '../types/walrus';
+import { queryKeys } from './queryKeys';
+import { updateCachedProject } from './projectCache';
+import type { Refund } from './useMyContributions';
+import { useExecuteTransaction } from './useSuiProvider';
+import type { ProjectFeedback, ProjectJobs, ProjectPolls } from './useProjectTabs';
+
+/**
+ * Options shared by every mutation call
+ */
+interface TransactionVariables {
+  // Offered as a "Retry" action on the failure notification
+  onRetry?: () => void;
+}
+
+type QuerySnapshot = [QueryKey, unknown][];
+
+// One fund_project call of a multi-project transaction (amount in MIST)
+type FundingPayment = Parameters<typeof foundryTx.fundProjects>[2][number];
+
+interface MutationContext {
+  previous: QuerySnapshot;
+}
+
+// Cancel in-flight reads of the given queries and remember their data
+const snapshotQueries = async (queryClient: QueryClient, keys: QueryKey[]): Promise<QuerySnapshot> => {
+  await Promise.all(keys.map((queryKey) => queryClient.cancelQueries({ queryKey, exact: true })));
+  return keys.map((queryKey) => [queryKey, queryClient.getQueryData(queryKey)]);
+};
+
+const restoreQueries = (queryClient: QueryClient, snapshot: QuerySnapshot) => {
+  snapshot.forEach(([queryKey, data]) => queryClient.setQueryData(queryKey, data));
+};
+
+const invalidateQueries = (queryClient: QueryClient, keys: QueryKey[]) =>
+  Promise.all(keys.map((queryKey) => queryClient.invalidateQueries({ queryKey, exact: true })));
+
+// The sorted galleries (useSortedProjects) hold the same projects as the
+// all-projects list, under one key per order and status filter; they are
+// snapshotted and invalidated along with it, and refetched for their order
+const snapshotSortedProjects = async (queryClient: QueryClient): Promise<QuerySnapshot> => {
+  await queryClient.cancelQueries({ queryKey: queryKeys.sortedProjects });
+  return queryClient.getQueriesData({ queryKey: queryKeys.sortedProjects });
+};
+
+const invalidateSortedProjects = (queryClient: QueryClient) =>
+  queryClient.invalidateQueries({ queryKey: queryKeys.sortedProjects });
+
+// Shared rollback for every optimistic mutation; a transaction whose
+// confirmation is pending may still succeed, so its optimistic data is
+// kept until onSettled refetches it
+const rollbackOnError = (queryClient: QueryClient) =>
+  (error: Error, _variables: unknown, context: MutationContext | undefined) => {
+    if (context && !isConfirmationPending(error)) {
+      restoreQueries(queryClient, context.previous);
+    }
+  };
+
+/**
+ * create_project
+ */
+export const useCreateProject = () => {
+  const queryClient = useQueryClient();
+  const account = useCurrentAccount();
+  const foundry = useNetworkVariable('foundry');
+  const { executeTransaction, ...lifecycle } = useExecuteTransaction();
+
+  const mutation = useMutation({
+    mutationFn: ({ onRetry, ...args }: TransactionVariables & Parameters<typeof foundryTx.createProject>[2]) => {
+      const tx = new Transaction();
+      foundryTx.createProject(tx, foundry, args);
+
+      return executeTransaction(tx, {
+        successMessage: 'Project created successfully!',
+        errorMessage: 'Failed to create project',
+        onRetry,
+      });
+    },
+    // The new project has no ID until finalized, so only refetch the list
+    onSettled: () => Promise.all([
+      invalidateQueries(queryClient, [
+        queryKeys.allProjects,
+        queryKeys.ownedProjects(account?.address),
+      ]),
+      invalidateSortedProjects(queryClient),
+    ]),
+    retry: false,
+  });
+
+  return { ...mutation, ...lifecycle };
+};
+
+/**
+ * fund_project
+ */
+export const useFundProject = (project: Project) => {
+  const queryClient = useQueryClient();
+  const account = useCurrentAccount();
+  const foundry = useNetworkVariable('foundry');
+  const { executeTransaction, ...lifecycle } = useExecuteTransaction();
+  const projectId = project.id.id;
+
+  const mutation = useMutation({
+    mutationFn: ({ amount, onRetry }: TransactionVariables & { amount: bigint }) => {
+      const tx = new Transaction();
+      // Call fund_project with the exact amount split from gas
+      foundryTx.fundProject(tx, foundry, { projectId, payment: amount });
+
+      return executeTransaction(tx, {
+        successMessage: `Successfully funded with ${formatSui(amount)} SUI!`,
+        errorMessage: 'Failed to fund project',
+        onRetry,
+      });
+    },
+    onMutate: async ({ amount }): Promise<MutationContext> => {
+      const previous = [
+        ...(await snapshotQueries(queryClient, [queryKeys.project(projectId), queryKeys.allProjects])),
+        ...(await snapshotSortedProjects(queryClient)),
+      ];
+
+      updateCachedProject(queryClient, projectId, (cached) => ({
+        ...cached,
+        current_funding: cached.current_funding + amount,
+        balance: cached.balance + amount,
+      }));
+
+      return { previous };
+    },
+    onError: rollbackOnError(queryClient),
+    onSettled: () => Promise.all([
+      invalidateQueries(queryClient, [
+        queryKeys.project(projectId),
+        queryKeys.allProjects,
+        queryKeys.contributions(account?.address),
+      ]),
+      invalidateSortedProjects(queryClient),
+    ]),
+    retry: false,
+  });
+
+  return { ...mutation, ...lifecycle };
+};
+
+/**
+ * fund_project for every item of the funding cart, in a single transaction
+ */
+export const useFundProjects = () => {
+  const queryClient = useQueryClient();
+  const account = useCurrentAccount();
+  const foundry = useNetworkVariable('foundry');
+  const { executeTransaction, ...lifecycle } = useExecuteTransaction();
+
+  const projectKeys = (payments: FundingPayment[]) => payments.map((payment) => queryKeys.project(payment.projectId));
+
+  const mutation = useMutation({
+    mutationFn: ({ payments, onRetry }: TransactionVariables & { payments: FundingPayment[] }) => {
+      const tx = new Transaction();
+      foundryTx.fundProjects(tx, foundry, payments);
+
+      const total = sumMist(payments.map((payment) => payment.amount));
+
+      return executeTransaction(tx, {
+        successMessage: `Successfully funded ${payments.length} project(s) with ${formatSui(total)} SUI!`,
+        errorMessage: 'Failed to fund projects',
+        onRetry,
+      });
+    },
+    onMutate: async ({ payments }): Promise<MutationContext> => {
+      const previous = [
+        ...(await snapshotQueries(queryClient, [...projectKeys(payments), queryKeys.allProjects])),
+        ...(await snapshotSortedProjects(queryClient)),
+      ];
+
+      for (const { projectId, amount } of payments) {
+        updateCachedProject(queryClient, projectId, (cached) => ({
+          ...cached,
+          current_funding: cached.current_funding + amount,
+          balance: cached.balance + amount,
+        }));
+      }
+
+      return { previous };
+    },
+    onError: rollbackOnError(queryClient),
+    onSettled: (_outcome, _error, { payments }) => Promise.all([
+      invalidateQueries(queryClient, [
+        ...projectKeys(payments),
+        queryKeys.allProjects,
+        queryKeys.contributions(account?.address),
+      ]),
+      invalidateSortedProjects(queryClient),
+    ]),
+    retry: false,
+  });
+
+  return { ...mutation, ...lifecycle };
+};
+
+/**
+ * claim_funds
+ */
+export const useClaimFunds = (project: Project) => {
+  const queryClient = useQueryClient();
+  const foundry = useNetworkVariable('foundry');
+  const { executeTransaction, ...lifecycle } = useExecuteTransaction();
+  const projectId = project.id.id;
+
+  const mutation = useMutation({
+    mutationFn: ({ onRetry }: TransactionVariables) => {
+      const tx = new Transaction();
+      foundryTx.claimFunds(tx, foundry, { projectId });
+
+      return executeTransaction(tx, {
+        successMessage: 'Funds claimed successfully!',
+        errorMessage: 'Failed to claim funds',
+        onRetry,
+      });
+    },
+    onMutate: async (): Promise<MutationContext> => {
+      const previous = [
+        ...(await snapshotQueries(queryClient, [queryKeys.project(projectId), queryKeys.allProjects])),
+        ...(await snapshotSortedProjects(queryClient)),
+      ];
+
+      updateCachedProject(queryClient, projectId, (cached) => ({
+        ...cached,
+        balance: 0n,
+        is_withdrawn: true,
+      }));
+
+      return { previous };
+    },
+    onError: rollbackOnError(queryClient),
+    onSettled: () => Promise.all([
+      invalidateQueries(queryClient, [queryKeys.project(projectId), queryKeys.allProjects]),
+      invalidateSortedProjects(queryClient),
+    ]),
+    retry: false,
+  });
+
+  return { ...mutation, ...lifecycle };
+};
+
+/**
+ * reclaim_funds, once per contribution in a single transaction
+ */
+export const useReclaimFunds = (project: Project) => {
+  const queryClient = useQueryClient();
+  const account = useCurrentAccount();
+  const foundry = useNetworkVariable('foundry');
+  const { executeTransaction, ...lifecycle } = useExecuteTransaction();
+  const projectId = project.id.id;
+
+  const mutation = useMutation({
+    mutationFn: ({ contributions, onRetry }: TransactionVariables & { contributions: Contribution[] }) => {
+      const tx = new Transaction();
+      for (const contribution of contributions) {
+        foundryTx.reclaimFunds(tx, foundry, {
+          projectId,
+          contributionId: contribution.id.id,
+        });
+      }
+
+      return executeTransaction(tx, {
+        successMessage: `Successfully reclaimed ${contributions.length} contribution(s)!`,
+        errorMessage: 'Failed to reclaim funds',
+        onRetry,
+      });
+    },
+    onMutate: async ({ contributions }): Promise<MutationContext> => {
+      const contributionsKey = queryKeys.contributions(account?.address);
+      const previous = [
+        ...(await snapshotQueries(queryClient, [
+          queryKeys.project(projectId),
+          queryKeys.allProjects,
+          contributionsKey,
+        ])),
+        ...(await snapshotSortedProjects(queryClient)),
+      ];
+      const refund = sumMist(contributions.map((contribution) => contribution.amount));
+
+      updateCachedProject(queryClient, projectId, (cached) => ({
+        ...cached,
+        current_funding: cached.current_funding - refund,
+        balance: cached.balance - refund,
+      }));
+
+      // Reclaimed receipts are consumed by the contract
+      const reclaimed = new Set(contributions.map((contribution) => contribution.id.id));
+      queryClient.setQueryData<Contribution[]>(contributionsKey, (cached) =>
+        cached?.filter((contribution) => !reclaimed.has(contribution.id.id))
+      );
+
+      return { previous };
+    },
+    onError: rollbackOnError(queryClient),
+    onSettled: () => Promise.all([
+      invalidateQueries(queryClient, [
+        queryKeys.project(projectId),
+        queryKeys.allProjects,
+        queryKeys.contributions(account?.address),
+      ]),
+      invalidateSortedProjects(queryClient),
+    ]),
+    retry: false,
+  });
+
+  return { ...mutation, ...lifecycle };
+};
+
+/**
+ * reclaim_funds for every given refund, in a single transaction
+ *
+ * Lets a backer of many failed campaigns get all refunds back for one
+ * signature and one gas fee.
+ */
+export const useBatchReclaimFunds = () => {
+  const queryClient = useQueryClient();
+  const account = useCurrentAccount();
+  const foundry = useNetworkVariable('foundry');
+  const { executeTransaction, ...lifecycle } = useExecuteTransaction();
+
+  const projectKeys = (refunds: Refund[]) => refunds.map((refund) => queryKeys.project(refund.project.id.id));
+
+  const mutation = useMutation({
+    mutationFn: ({ refunds, onRetry }: TransactionVariables & { refunds: Refund[] }) => {
+      const tx = new Transaction();
+      for (const refund of refunds) {
+        for (const contribution of refund.contributions) {
+          foundryTx.reclaimFunds(tx, foundry, {
+            projectId: refund.project.id.id,
+            contributionId: contribution.id.id,
+          });
+        }
+      }
+
+      const total = sumMist(refunds.map((refund) => refund.amount));
+
+      return executeTransaction(tx, {
+        successMessage: `Successfully reclaimed ${formatSui(total)} SUI from ${refunds.length} project(s)!`,
+        errorMessage: 'Failed to reclaim funds',
+        onRetry,
+      });
+    },
+    onMutate: async ({ refunds }): Promise<MutationContext> => {
+      const contributionsKey = queryKeys.contributions(account?.address);
+      const previous = [
+        ...(await snapshotQueries(queryClient, [
+          ...projectKeys(refunds),
+          queryKeys.allProjects,
+          contributionsKey,
+        ])),
+        ...(await snapshotSortedProjects(queryClient)),
+      ];
+
+      for (const refund of refunds) {
+        updateCachedProject(queryClient, refund.project.id.id, (cached) => ({
+          ...cached,
+          current_funding: cached.current_funding - refund.amount,
+          balance: cached.balance - refund.amount,
+        }));
+      }
+
+      // Reclaimed receipts are consumed by the contract
+      const reclaimed = new Set(
+        refunds.flatMap((refund) => refund.contributions.map((contribution) => contribution.id.id))
+      );
+      queryClient.setQueryData<Contribution[]>(contributionsKey, (cached) =>
+        cached?.filter((contribution) => !reclaimed.has(contribution.id.id))
+      );
+
+      return { previous };
+    },
+    onError: rollbackOnError(queryClient),
+    onSettled: (_outcome, _error, { refunds }) => Promise.all([
+      invalidateQueries(queryClient, [
+        ...projectKeys(refunds),
+        queryKeys.allProjects,
+        queryKeys.contributions(account?.address),
+      ]),
+      invalidateSortedProjects(queryClient),
+    ]),
+    retry: false,
+  });
+
+  return { ...mutation, ...lifecycle };
+};
+
+/**
+ * post_job
+ */
+export const usePostJob = (project: Project) => {
+  const queryClient = useQueryClient();
+  const foundry = useNetworkVariable('foundry');
+  const { executeTransaction, ...lifecycle } = useExecuteTransaction();
+  const projectId = project.id.id;
+
+  const mutation = useMutation({
+    mutationFn: ({ title, descriptionCid, onRetry }: TransactionVariables & {
+      title: string;
+      descriptionCid: string;
+      // Uploaded description, shown until the job is refetched
+      description: JobDescription;
+    }) => {
+      const tx = new Transaction();
+      foundryTx.postJob(tx, foundry, { projectId, title, descriptionCid });
+
+      return executeTransaction(tx, {
+        successMessage: 'Job posted successfully!',
+        errorMessage: 'Failed to post job',
+        onRetry,
+      });
+    },
+    onMutate: async ({ title, descriptionCid, description }): Promise<MutationContext> => {
+      const previous = await snapshotQueries(queryClient, [queryKeys.project(projectId), queryKeys.jobs(projectId)]);
+
+      // The contract uses the job counter as the new job's ID
+      const jobId = queryClient.getQueryData<Project>(queryKeys.project(projectId))?.job_counter ?? project.job_counter;
+      const job: Job = { id: jobId, title, description_cid: descriptionCid };
+
+      queryClient.setQueryData<ProjectJobs>(queryKeys.jobs(projectId), (cached) => cached && {
+        jobs: [...cached.jobs, job],
+        descriptions: { ...cached.descriptions, [jobId.toString()]: description },
+      });
+
+      queryClient.setQueryData<Project>(queryKeys.project(projectId), (cached) => cached && {
+        ...cached,
+        job_counter: cached.job_counter + 1n,
+        jobs: { ...cached.jobs, size: cached.jobs.size + 1n },
+      });
+
+      return { previous };
+    },
+    onError: rollbackOnError(queryClient),
+    onSettled: () => invalidateQueries(queryClient, [queryKeys.project(projectId), queryKeys.jobs(projectId)]),
+    retry: false,
+  });
+
+  return { ...mutation, ...lifecycle };
+};
+
+/**
+ * create_poll
+ */
+export const useCreatePoll = (project: Project) => {
+  const queryClient = useQueryClient();
+  const account = useCurrentAccount();
+  const foundry = useNetworkVariable('foundry');
+  const { executeTransaction, ...lifecycle } = useExecuteTransaction();
+  const projectId = project.id.id;
+
+  const mutation = useMutation({
+    mutationFn: ({ question, options, onRetry }: TransactionVariables & { question: string; options: string[] }) => {
+      const tx = new Transaction();
+      foundryTx.createPoll(tx, foundry, { projectId, question, options });
+
+      return executeTransaction(tx, {
+        successMessage: 'Poll created successfully!',
+        errorMessage: 'Failed to create poll',
+        onRetry,
+      });
+    },
+    // A poll's vote tables only exist once created, so refetch instead
+    onSettled: () => invalidateQueries(queryClient, [
+      queryKeys.project(projectId),
+      queryKeys.polls(projectId, account?.address),
+    ]),
+    retry: false,
+  });
+
+  return { ...mutation, ...lifecycle };
+};
+
+/**
+ * vote_on_poll
+ */
+export const useVoteOnPoll = (projectId: string) => {
+  const queryClient = useQueryClient();
+  const account = useCurrentAccount();
+  const foundry = useNetworkVariable('foundry');
+  const { executeTransaction, ...lifecycle } = useExecuteTransaction();
+  const pollsKey = queryKeys.polls(projectId, account?.address);
+
+  const mutation = useMutation({
+    mutationFn: ({ pollId, contributionId, optionIndex, onRetry }: TransactionVariables & {
+      // Poll object ID, used to find the cached tally
+      pollObjectId: string;
+      pollId: bigint;
+      contributionId: string;
+      optionIndex: number;
+    }) => {
+      const tx = new Transaction();
+      foundryTx.voteOnPoll(tx, foundry, { projectId, pollId, contributionId, optionIndex });
+
+      return executeTransaction(tx, {
+        successMessage: 'Vote cast successfully!',
+        errorMessage: 'Failed to cast vote',
+        onRetry,
+      });
+    },
+    onMutate: async ({ pollObjectId, optionIndex }): Promise<MutationContext> => {
+      const previous = await snapshotQueries(queryClient, [pollsKey]);
+
+      queryClient.setQueryData<ProjectPolls>(pollsKey, (cached) => {
+        const tally = cached?.tallies[pollObjectId];
+        if (!cached || !tally) return cached;
+
+        return {
+          ...cached,
+          tallies: {
+            ...cached.tallies,
+            [pollObjectId]: {
+              votes: tally.votes.map((count, index) => (index === optionIndex ? count + 1n : count)),
+              has_voted: true,
+            },
+          },
+        };
+      });
+
+      return { previous };
+    },
+    onError: rollbackOnError(queryClient),
+    onSettled: () => invalidateQueries(queryClient, [pollsKey]),
+    retry: false,
+  });
+
+  return { ...mutation, ...lifecycle };
+};
+
+/**
+ * submit_feedback
+ */
+export const useSubmitFeedback = (project: Project) => {
+  const queryClient = useQueryClient();
+  const account = useCurrentAccount();
+  const foundry = useNetworkVariable('foundry');
+  const { executeTransaction, ...lifecycle } = useExecuteTransaction();
+  const projectId = project.id.id;
+
+  const mutation = useMutation({
+    mutationFn: ({ contributionId, messageCid, onRetry }: TransactionVariables & {
+      contributionId: string;
+      messageCid: string;
+      // Uploaded message, shown until the feedback is refetched
+      message: FeedbackMessage;
+    }) => {
+      const tx = new Transaction();
+      foundryTx.submitFeedback(tx, foundry, { projectId, contributionId, messageCid });
+
+      return executeTransaction(tx, {
+        successMessage: 'Feedback submitted successfully!',
+        errorMessage: 'Failed to submit feedback',
+        onRetry,
+      });
+    },
+    onMutate: async ({ messageCid, message }): Promise<MutationContext> => {
+      const previous = await snapshotQueries(queryClient, [queryKeys.feedback(projectId)]);
+
+      // Placeholder ID until the Feedback object is refetched
+      const feedback: Feedback = {
+        id: { id: `pending-${Date.now()}` },
+        project_id: projectId,
+        backer_address: account?.address ?? '',
+        message_cid: messageCid,
+      };
+
+      queryClient.setQueryData<ProjectFeedback>(queryKeys.feedback(projectId), (cached) => cached && {
+        feedback: [feedback, ...cached.feedback],
+        messages: { ...cached.messages, [feedback.id.id]: message },
+      });
+
+      return { previous };
+    },
+    onError: rollbackOnError(queryClient),
+    onSettled: () => invalidateQueries(queryClient, [queryKeys.feedback(projectId)]),
+    retry: false,
+  });
+
+  return { ...mutation, ...lifecycle };
+};
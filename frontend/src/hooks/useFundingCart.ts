@@ -0,0 +1,27 @@
+/**
+ * Custom hook for the app-wide funding cart
+ */
+
+import { useSyncExternalStore } from 'react';
+import {
+  addToCart,
+  clearCart,
+  getCartItems,
+  removeFromCart,
+  subscribeToCart,
+} from '../utils/fundingCart';
+
+/**
+ * Hook to read the funding cart and add or remove projects
+ */
+export const useFundingCart = () => {
+  const items = useSyncExternalStore(subscribeToCart, getCartItems);
+
+  return {
+    items,
+    isInCart: (projectId: string) => items.some((item) => item.projectId === projectId),
+    add: addToCart,
+    remove: removeFromCart,
+    clear: clearCart,
+  };
+};
@@ -0,0 +1,154 @@
+/**
+ * Custom hook for the connected account's Contribution receipts
+ *
+ * Receipts are transferred to the backer, so the account's owned objects
+ * list every receipt it holds, however old the contributions are. They
+ * grant voting and feedback rights, and are consumed by reclaim_funds.
+ *
+ * Receipts can also be transferred on, but the contract only accepts one
+ * from the backer it names (EInvalidContribution), so receipts of other
+ * backers are left out.
+ */
+
+import { useQuery } from '@tanstack/react-query';
+import { useCurrentAccount, useSuiClient } from '@mysten/dapp-kit';
+import type { SuiClient } from '@mysten/sui/client';
+import { useNetworkVariable } from '../config/sui';
+import { decodeContribution, decodeEach } from '../utils/contractDecoders';
+import { getProjectStatus } from '../utils/projectDiscovery';
+import { sumMist } from '../utils/suiAmount';
+import type { Contribution, Project } from '../types/contract';
+import { queryKeys } from './queryKeys';
+import { useProjectsByIds } from './useProjects';
+
+// Owned objects requested per page (the RPC maximum)
+const OWNED_OBJECTS_PAGE_SIZE = 50;
+
+/**
+ * Receipts of the connected account with their totals
+ */
+export interface MyContributions {
+  contributions: Contribution[];
+  // Sum of every receipt, in MIST
+  totalAmount: bigint;
+  // Sum of the receipts per project ID, in MIST
+  totalsByProject: Record<string, bigint>;
+}
+
+/**
+ * Receipts of the connected account that one project can refund
+ */
+export interface Refund {
+  project: Project;
+  contributions: Contribution[];
+  // Sum of the receipts, in MIST
+  amount: bigint;
+}
+
+/**
+ * Fetch every Contribution receipt owned by an address
+ */
+const fetchOwnedContributions = async (
+  client: SuiClient,
+  owner: string,
+  contributionType: string
+): Promise<Contribution[]> => {
+  const contributions: Contribution[] = [];
+  let cursor: string | null = null;
+  let hasNextPage = true;
+
+  while (hasNextPage) {
+    const page = await client.getOwnedObjects({
+      owner,
+      filter: { StructType: contributionType },
+      options: { showContent: true, showType: true },
+      cursor,
+      limit: OWNED_OBJECTS_PAGE_SIZE,
+    });
+
+    contributions.push(...decodeEach(page.data, decodeContribution));
+    cursor = page.nextCursor ?? null;
+    hasNextPage = page.hasNextPage && cursor !== null;
+  }
+
+  return contributions;
+};
+
+const summarize = (contributions: Contribution[]): MyContributions => {
+  const totalsByProject: Record<string, bigint> = {};
+  for (const contribution of contributions) {
+    totalsByProject[contribution.project_id] = (totalsByProject[contribution.project_id] ?? 0n) + contribution.amount;
+  }
+
+  return {
+    contributions,
+    totalAmount: sumMist(contributions.map((contribution) => contribution.amount)),
+    totalsByProject,
+  };
+};
+
+/**
+ * Fetch the connected account's contributions, optionally to one project
+ *
+ * Every project shares one cached list of the account's receipts; the
+ * project filter is applied when reading it.
+ */
+export const useMyContributions = (projectId?: string) => {
+  const account = useCurrentAccount();
+  const client = useSuiClient();
+  const foundry = useNetworkVariable('foundry');
+
+  return useQuery({
+    queryKey: queryKeys.contributions(account?.address),
+    queryFn: async (): Promise<Contribution[]> => {
+      if (!account) return [];
+
+      console.log('🔍 Fetching user contributions...');
+      const owned = await fetchOwnedContributions(client, account.address, foundry.types.CONTRIBUTION);
+      const contributions = owned.filter((contribution) => contribution.backer_address === account.address);
+
+      console.log('✅ Found user contributions:', contributions.length);
+      if (contributions.length < owned.length) {
+        console.log('⏭️ Skipped receipts of other backers:', owned.length - contributions.length);
+      }
+      return contributions;
+    },
+    select: (contributions) => summarize(
+      projectId ? contributions.filter((contribution) => contribution.project_id === projectId) : contributions
+    ),
+    enabled: !!account && foundry.isDeployed,
+    staleTime: 30_000,
+  });
+};
+
+/**
+ * Find every project the connected account can reclaim a refund from
+ *
+ * A project is refundable once its deadline has passed under the goal
+ * (the checks of reclaim_funds), which getProjectStatus reports as
+ * 'expired'. Largest refunds come first.
+ */
+export const useRefunds = () => {
+  const contributionsQuery = useMyContributions();
+  const totalsByProject = contributionsQuery.data?.totalsByProject;
+  const projectsQuery = useProjectsByIds(Object.keys(totalsByProject ?? {}));
+
+  const contributions = contributionsQuery.data?.contributions ?? [];
+  const refunds: Refund[] = projectsQuery.projects
+    .filter((project) => getProjectStatus(project) === 'expired')
+    .map((project) => ({
+      project,
+      contributions: contributions.filter((contribution) => contribution.project_id === project.id.id),
+      amount: totalsByProject?.[project.id.id] ?? 0n,
+    }))
+    // Receipts reclaimed optimistically leave their project behind
+    .filter((refund) => refund.contributions.length > 0)
+    .sort((a, b) => (a.amount < b.amount ? 1 : a.amount > b.amount ? -1 : 0));
+
+  return {
+    refunds,
+    totalAmount: sumMist(refunds.map((refund) => refund.amount)),
+    isLoading: contributionsQuery.isLoading || projectsQuery.isLoading,
+    isError: contributionsQuery.isError || projectsQuery.isError,
+  };
+};
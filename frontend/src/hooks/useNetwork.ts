@@ -0,0 +1,73 @@
+/**
+ * Custom hooks for the active Sui network
+ */
+
+import { useEffect, useRef } from 'react';
+import { useQueryClient } from '@tanstack/react-query';
+import { useSuiClientContext } from '@mysten/dapp-kit';
+import { getChainId, useNetworkVariable } from '../config/sui';
+import type { SuiNetwork } from '../config/sui';
+import type { FoundryPackage } from '../config/deployments';
+import { clearCart } from '../utils/fundingCart';
+
+/**
+ * Hook to read and switch the active network
+ */
+export const useNetwork = () => {
+  const { network, networks, selectNetwork } = useSuiClientContext();
+  const current = network as SuiNetwork;
+
+  // Whether the deployment manifest has the package on a network
+  const isDeployed = (name: SuiNetwork) => {
+    const config = networks[name];
+    const variables = config && 'variables' in config ? (config.variables as { foundry?: FoundryPackage }) : undefined;
+    return !!variables?.foundry?.isDeployed;
+  };
+
+  return {
+    network: current,
+    chain: getChainId(current),
+    isDeployed,
+    selectNetwork: (next: SuiNetwork) => selectNetwork(next),
+  };
+};
+
+/**
+ * Hook to build explorer links for the active network
+ *
+ * Each builder returns null when the network has no public explorer (localnet).
+ */
+export const useExplorerUrl = () => {
+  const explorerUrl = useNetworkVariable('explorerUrl');
+
+  const build = (path: string) => (explorerUrl ? `${explorerUrl}/${path}` : null);
+
+  return {
+    transaction: (digest: string) => build(`tx/${digest}`),
+    object: (objectId: string) => build(`object/${objectId}`),
+    address: (address: string) => build(`account/${address}`),
+  };
+};
+
+/**
+ * Hook that resets cached queries when the network changes
+ *
+ * Cached projects, contributions and polls belong to the previous
+ * network's package; resetting refetches active queries against the
+ * new client. The funding cart is emptied for the same reason. Mount it
+ * once, above every component that queries.
+ */
+export const useResetQueriesOnNetworkChange = () => {
+  const queryClient = useQueryClient();
+  const { network } = useSuiClientContext();
+  const previousNetwork = useRef(network);
+
+  useEffect(() => {
+    if (previousNetwork.current === network) return;
+    previousNetwork.current = network;
+
+    console.log(`📡 Switched network to ${network}`);
+    queryClient.resetQueries();
+    clearCart();
+  }, [network, queryClient]);
+};
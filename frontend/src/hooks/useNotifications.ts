@@ -0,0 +1,26 @@
+/**
+ * Custom hook for the app-wide notification queue
+ */
+
+import { useSyncExternalStore } from 'react';
+import {
+  clearNotifications,
+  dismissNotification,
+  getNotifications,
+  notify,
+  subscribeToNotifications,
+} from '../utils/notifications';
+
+/**
+ * Hook to read the notification queue and add or dismiss notifications
+ */
+export const useNotifications = () => {
+  const notifications = useSyncExternalStore(subscribeToNotifications, getNotifications);
+
+  return {
+    notifications,
+    notify,
+    dismiss: dismissNotification,
+    clear: clearNotifications,
+  };
+};
@@ -0,0 +1,253 @@
+/**
+ * Custom hook for live project updates
+ *
+ * Polls the foundry events of an open project and applies them to the
+ * React Query cache, so the funding bar, vote counts and tab lists move
+ * as other users interact with the project. With an indexer configured,
+ * only the project's own events are read; otherwise one query follows
+ * every event of the foundry module and keeps the project's.
+ *
+ * Events that carry absolute values (ContributionMade.total_funded,
+ * VoteCast.new_vote_count, FundsWithdrawn) are patched into the cache
+ * directly; they are idempotent, so they never double count with the
+ * optimistic updates of the connected account's own transactions. Other
+ * events invalidate the affected queries, which refetch the objects.
+ */
+
+import { useEffect, useState } from 'react';
+import { useQueryClient } from '@tanstack/react-query';
+import { useCurrentAccount, useSuiClient } from '@mysten/dapp-kit';
+import type { EventId } from '@mysten/sui/client';
+import { useNetworkVariable } from '../config/sui';
+import type { FoundryPackage } from '../config/deployments';
+import { fetchIndexedProjectEvents } from '../utils/indexerClient';
+import { queryKeys } from './queryKeys';
+import { updateCachedProject } from './projectCache';
+import type { ProjectPolls } from './useProjectTabs';
+
+// Events that change what a project page shows, by event struct name
+const LIVE_EVENTS = {
+  ContributionMade: 'CONTRIBUTION_MADE',
+  VoteCast: 'VOTE_CAST',
+  JobPosted: 'JOB_POSTED',
+  PollCreated: 'POLL_CREATED',
+  FeedbackSubmitted: 'FEEDBACK_SUBMITTED',
+  FundsWithdrawn: 'FUNDS_WITHDRAWN',
+  RefundIssued: 'REFUND_ISSUED',
+} as const satisfies Record<string, keyof FoundryPackage['events']>;
+
+type LiveEventName = (typeof LIVE_EVENTS)[keyof typeof LIVE_EVENTS];
+
+// Event name of a struct name or a full event type ("0x…::foundry::VoteCast")
+const liveEventName = (type: string): LiveEventName | undefined =>
+  LIVE_EVENTS[type.split('::').pop() as keyof typeof LIVE_EVENTS];
+
+// Delay between two polls
+const DEFAULT_POLL_INTERVAL_MS = 5_000;
+
+// Events requested per page while catching up
+const EVENTS_PAGE_SIZE = 50;
+
+/**
+ * Hook to keep a project's cached data in sync with on-chain events
+ *
+ * Only events emitted after the hook mounts are applied; earlier ones are
+ * already reflected in the fetched data. Polling stops while the page is
+ * hidden and catches up when it is shown again.
+ */
+export const useProjectEvents = (
+  projectId: string | undefined,
+  options?: { intervalMs?: number }
+) => {
+  const client = useSuiClient();
+  const queryClient = useQueryClient();
+  const account = useCurrentAccount();
+  const foundry = useNetworkVariable('foundry');
+  const indexerUrl = useNetworkVariable('indexerUrl');
+  const intervalMs = options?.intervalMs ?? DEFAULT_POLL_INTERVAL_MS;
+
+  const [isLive, setIsLive] = useState(false);
+  const [lastEventAt, setLastEventAt] = useState<number | null>(null);
+
+  useEffect(() => {
+    if (!projectId || !foundry.isDeployed) return;
+
+    let cancelled = false;
+    let isPolling = false;
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    // Last seen event; undefined until the first poll
+    let useIndexer = !!indexerUrl;
+    let indexerCursor: string | undefined;
+    let rpcCursor: EventId | null | undefined;
+
+    const applyEvent = (type: string, data: Record<string, string> | undefined, timestampMs: number) => {
+      const name = liveEventName(type);
+      if (!name || !data || data.project_id !== projectId) return;
+
+      console.log(`📡 ${name} on project ${projectId}`, data);
+
+      switch (name) {
+        case 'CONTRIBUTION_MADE': {
+          // Before a withdrawal the balance always equals the total funded
+          const totalFunded = BigInt(data.total_funded);
+          updateCachedProject(queryClient, projectId, (project) => ({
+            ...project,
+            current_funding: totalFunded,
+            balance: project.is_withdrawn ? project.balance : totalFunded,
+          }));
+          if (data.contributor === account?.address) {
+            queryClient.invalidateQueries({ queryKey: queryKeys.contributions(account.address), exact: true });
+          }
+          break;
+        }
+
+        case 'FUNDS_WITHDRAWN':
+          updateCachedProject(queryClient, projectId, (project) => ({
+            ...project,
+            balance: 0n,
+            is_withdrawn: true,
+          }));
+          break;
+
+        case 'REFUND_ISSUED':
+          queryClient.invalidateQueries({ queryKey: queryKeys.project(projectId), exact: true });
+          queryClient.invalidateQueries({ queryKey: queryKeys.allProjects, exact: true });
+          queryClient.invalidateQueries({ queryKey: queryKeys.sortedProjects });
+          if (data.backer === account?.address) {
+            queryClient.invalidateQueries({ queryKey: queryKeys.contributions(account.address), exact: true });
+          }
+          break;
+
+        case 'VOTE_CAST': {
+          const pollId = BigInt(data.poll_id);
+          const optionIndex = Number(data.option_index);
+          const voteCount = BigInt(data.new_vote_count);
+          const isOwnVote = data.voter === account?.address;
+
+          queryClient.setQueryData<ProjectPolls>(queryKeys.polls(projectId, account?.address), (cached) => {
+            const poll = cached?.polls.find((candidate) => candidate.poll_id === pollId);
+            const tally = poll && cached?.tallies[poll.id.id];
+            if (!cached || !poll || !tally) return cached;
+
+            return {
+              ...cached,
+              tallies: {
+                ...cached.tallies,
+                [poll.id.id]: {
+                  votes: tally.votes.map((count, index) => (index === optionIndex ? voteCount : count)),
+                  has_voted: tally.has_voted || isOwnVote,
+                },
+              },
+            };
+          });
+          break;
+        }
+
+        case 'POLL_CREATED':
+          queryClient.invalidateQueries({ queryKey: queryKeys.polls(projectId, account?.address), exact: true });
+          break;
+
+        case 'JOB_POSTED':
+          queryClient.invalidateQueries({ queryKey: queryKeys.jobs(projectId), exact: true });
+          break;
+
+        case 'FEEDBACK_SUBMITTED':
+          queryClient.invalidateQueries({ queryKey: queryKeys.feedback(projectId), exact: true });
+          break;
+      }
+
+      setLastEventAt(timestampMs);
+    };
+
+    // The project's own events, from the indexer
+    const pollIndexer = async (url: string) => {
+      let hasNextPage = true;
+
+      while (hasNextPage && !cancelled) {
+        const page = await fetchIndexedProjectEvents(url, projectId, { after: indexerCursor, limit: EVENTS_PAGE_SIZE });
+        // The first poll only starts after the latest existing event
+        if (indexerCursor !== undefined) {
+          page.events.forEach((event) => applyEvent(event.eventType, event.parsedJson, event.timestampMs));
+        }
+
+        indexerCursor = page.cursor;
+        hasNextPage = page.hasNextPage;
+      }
+    };
+
+    // Every event of the foundry module, filtered down to the project's
+    const pollRpc = async () => {
+      const query = { MoveEventModule: { package: foundry.originalPackageId, module: 'foundry' } };
+
+      // First poll: start after the latest existing event
+      if (rpcCursor === undefined) {
+        const latest = await client.queryEvents({ query, order: 'descending', limit: 1 });
+        rpcCursor = latest.data[0]?.id ?? null;
+        return;
+      }
+
+      let hasNextPage = true;
+
+      while (hasNextPage && !cancelled) {
+        const page = await client.queryEvents({ query, cursor: rpcCursor, order: 'ascending', limit: EVENTS_PAGE_SIZE });
+        page.data.forEach((event) =>
+          applyEvent(event.type, event.parsedJson as Record<string, string> | undefined, Number(event.timestampMs ?? Date.now()))
+        );
+
+        rpcCursor = page.nextCursor ?? rpcCursor;
+        hasNextPage = page.hasNextPage;
+      }
+    };
+
+    const poll = async () => {
+      isPolling = true;
+
+      try {
+        if (useIndexer && indexerUrl) {
+          try {
+            await pollIndexer(indexerUrl);
+          } catch (error) {
+            console.warn('⚠️ Indexer unavailable, falling back to RPC:', error);
+            useIndexer = false;
+            // RPC follows from its latest event, so events since the last
+            // indexer poll are missed: refetch the project and its tabs
+            queryClient.invalidateQueries({ queryKey: queryKeys.project(projectId) });
+            await pollRpc();
+          }
+        } else {
+          await pollRpc();
+        }
+        setIsLive(true);
+      } catch (error) {
+        console.warn('⚠️ Failed to poll project events:', error);
+        setIsLive(false);
+      } finally {
+        isPolling = false;
+      }
+
+      // Hidden pages are not polled until they are shown again
+      if (!cancelled && !document.hidden) {
+        timer = setTimeout(poll, intervalMs);
+      }
+    };
+
+    const handleVisibilityChange = () => {
+      if (!document.hidden && !isPolling && !cancelled) {
+        clearTimeout(timer);
+        poll();
+      }
+    };
+
+    document.addEventListener('visibilitychange', handleVisibilityChange);
+    poll();
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+      document.removeEventListener('visibilitychange', handleVisibilityChange);
+      setIsLive(false);
+    };
+  }, [account?.address, client, foundry, indexerUrl, intervalMs, projectId, queryClient]);
+
+  return { isLive, lastEventAt };
+};
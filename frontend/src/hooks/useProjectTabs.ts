@@ -0,0 +1,321 @@
+/**
+ * Custom hooks for the per-tab data of a project
+ *
+ * Jobs, polls and feedback are cached under the project's query key (see
+ * queryKeys), so mutations can update them optimistically and invalidate
+ * them once finalized. Contributions are per account (useMyContributions).
+ */
+
+import { useQuery } from '@tanstack/react-query';
+import { useCurrentAccount, useSuiClient } from '@mysten/dapp-kit';
+import type { EventId } from '@mysten/sui/client';
+import { useNetworkVariable } from '../config/sui';
+import { fetchIndexedFeedbackIds } from '../utils/indexerClient';
+import {
+  decodeEach,
+  decodeFeedback,
+  decodeJob,
+  decodePoll,
+  decodeProject,
+  decodeU64TableEntry,
+} from '../utils/contractDecoders';
+import { fetchTableEntries, fetchTableEntry } from '../utils/suiTables';
+import type { Feedback, Job, Poll, PollTally, Project } from '../types/contract';
+import type { FeedbackMessage, JobDescription, PollData } from '../types/walrus';
+import { queryKeys } from './queryKeys';
+import { useWalrus } from './useWalrus';
+
+/**
+ * Jobs of a project with their descriptions from Walrus
+ */
+export interface ProjectJobs {
+  jobs: Job[];
+  // Keyed by job ID
+  descriptions: Record<string, JobDescription>;
+}
+
+/**
+ * Polls of a project with their display data and vote tallies
+ */
+export interface ProjectPolls {
+  polls: Poll[];
+  // Both keyed by poll object ID
+  pollData: Record<string, PollData>;
+  tallies: Record<string, PollTally>;
+}
+
+/**
+ * Feedback of a project with the messages from Walrus
+ */
+export interface ProjectFeedback {
+  feedback: Feedback[];
+  // Keyed by feedback object ID
+  messages: Record<string, FeedbackMessage>;
+}
+
+// FeedbackSubmitted events requested per page (the RPC maximum)
+const EVENTS_PAGE_SIZE = 50;
+
+// Maximum number of IDs accepted by a single multiGetObjects call
+const MULTI_GET_BATCH_SIZE = 50;
+
+// Shown when a job description cannot be fetched from Walrus
+const fallbackJobDescription = (job: Job): JobDescription => ({
+  title: job.title,
+  description: 'Description not available',
+  responsibilities: [],
+  requirements: { skills: [], experience: 'Not specified' },
+  compensation: { type: 'negotiable' },
+  duration: 'Not specified',
+  workType: 'remote',
+  experienceLevel: 'any',
+  benefits: [],
+  applicationInstructions: 'Contact project owner',
+  version: '1.0.0',
+  createdAt: Date.now(),
+});
+
+// Shown when a feedback message cannot be fetched from Walrus
+const FALLBACK_FEEDBACK_MESSAGE: FeedbackMessage = {
+  message: 'Feedback message not available',
+  category: 'general',
+  isAnonymous: false,
+  version: '1.0.0',
+  createdAt: Date.now(),
+};
+
+/**
+ * Fetch the jobs posted on a project
+ */
+export const useProjectJobs = (project: Project) => {
+  const client = useSuiClient();
+  const walrus = useWalrus();
+  const projectId = project.id.id;
+
+  return useQuery({
+    queryKey: queryKeys.jobs(projectId),
+    queryFn: async ({ signal }): Promise<ProjectJobs> => {
+      console.log('🔍 Fetching jobs for project:', projectId);
+
+      // Read the latest jobs table from the project object
+      const projectObj = await client.getObject({
+        id: projectId,
+        options: {
+          showContent: true,
+          showType: true,
+        },
+      });
+
+      if (!projectObj.data) {
+        throw new Error('Project not found');
+      }
+
+      const { jobs: jobsTable } = decodeProject(projectObj);
+
+      // Jobs are stored as dynamic fields of the jobs table
+      const entries = await fetchTableEntries(client, jobsTable);
+      const jobs = decodeEach(entries, decodeJob).sort((a, b) => (a.id < b.id ? -1 : a.id > b.id ? 1 : 0));
+
+      console.log('📋 Found jobs:', jobs.length);
+
+      // Fetch job descriptions from Walrus
+      const describedJobs = jobs.filter((job) => job.description_cid);
+      console.log('📥 Fetching job descriptions:', describedJobs.length);
+
+      const results = await walrus.fetchJsonBatch<JobDescription>(
+        describedJobs.map((job) => job.description_cid),
+        { signal }
+      );
+
+      const descriptions: Record<string, JobDescription> = {};
+      results.forEach((result, index) => {
+        const job = describedJobs[index];
+        if (result.ok) {
+          descriptions[job.id.toString()] = result.data;
+        } else {
+          console.warn('Failed to fetch job description:', result.cid, result.error);
+          descriptions[job.id.toString()] = fallbackJobDescription(job);
+        }
+      });
+
+      return { jobs, descriptions };
+    },
+    enabled: !!projectId,
+    staleTime: 30_000,
+  });
+};
+
+/**
+ * Fetch the polls of a project and the connected account's votes
+ */
+export const useProjectPolls = (project: Project) => {
+  const account = useCurrentAccount();
+  const client = useSuiClient();
+  const projectId = project.id.id;
+
+  return useQuery({
+    queryKey: queryKeys.polls(projectId, account?.address),
+    queryFn: async (): Promise<ProjectPolls> => {
+      console.log('🗳️ Fetching polls for project:', projectId);
+
+      // Read the latest polls table from the project object
+      const projectObj = await client.getObject({
+        id: projectId,
+        options: {
+          showContent: true,
+          showType: true,
+        },
+      });
+
+      if (!projectObj.data) {
+        throw new Error('Project not found');
+      }
+
+      const { polls: pollsTable } = decodeProject(projectObj);
+
+      // Polls are stored as dynamic fields of the polls table
+      const entries = await fetchTableEntries(client, pollsTable);
+      const polls = decodeEach(entries, decodePoll).sort((a, b) =>
+        a.poll_id < b.poll_id ? -1 : a.poll_id > b.poll_id ? 1 : 0
+      );
+
+      console.log('📊 Found polls:', polls.length);
+
+      // Basic PollData from the on-chain data; richer metadata could live on Walrus
+      const pollData: Record<string, PollData> = {};
+      for (const poll of polls) {
+        pollData[poll.id.id] = {
+          question: poll.question,
+          description: `Poll created for project governance`,
+          options: poll.options,
+          allowMultipleVotes: false,
+          isActive: true,
+          expiresAt: undefined, // No expiration for now
+          version: '1.0.0',
+          createdAt: Date.now(),
+        };
+      }
+
+      // Vote counts and whether the connected account already voted
+      const tallies: Record<string, PollTally> = {};
+
+      await Promise.all(polls.map(async (poll) => {
+        try {
+          const voteEntries = await fetchTableEntries(client, poll.votes);
+          const votes: bigint[] = poll.options.map(() => 0n);
+          for (const entry of decodeEach(voteEntries, decodeU64TableEntry)) {
+            if (entry.key < BigInt(votes.length)) {
+              votes[Number(entry.key)] = entry.value;
+            }
+          }
+
+          const voterEntry = account
+            ? await fetchTableEntry(client, poll.voters, { type: 'address', value: account.address })
+            : null;
+
+          tallies[poll.id.id] = { votes, has_voted: voterEntry !== null };
+        } catch (error) {
+          console.warn('Failed to load poll tally:', poll.id.id, error);
+        }
+      }));
+
+      return { polls, pollData, tallies };
+    },
+    enabled: !!projectId,
+    staleTime: 30_000,
+  });
+};
+
+/**
+ * Fetch the feedback submitted on a project
+ */
+export const useProjectFeedback = (project: Project) => {
+  const client = useSuiClient();
+  const walrus = useWalrus();
+  const foundry = useNetworkVariable('foundry');
+  const indexerUrl = useNetworkVariable('indexerUrl');
+  const projectId = project.id.id;
+
+  // Feedback IDs from the indexer, else from every FeedbackSubmitted event
+  const fetchFeedbackIds = async (): Promise<string[]> => {
+    if (indexerUrl) {
+      try {
+        return await fetchIndexedFeedbackIds(indexerUrl, projectId);
+      } catch (error) {
+        console.warn('⚠️ Indexer unavailable, falling back to RPC:', error);
+      }
+    }
+
+    // Events cannot be filtered by project, so walk all pages (newest first)
+    // and keep the current project's
+    const feedbackIds: string[] = [];
+    let cursor: EventId | null = null;
+
+    do {
+      const page = await client.queryEvents({
+        query: {
+          MoveEventType: foundry.events.FEEDBACK_SUBMITTED,
+        },
+        cursor,
+        order: 'descending',
+        limit: EVENTS_PAGE_SIZE,
+      });
+
+      for (const event of page.data) {
+        const eventData = event.parsedJson as { project_id?: string; feedback_id?: string } | undefined;
+        if (eventData?.project_id === projectId && eventData.feedback_id) {
+          feedbackIds.push(eventData.feedback_id);
+        }
+      }
+
+      cursor = page.hasNextPage ? page.nextCursor ?? null : null;
+    } while (cursor);
+
+    return feedbackIds;
+  };
+
+  return useQuery({
+    queryKey: queryKeys.feedback(projectId),
+    queryFn: async ({ signal }): Promise<ProjectFeedback> => {
+      console.log('💬 Fetching feedback for project:', projectId);
+
+      const feedbackIds = await fetchFeedbackIds();
+      const feedback: Feedback[] = [];
+
+      for (let i = 0; i < feedbackIds.length; i += MULTI_GET_BATCH_SIZE) {
+        const batch = await client.multiGetObjects({
+          ids: feedbackIds.slice(i, i + MULTI_GET_BATCH_SIZE),
+          options: { showContent: true, showType: true },
+        });
+
+        // Skip deleted feedback, then any object that fails validation
+        feedback.push(...decodeEach(batch.filter((feedbackObject) => feedbackObject.data), decodeFeedback));
+      }
+
+      console.log('📝 Found feedback:', feedback.length);
+
+      // Fetch feedback messages from Walrus
+      const withMessages = feedback.filter((fb) => fb.message_cid);
+      console.log('📥 Fetching feedback messages:', withMessages.length);
+
+      const results = await walrus.fetchJsonBatch<FeedbackMessage>(
+        withMessages.map((fb) => fb.message_cid),
+        { signal }
+      );
+
+      const messages: Record<string, FeedbackMessage> = {};
+      results.forEach((result, index) => {
+        if (result.ok) {
+          messages[withMessages[index].id.id] = result.data;
+        } else {
+          console.warn('Failed to fetch feedback message:', result.cid, result.error);
+          messages[withMessages[index].id.id] = FALLBACK_FEEDBACK_MESSAGE;
+        }
+      });
+
+      return { feedback, messages };
+    },
+    enabled: !!projectId,
+    staleTime: 30_000,
+  });
+};
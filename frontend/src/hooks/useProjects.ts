@@ -2,37 +2,110 @@
  * Custom hooks for fetching and managing projects
  */
 
-import { useQuery } from '@tanstack/react-query';
-import { useSuiClient } from '@mysten/dapp-kit';
-import { OBJECT_TYPES } from '../config/constants';
+import { useQuery, useQueries, useInfiniteQuery } from '@tanstack/react-query';
+import { useCurrentAccount, useSuiClient } from '@mysten/dapp-kit';
+import type { EventId, SuiClient } from '@mysten/sui/client';
+import { useNetworkVariable } from '../config/sui';
 import type { Project } from '../types/contract';
 import type { ProjectMetadata } from '../types/walrus';
-import { fetchJson } from '../utils/walrusClient';
+import type { WalrusClient } from '../utils/walrusClient';
+import { fetchIndexedProjectIds } from '../utils/indexerClient';
 import { parseProjectMetadata } from '../utils/walrusSchemas';
+import { decodeEach, decodeProject } from '../utils/contractDecoders';
+import { percentOf } from '../utils/suiAmount';
+import type { ProjectSortMode, ProjectStatus } from '../utils/projectDiscovery';
+import { queryKeys } from './queryKeys';
+import { useWalrus } from './useWalrus';
+
+// Number of ProjectCreated events requested per page
+export const PROJECTS_PAGE_SIZE = 24;
+
+// Maximum number of IDs accepted by a single multiGetObjects call
+const MULTI_GET_BATCH_SIZE = 50;
+
+// Owned objects requested per page (the RPC maximum)
+const OWNED_OBJECTS_PAGE_SIZE = 50;
+
+// Cursor of a projects page: the indexer's (a string) or a ProjectCreated event ID
+export type ProjectsCursor = EventId | string | null;
+
+/**
+ * A single page of projects, from the indexer or ProjectCreated events
+ */
+export interface ProjectsPage {
+  projects: Project[];
+  nextCursor: ProjectsCursor;
+  hasNextPage: boolean;
+}
+
+/**
+ * Fetch project objects by ID, splitting the request into
+ * batches that respect the multiGetObjects limit
+ */
+const fetchProjectsByIds = async (client: SuiClient, projectIds: string[]): Promise<Project[]> => {
+  const projects: Project[] = [];
+
+  for (let i = 0; i < projectIds.length; i += MULTI_GET_BATCH_SIZE) {
+    const batch = projectIds.slice(i, i + MULTI_GET_BATCH_SIZE);
+
+    const projectsResponse = await client.multiGetObjects({
+      ids: batch,
+      options: {
+        showContent: true,
+        showType: true,
+        showOwner: true,
+      },
+    });
+
+    // Decode project objects, skipping any that fail validation
+    projects.push(...decodeEach(projectsResponse, decodeProject));
+  }
+
+  return projects;
+};
 
 /**
  * Fetch all projects from the Sui blockchain
+ *
+ * Pages through the indexer's project list when one is configured, else
+ * walks ProjectCreated events page by page (newest first) following
+ * `nextCursor`, so every project ever created can be reached through
+ * `fetchNextPage`. Pagination stays on the source of the first page.
  */
 export const useAllProjects = () => {
   const client = useSuiClient();
+  const foundry = useNetworkVariable('foundry');
+  const indexerUrl = useNetworkVariable('indexerUrl');
+
+  return useInfiniteQuery({
+    queryKey: queryKeys.allProjects,
+    initialPageParam: null as ProjectsCursor,
+    queryFn: async ({ pageParam }): Promise<ProjectsPage> => {
+      if (indexerUrl && (pageParam === null || typeof pageParam === 'string')) {
+        try {
+          const page = await fetchIndexedProjectIds(indexerUrl, { cursor: pageParam, limit: PROJECTS_PAGE_SIZE });
+          const projects = await fetchProjectsByIds(client, page.projectIds);
+
+          console.log(`✅ Fetched ${projects.length} indexed projects`);
+
+          return { projects, nextCursor: page.nextCursor, hasNextPage: page.hasNextPage };
+        } catch (error) {
+          // An indexer cursor cannot be continued with events
+          if (pageParam) throw error;
+          console.warn('⚠️ Indexer unavailable, falling back to RPC:', error);
+        }
+      }
 
-  return useQuery({
-    queryKey: ['projects', 'all'],
-    queryFn: async () => {
       try {
-        // Query all objects of Project type using queryEvents
-        // This works by listening to ProjectCreated events
-        // Alternative: For a full implementation, you would:
-        // 1. Index ProjectCreated events to get all project IDs
-        // 2. Or make Project objects shared and query them
-        // 3. Or use Sui indexer API
-        
-        // For now, we'll use queryEvents to get ProjectCreated events
+        // Projects are owned objects, so they are discovered
+        // by listening to ProjectCreated events
         const events = await client.queryEvents({
           query: {
-            MoveEventType: `${OBJECT_TYPES.PROJECT.split('::').slice(0, 2).join('::')}::foundry::ProjectCreated`,
+            MoveEventType: foundry.events.PROJECT_CREATED,
           },
-          limit: 50, // Adjust as needed
+          cursor: typeof pageParam === 'string' ? null : pageParam,
+          limit: PROJECTS_PAGE_SIZE,
+          order: 'descending',
         });
 
         // Extract project IDs from events
@@ -45,138 +118,276 @@ export const useAllProjects = () => {
 
         console.log(`Found ${projectIds.length} project IDs from events`);
 
-        // Fetch project objects using multiGetObjects
-        if (projectIds.length === 0) {
-          console.log('No projects found');
-          return [];
-        }
-
-        const projectsResponse = await client.multiGetObjects({
-          ids: projectIds,
-          options: {
-            showContent: true,
-            showType: true,
-            showOwner: true,
-          },
-        });
-
-        // Extract and parse project data
-        const projects: Project[] = [];
-        
-        for (const item of projectsResponse) {
-          if (item.data?.content && 'fields' in item.data.content) {
-            const fields = item.data.content.fields as Record<string, unknown>;
-            
-            // Map the on-chain data to our Project interface
-            const project: Project = {
-              id: fields.id as { id: string },
-              owner: fields.owner as string,
-              funding_goal: fields.funding_goal as string,
-              current_funding: fields.current_funding as string,
-              deadline: fields.deadline as string,
-              metadata_cid: fields.metadata_cid as string,
-              balance: fields.balance as string,
-              job_counter: fields.job_counter as string,
-              poll_counter: fields.poll_counter as string,
-              is_withdrawn: fields.is_withdrawn as boolean,
-            };
-            
-            projects.push(project);
-          }
-        }
+        const projects = projectIds.length > 0
+          ? await fetchProjectsByIds(client, projectIds)
+          : [];
 
         console.log(`✅ Fetched ${projects.length} projects from Sui`);
-        return projects;
+
+        return {
+          projects,
+          nextCursor: events.nextCursor ?? null,
+          hasNextPage: events.hasNextPage,
+        };
       } catch (error) {
         console.error('❌ Error fetching projects:', error);
-        // Return empty array instead of throwing to prevent app crash when no projects exist
-        return [];
+
+        // Later pages surface the error so that fetchNextPage can be retried
+        if (pageParam) throw error;
+
+        // Return an empty page instead of throwing to prevent app crash when no projects exist
+        return { projects: [], nextCursor: null, hasNextPage: false };
       }
     },
+    getNextPageParam: (lastPage) => (lastPage.hasNextPage ? lastPage.nextCursor : undefined),
     staleTime: 30_000, // Cache for 30 seconds
     refetchOnWindowFocus: true,
   });
 };
 
 /**
- * Fetch a single project by ID
+ * Fetch all projects in a gallery order or with given statuses, as the
+ * indexer sorts and filters its whole project list
+ *
+ * Only runs with an indexer and for anything but the plain newest-first
+ * list; without one (or when it fails) the gallery can only sort and
+ * filter the pages useAllProjects has loaded.
  */
-export const useProject = (projectId: string | undefined) => {
+export const useSortedProjects = (sort: ProjectSortMode, statuses: ProjectStatus[]) => {
   const client = useSuiClient();
+  const indexerUrl = useNetworkVariable('indexerUrl');
 
-  return useQuery({
-    queryKey: ['project', projectId],
-    queryFn: async () => {
-      if (!projectId) throw new Error('Project ID is required');
-
+  return useInfiniteQuery({
+    queryKey: queryKeys.sortedProjectsBy(sort, statuses),
+    initialPageParam: null as ProjectsCursor,
+    queryFn: async ({ pageParam }): Promise<ProjectsPage> => {
       try {
-        const response = await client.getObject({
-          id: projectId,
-          options: {
-            showContent: true,
-            showType: true,
-          },
+        const page = await fetchIndexedProjectIds(indexerUrl!, {
+          cursor: typeof pageParam === 'string' ? pageParam : null,
+          limit: PROJECTS_PAGE_SIZE,
+          sort,
+          statuses,
         });
+        const projects = await fetchProjectsByIds(client, page.projectIds);
 
-        if (!response.data?.content || !('fields' in response.data.content)) {
-          throw new Error('Project not found');
-        }
-
-        const fields = response.data.content.fields as Record<string, unknown>;
-
-        const project: Project = {
-          id: fields.id as { id: string },
-          owner: fields.owner as string,
-          funding_goal: fields.funding_goal as string,
-          current_funding: fields.current_funding as string,
-          deadline: fields.deadline as string,
-          metadata_cid: fields.metadata_cid as string,
-          balance: fields.balance as string,
-          job_counter: fields.job_counter as string,
-          poll_counter: fields.poll_counter as string,
-          is_withdrawn: fields.is_withdrawn as boolean,
-        };
-
-        return project;
+        return { projects, nextCursor: page.nextCursor, hasNextPage: page.hasNextPage };
       } catch (error) {
-        console.error(`❌ Error fetching project ${projectId}:`, error);
+        console.warn('⚠️ Indexer unavailable, sorting loaded projects only:', error);
         throw error;
       }
     },
+    getNextPageParam: (lastPage) => (lastPage.hasNextPage ? lastPage.nextCursor : undefined),
+    enabled: !!indexerUrl && (sort !== 'newest' || statuses.length > 0),
+    // The gallery falls back to the loaded pages right away
+    retry: false,
+    staleTime: 30_000,
+    refetchOnWindowFocus: true,
+  });
+};
+
+/**
+ * Fetch the IDs of the projects owned by the connected account
+ *
+ * Reads the indexer's projects filtered by owner when one is configured.
+ * Otherwise create_project transfers each Project to its creator, so the
+ * account's owned objects list them; only those whose `owner` field is
+ * the account are kept, since it is the one allowed to claim.
+ */
+export const useOwnedProjectIds = () => {
+  const account = useCurrentAccount();
+  const client = useSuiClient();
+  const foundry = useNetworkVariable('foundry');
+  const indexerUrl = useNetworkVariable('indexerUrl');
+
+  const fetchIndexedIds = async (owner: string): Promise<string[]> => {
+    const projectIds: string[] = [];
+    let cursor: string | null = null;
+
+    do {
+      const page = await fetchIndexedProjectIds(indexerUrl!, { owner, cursor, limit: 100 });
+      projectIds.push(...page.projectIds);
+      cursor = page.hasNextPage ? page.nextCursor : null;
+    } while (cursor);
+
+    return projectIds;
+  };
+
+  const fetchOwnedIds = async (owner: string): Promise<string[]> => {
+    const projects: Project[] = [];
+    let cursor: string | null = null;
+
+    do {
+      const page = await client.getOwnedObjects({
+        owner,
+        filter: { StructType: foundry.types.PROJECT },
+        options: { showContent: true, showType: true },
+        cursor,
+        limit: OWNED_OBJECTS_PAGE_SIZE,
+      });
+      projects.push(...decodeEach(page.data, decodeProject));
+      cursor = page.hasNextPage ? page.nextCursor ?? null : null;
+    } while (cursor);
+
+    return projects.filter((project) => project.owner === owner).map((project) => project.id.id);
+  };
+
+  return useQuery({
+    queryKey: queryKeys.ownedProjects(account?.address),
+    queryFn: async (): Promise<string[]> => {
+      if (!account) return [];
+
+      if (indexerUrl) {
+        try {
+          return await fetchIndexedIds(account.address);
+        } catch (error) {
+          console.warn('⚠️ Indexer unavailable, falling back to RPC:', error);
+        }
+      }
+
+      return fetchOwnedIds(account.address);
+    },
+    enabled: !!account && foundry.isDeployed,
+    staleTime: 30_000,
+  });
+};
+
+/**
+ * Fetch and decode one project object
+ */
+const fetchProject = async (client: SuiClient, projectId: string): Promise<Project> => {
+  try {
+    const response = await client.getObject({
+      id: projectId,
+      options: {
+        showContent: true,
+        showType: true,
+      },
+    });
+
+    if (!response.data) {
+      throw new Error('Project not found');
+    }
+
+    const project = decodeProject(response);
+
+    return project;
+  } catch (error) {
+    console.error(`❌ Error fetching project ${projectId}:`, error);
+    throw error;
+  }
+};
+
+/**
+ * Fetch a single project by ID
+ */
+export const useProject = (projectId: string | undefined) => {
+  const client = useSuiClient();
+
+  return useQuery({
+    queryKey: queryKeys.project(projectId),
+    queryFn: async () => {
+      if (!projectId) throw new Error('Project ID is required');
+
+      return fetchProject(client, projectId);
+    },
     enabled: !!projectId,
     staleTime: 30_000,
   });
 };
 
+/**
+ * Fetch several projects by ID
+ *
+ * Shares the ['project', id] cache with useProject, so optimistic updates
+ * of a mutation show up on every page listing the project.
+ */
+export const useProjectsByIds = (projectIds: string[]) => {
+  const client = useSuiClient();
+  const uniqueIds = [...new Set(projectIds)];
+
+  return useQueries({
+    queries: uniqueIds.map((projectId) => ({
+      queryKey: queryKeys.project(projectId),
+      queryFn: () => fetchProject(client, projectId),
+      staleTime: 30_000,
+    })),
+    combine: (results) => ({
+      projects: results.flatMap((result) => (result.data ? [result.data] : [])),
+      isLoading: results.some((result) => result.isPending),
+      isError: results.some((result) => result.isError),
+    }),
+  });
+};
+
+/**
+ * Fetch and validate project metadata from Walrus
+ */
+const fetchProjectMetadata = async (walrus: WalrusClient, metadataCid: string) => {
+  try {
+    // Fetch from Walrus
+    const data = await walrus.fetchJson<ProjectMetadata>(metadataCid);
+    
+    // Validate and parse
+    const metadata = parseProjectMetadata(data);
+    
+    console.log(`✅ Fetched metadata for CID: ${metadataCid}`);
+    return metadata;
+  } catch (error) {
+    console.error(`❌ Error fetching metadata ${metadataCid}:`, error);
+    throw error;
+  }
+};
+
 /**
  * Fetch project metadata from Walrus
  */
 export const useProjectMetadata = (metadataCid: string | undefined) => {
+  const walrus = useWalrus();
+
   return useQuery({
-    queryKey: ['projectMetadata', metadataCid],
+    queryKey: queryKeys.projectMetadata(metadataCid),
     queryFn: async () => {
       if (!metadataCid) throw new Error('Metadata CID is required');
-
-      try {
-        // Fetch from Walrus
-        const data = await fetchJson<ProjectMetadata>(metadataCid);
-        
-        // Validate and parse
-        const metadata = parseProjectMetadata(data);
-        
-        console.log(`✅ Fetched metadata for CID: ${metadataCid}`);
-        return metadata;
-      } catch (error) {
-        console.error(`❌ Error fetching metadata ${metadataCid}:`, error);
-        throw error;
-      }
+      return fetchProjectMetadata(walrus, metadataCid);
     },
     enabled: !!metadataCid,
-    staleTime: 60_000, // Cache metadata for 1 minute (it changes less frequently)
+    staleTime: Infinity, // Walrus blobs are immutable
     retry: 2, // Retry failed requests
   });
 };
 
+/**
+ * Fetch metadata for a list of projects in parallel
+ * 
+ * Shares the ['projectMetadata', cid] cache with useProjectMetadata,
+ * so cards rendered for the same projects do not refetch.
+ */
+export const useProjectsMetadata = (projects: Project[]) => {
+  const walrus = useWalrus();
+  const metadataCids = [...new Set(projects.map((project) => project.metadata_cid).filter(Boolean))];
+
+  return useQueries({
+    queries: metadataCids.map((metadataCid) => ({
+      queryKey: queryKeys.projectMetadata(metadataCid),
+      queryFn: () => fetchProjectMetadata(walrus, metadataCid),
+      staleTime: Infinity,
+      retry: 2,
+    })),
+    combine: (results) => {
+      const metadataByCid: Record<string, ProjectMetadata | null | undefined> = {};
+      results.forEach((result, index) => {
+        metadataByCid[metadataCids[index]] = result.data;
+      });
+
+      return {
+        metadataByCid,
+        isLoading: results.some((result) => result.isPending),
+        loadedCount: results.filter((result) => result.isSuccess).length,
+      };
+    },
+  });
+};
+
 /**
  * Combined hook to fetch both project and its metadata
  */
@@ -203,12 +414,7 @@ export const useProjectWithMetadata = (projectId: string | undefined) => {
 export const useFundingProgress = (project: Project | undefined): number => {
   if (!project) return 0;
 
-  const current = parseInt(project.current_funding);
-  const goal = parseInt(project.funding_goal);
-
-  if (goal === 0) return 0;
-
-  const percentage = (current / goal) * 100;
+  const percentage = percentOf(project.current_funding, project.funding_goal);
   return Math.min(percentage, 100); // Cap at 100%
 };
 
@@ -218,7 +424,7 @@ export const useFundingProgress = (project: Project | undefined): number => {
 export const useIsProjectExpired = (project: Project | undefined): boolean => {
   if (!project) return false;
 
-  const deadline = parseInt(project.deadline);
+  const deadline = Number(project.deadline);
   const now = Date.now();
 
   return now > deadline;
@@ -232,7 +438,7 @@ export const useTimeRemaining = (project: Project | undefined) => {
     return { days: 0, hours: 0, minutes: 0, expired: true };
   }
 
-  const deadline = parseInt(project.deadline);
+  const deadline = Number(project.deadline);
   const now = Date.now();
   const diff = deadline - now;
 
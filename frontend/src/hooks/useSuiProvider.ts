@@ -2,8 +2,18 @@
  * Custom hooks for Sui blockchain interactions
  */
 
+import { useState } from 'react';
 import { useCurrentAccount, useSuiClient, useSignAndExecuteTransaction } from '@mysten/dapp-kit';
 import { Transaction } from '@mysten/sui/transactions';
+import { simulateTransaction, TransactionSimulationError } from '../utils/txSimulation';
+import type { TransactionSimulation } from '../utils/txSimulation';
+import { decodeTransactionError, isConfirmationPending, TransactionError } from '../utils/moveErrors';
+import { notify } from '../utils/notifications';
+import { parseTransactionOutcome, TRANSACTION_RESPONSE_OPTIONS } from '../utils/txEffects';
+import type { TransactionOutcome, TransactionStatus } from '../utils/txEffects';
+import { useNetworkVariable } from '../config/sui';
+import { MIST_PER_SUI, formatSui as formatSuiAmount, parseSui } from '../utils/suiAmount';
+import { useExplorerUrl, useNetwork } from './useNetwork';
 
 /**
  * Hook to get the current connected wallet and Sui client
@@ -24,73 +34,199 @@ export const useSuiProvider = () => {
 
 /**
  * Hook to execute transactions with error handling
+ *
+ * Transactions are signed for the network currently selected in the app.
+ * Before the wallet opens, each transaction is simulated: if it would
+ * abort, a TransactionSimulationError is thrown and nothing is signed.
+ * The latest simulation (gas estimate, balance changes) is exposed so
+ * widgets can show it while the wallet prompt is open.
+ *
+ * After signing, the hook waits until the transaction is finalized and
+ * resolves with its parsed outcome (created project, contributions,
+ * balance changes); a transaction that aborts on chain rejects like one
+ * that failed simulation. `status` tracks pending → submitted →
+ * finalized/failed for the latest call.
+ *
+ * If finality cannot be checked (timeout or RPC error after the wallet
+ * submitted), the call rejects with a 'confirmation_pending'
+ * TransactionError and `status` stays 'submitted': the transaction may
+ * still succeed, so no retry is offered and callers should refetch
+ * instead of rolling back.
+ *
+ * Errors reach onError and the caller already decoded (see moveErrors),
+ * so their message can be rendered as-is. Outcomes are also posted to the
+ * notification center, using successMessage / errorMessage as titles.
  */
 export const useExecuteTransaction = () => {
-  const { signAndExecute, account } = useSuiProvider();
+  const { signAndExecute, account, client } = useSuiProvider();
+  const { chain } = useNetwork();
+  const explorer = useExplorerUrl();
+  const foundry = useNetworkVariable('foundry');
+  const [simulation, setSimulation] = useState<TransactionSimulation | null>(null);
+  const [isSimulating, setIsSimulating] = useState(false);
+  const [status, setStatus] = useState<TransactionStatus>('idle');
+  const [outcome, setOutcome] = useState<TransactionOutcome | null>(null);
+
+  // Simulate without executing, e.g. to preview fees
+  const estimateTransaction = async (transaction: Transaction): Promise<TransactionSimulation> => {
+    if (!account) {
+      throw new Error('Please connect your wallet first');
+    }
+
+    setIsSimulating(true);
+    try {
+      const result = await simulateTransaction(client, transaction, account.address);
+      setSimulation(result);
+      return result;
+    } finally {
+      setIsSimulating(false);
+    }
+  };
 
   const executeTransaction = async (
     transaction: Transaction,
     options?: {
-      onSuccess?: (digest: string) => void;
+      onSuccess?: (digest: string, outcome: TransactionOutcome) => void;
       onError?: (error: Error) => void;
+      onSimulated?: (simulation: TransactionSimulation) => void;
       successMessage?: string;
       errorMessage?: string;
+      // Offered as a "Retry" action on the failure notification
+      onRetry?: () => void;
+      // Send to the wallet without simulating first
+      skipSimulation?: boolean;
     }
-  ) => {
+  ): Promise<TransactionOutcome> => {
     if (!account) {
       const errorMsg = 'Please connect your wallet first';
       console.error(errorMsg);
       throw new Error(errorMsg);
     }
 
+    setStatus('pending');
+    setOutcome(null);
+
+    let digest: string | undefined;
+
     try {
+      if (!options?.skipSimulation) {
+        const simulated = await estimateTransaction(transaction);
+        options?.onSimulated?.(simulated);
+
+        if (!simulated.success) {
+          throw new TransactionSimulationError(simulated);
+        }
+
+        console.log('🧪 Simulation passed, estimated gas (MIST):', simulated.gas?.total.toString());
+      }
+
       const result = await signAndExecute({
         transaction,
-        chain: 'sui:testnet',
+        chain,
       });
 
-      const digest = result.digest;
+      digest = result.digest;
+      setStatus('submitted');
+      console.log('📨 Transaction submitted:', digest);
+
+      const explorerLink = explorer.transaction(digest);
+      if (explorerLink) {
+        console.log(`🔗 ${explorerLink}`);
+      }
+
+      // Wait for finality: the wallet only reports the digest
+      const response = await client
+        .waitForTransaction({
+          digest,
+          options: TRANSACTION_RESPONSE_OPTIONS,
+        })
+        .catch((error: unknown) => {
+          throw new TransactionError(
+            'confirmation_pending',
+            'The transaction was submitted but could not be confirmed yet. Check the explorer before trying again',
+            error instanceof Error ? error.message : String(error)
+          );
+        });
+      const finalized = parseTransactionOutcome(response, foundry, account.address);
+      setOutcome(finalized);
+
+      if (!finalized.success) {
+        throw new Error(finalized.error ?? 'Transaction failed on chain');
+      }
+
+      setStatus('finalized');
       
       if (options?.successMessage) {
         console.log(options.successMessage);
       }
+
+      notify({
+        kind: 'success',
+        title: options?.successMessage || 'Transaction confirmed',
+        digest,
+        explorerUrl: explorerLink,
+      });
       
       if (options?.onSuccess) {
-        options.onSuccess(digest);
+        options.onSuccess(digest, finalized);
       }
 
-      return result;
+      return finalized;
     } catch (error) {
+      if (isConfirmationPending(error)) {
+        console.warn('⏳ Transaction submitted, confirmation pending:', digest, error);
+
+        notify({
+          kind: 'info',
+          title: 'Transaction submitted, confirmation pending',
+          message: (error as TransactionError).message,
+          digest,
+          explorerUrl: digest ? explorer.transaction(digest) : undefined,
+        });
+
+        options?.onError?.(error as TransactionError);
+        throw error;
+      }
+
+      setStatus('failed');
+
       const errorMsg = options?.errorMessage || 'Transaction failed';
-      const err = error as Error;
+      const err = decodeTransactionError(error);
       
-      console.error('Transaction error:', err);
+      console.error('Transaction error:', error);
       console.error(`${errorMsg}: ${err.message}`);
       
+      const rejected = err instanceof TransactionError && err.reason === 'rejected';
+      notify({
+        kind: rejected ? 'info' : 'error',
+        title: rejected ? 'Transaction cancelled' : errorMsg,
+        message: err.message,
+        digest,
+        explorerUrl: digest ? explorer.transaction(digest) : undefined,
+        action: options?.onRetry ? { label: 'Retry', onClick: options.onRetry } : undefined,
+      });
+      
       if (options?.onError) {
         options.onError(err);
       }
 
-      throw error;
+      throw err;
     }
   };
 
-  return { executeTransaction };
+  return { executeTransaction, estimateTransaction, simulation, isSimulating, status, outcome };
 };
 
 /**
  * Hook to format SUI amounts
  */
 export const useFormatSui = () => {
-  const MIST_PER_SUI = 1_000_000_000;
-
-  const formatSui = (mist: string | number): string => {
-    const amount = typeof mist === 'string' ? parseInt(mist) : mist;
-    return (amount / MIST_PER_SUI).toFixed(4);
+  const formatSui = (mist: bigint | string): string => {
+    return formatSuiAmount(BigInt(mist), { maximumFractionDigits: 4, minimumFractionDigits: 4 });
   };
 
-  const formatSuiToMist = (sui: number): number => {
-    return Math.floor(sui * MIST_PER_SUI);
+  const formatSuiToMist = (sui: string): bigint => {
+    return parseSui(sui);
   };
 
   return { formatSui, formatSuiToMist, MIST_PER_SUI };
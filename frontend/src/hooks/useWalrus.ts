@@ -0,0 +1,21 @@
+/**
+ * Custom hook for the Walrus client of the active network
+ */
+
+import { createContext, useContext } from 'react';
+import type { WalrusClient } from '../utils/walrusClient';
+
+// Provided by WalrusProvider
+export const WalrusContext = createContext<WalrusClient | null>(null);
+
+/**
+ * Hook to read the Walrus client
+ */
+export const useWalrus = (): WalrusClient => {
+  const client = useContext(WalrusContext);
+  if (!client) {
+    throw new Error('useWalrus must be used within a WalrusProvider');
+  }
+
+  return client;
+};
@@ -0,0 +1,53 @@
+/**
+ * Custom hook for showing Walrus blobs (e.g. images) from the cache
+ */
+
+import { useEffect, useState } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { queryKeys } from './queryKeys';
+import { useWalrus } from './useWalrus';
+import { WalrusError } from '../utils/walrusClient';
+import { parseContentRef } from '../utils/walrusIntegrity';
+
+/**
+ * Hook to get a URL for a blob, e.g. for `<img src>`
+ *
+ * The blob is fetched through the client, so it is verified and cached
+ * across visits; the URL is an object URL, revoked on unmount. If the
+ * fetch fails, plain blob IDs fall back to the aggregator URL; references
+ * with a content hash, and content that failed verification, get no URL,
+ * since the browser would show the aggregator's content unverified.
+ */
+export const useWalrusBlobUrl = (cid: string | undefined): string | undefined => {
+  const walrus = useWalrus();
+  const [objectUrl, setObjectUrl] = useState<string>();
+
+  const { data: blob, error } = useQuery({
+    queryKey: queryKeys.walrusBlob(cid),
+    queryFn: ({ signal }) => {
+      if (!cid) throw new Error('CID is required');
+      return walrus.fetchBlob(cid, { signal });
+    },
+    enabled: !!cid,
+    staleTime: Infinity, // Walrus blobs are immutable
+    retry: 1,
+  });
+
+  useEffect(() => {
+    if (!blob) return;
+
+    const url = URL.createObjectURL(blob);
+    setObjectUrl(url);
+    return () => {
+      URL.revokeObjectURL(url);
+      setObjectUrl(undefined);
+    };
+  }, [blob]);
+
+  if (!cid) return undefined;
+  if (error) {
+    const isTampered = error instanceof WalrusError && error.code === 'INTEGRITY_MISMATCH';
+    return isTampered || parseContentRef(cid).integrity ? undefined : walrus.getBlobUrl(cid);
+  }
+  return objectUrl;
+};
@@ -0,0 +1,35 @@
+/**
+ * Custom hook for the health of the Walrus endpoints
+ */
+
+import { useCallback, useEffect, useSyncExternalStore } from 'react';
+import { useWalrus } from './useWalrus';
+
+const DEFAULT_CHECK_INTERVAL_MS = 60_000;
+
+/**
+ * Hook to read the health of the active network's publishers and
+ * aggregators, checking them on mount and then every `intervalMs`
+ */
+export const useWalrusHealth = (intervalMs: number = DEFAULT_CHECK_INTERVAL_MS) => {
+  const walrus = useWalrus();
+  const health = useSyncExternalStore(walrus.subscribeToHealth, walrus.getHealth);
+
+  const check = useCallback(() => walrus.checkHealth(), [walrus]);
+
+  useEffect(() => {
+    check().catch((error) => console.error('Walrus health check failed:', error));
+    const timer = setInterval(() => {
+      check().catch((error) => console.error('Walrus health check failed:', error));
+    }, intervalMs);
+
+    return () => clearInterval(timer);
+  }, [check, intervalMs]);
+
+  return {
+    health,
+    // Reads work; uploads may still fail (e.g. no public mainnet publisher)
+    isHealthy: health.aggregator.status === 'healthy',
+    check,
+  };
+};
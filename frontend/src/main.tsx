@@ -2,8 +2,9 @@ import { StrictMode } from 'react';
 import { createRoot } from 'react-dom/client';
 import { QueryClient, QueryClientProvider } from '@tanstack/react-query';
 import { SuiClientProvider, WalletProvider } from '@mysten/dapp-kit';
-import { networkConfig, getCurrentNetwork } from './config/sui';
-import { isConfigValid } from './config/constants';
+import { createNetworks, getCurrentNetwork, saveCurrentNetwork } from './config/sui';
+import { loadDeploymentManifest } from './config/deployments';
+import { WalrusProvider } from './components';
 import './index.css';
 import '@mysten/dapp-kit/dist/index.css';
 import App from './App.tsx';
@@ -33,26 +34,35 @@ const queryClient = new QueryClient({
 // Get the current network
 const currentNetwork = getCurrentNetwork();
 
-// Validate configuration before rendering
-if (import.meta.env.DEV && !isConfigValid()) {
-  console.error('❌ Missing required environment variables. Check your .env file.');
-}
-
 console.log('🚀 Foundry dApp initializing...');
 console.log(`📡 Network: ${currentNetwork}`);
-console.log(`✅ Config valid: ${isConfigValid()}`);
 
-createRoot(document.getElementById('root')!).render(
-  <StrictMode>
-    <QueryClientProvider client={queryClient}>
-      <SuiClientProvider networks={networkConfig} defaultNetwork={currentNetwork}>
-        <WalletProvider 
-          autoConnect
-          storageKey="foundry:wallet-connection"
+// Load the deployment manifest before rendering so package IDs are known
+loadDeploymentManifest().then((manifest) => {
+  const networks = createNetworks(manifest);
+
+  if (!networks[currentNetwork].variables.foundry.isDeployed) {
+    console.error(`❌ No Foundry deployment for ${currentNetwork} in deployments.json`);
+  }
+
+  createRoot(document.getElementById('root')!).render(
+    <StrictMode>
+      <QueryClientProvider client={queryClient}>
+        <SuiClientProvider
+          networks={networks}
+          defaultNetwork={currentNetwork}
+          onNetworkChange={saveCurrentNetwork}
         >
-          <App />
-        </WalletProvider>
-      </SuiClientProvider>
-    </QueryClientProvider>
-  </StrictMode>,
-);
+          <WalletProvider 
+            autoConnect
+            storageKey="foundry:wallet-connection"
+          >
+            <WalrusProvider>
+              <App />
+            </WalrusProvider>
+          </WalletProvider>
+        </SuiClientProvider>
+      </QueryClientProvider>
+    </StrictMode>,
+  );
+});
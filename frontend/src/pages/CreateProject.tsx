@@ -7,14 +7,14 @@
 
 import { useState, useRef } from 'react';
 import { Link, useNavigate } from 'react-router-dom';
-import { Transaction } from '@mysten/sui/transactions';
 import { useCurrentAccount } from '@mysten/dapp-kit';
-import { useExecuteTransaction } from '../hooks/useSuiProvider';
+import { useCreateProject } from '../hooks/useFoundryMutations';
+import { useWalrus } from '../hooks/useWalrus';
 import { createProjectMetadata } from '../utils/walrusSchemas';
-import { uploadImage } from '../utils/walrusUpload';
-import { uploadJson } from '../utils/walrusClient';
 import { ProjectCategory } from '../types/walrus';
-import { PACKAGE_ID, suiToMist } from '../config/constants';
+import { getErrorMessage, isConfirmationPending } from '../utils/moveErrors';
+import { notifyUpload } from '../utils/notifications';
+import { parseSui } from '../utils/suiAmount';
 import './CreateProject.css';
 
 interface FormData {
@@ -33,7 +33,9 @@ interface FormData {
 export default function CreateProject() {
   const navigate = useNavigate();
   const account = useCurrentAccount();
-  const { executeTransaction } = useExecuteTransaction();
+  const createProject = useCreateProject();
+  const walrus = useWalrus();
+  const { status } = createProject;
   const fileInputRef = useRef<HTMLInputElement>(null);
 
   // Form state
@@ -157,9 +159,13 @@ export default function CreateProject() {
     return true;
   };
 
-  // Handle form submission
-  const handleSubmit = async (e: React.FormEvent) => {
-    e.preventDefault();
+  // Handle form submission; a retry passes the blobs it already uploaded,
+  // so only the failed steps run again
+  const handleSubmit = async (
+    e?: React.FormEvent,
+    uploaded: { logoCid?: string; metadataCid?: string } = {}
+  ) => {
+    e?.preventDefault();
     
     if (!validateForm()) return;
     if (!account) return;
@@ -170,21 +176,21 @@ export default function CreateProject() {
 
     try {
       // Step 1: Upload logo to Walrus (if provided)
-      let logoCid: string | undefined;
+      let logoCid = uploaded.logoCid;
       
-      if (logoFile) {
+      if (logoFile && !logoCid) {
         setCurrentStep('Uploading project logo to Walrus...');
         console.log('📤 Uploading logo to Walrus...');
         
-        const logoUploadResult = await uploadImage(logoFile, {
+        const logoUploadResult = await notifyUpload('Project logo', walrus.uploadImage(logoFile, {
           epochs: 5,
           maxSizeMB: 5,
           onProgress: (progress) => {
             setUploadProgress(Math.floor(progress * 0.3)); // 0-30%
           },
-        });
+        }), () => handleSubmit());
         
-        logoCid = logoUploadResult.cid;
+        logoCid = logoUploadResult.ref;
         console.log('✅ Logo uploaded:', logoCid);
       }
 
@@ -219,19 +225,27 @@ export default function CreateProject() {
       // Step 3: Upload metadata JSON to Walrus
       setCurrentStep('Uploading metadata to Walrus...');
       setUploadProgress(40);
-      console.log('📤 Uploading metadata to Walrus...');
-      
-      const metadataUploadResult = await uploadJson(metadata, { epochs: 5 });
-      const metadataCid = metadataUploadResult.cid;
-      
-      console.log('✅ Metadata uploaded:', metadataCid);
+      let metadataCid = uploaded.metadataCid;
+
+      if (!metadataCid) {
+        console.log('📤 Uploading metadata to Walrus...');
+
+        const metadataUploadResult = await notifyUpload(
+          'Project metadata',
+          walrus.uploadJson(metadata, { epochs: 5 }),
+          () => handleSubmit(undefined, { logoCid })
+        );
+        metadataCid = metadataUploadResult.ref;
+
+        console.log('✅ Metadata uploaded:', metadataCid);
+      }
       setUploadProgress(60);
 
       // Step 4: Prepare blockchain transaction
       setCurrentStep('Preparing blockchain transaction...');
       setUploadProgress(70);
       
-      const fundingGoalMist = suiToMist(parseFloat(formData.fundingGoal));
+      const fundingGoalMist = parseSui(formData.fundingGoal);
       const deadlineTimestamp = new Date(formData.deadline).getTime();
 
       console.log('🔧 Transaction parameters:', {
@@ -240,51 +254,31 @@ export default function CreateProject() {
         deadlineTimestamp,
       });
 
-      // Step 5: Build Transaction
-      setCurrentStep('Building transaction...');
-      const tx = new Transaction();
-      
-      tx.moveCall({
-        target: `${PACKAGE_ID}::foundry::create_project`,
-        arguments: [
-          tx.pure.string(metadataCid),
-          tx.pure.u64(fundingGoalMist),
-          tx.pure.u64(deadlineTimestamp),
-        ],
-      });
-
-      console.log('📦 Transaction built');
-      setUploadProgress(80);
-
-      // Step 6: Execute transaction
+      // Step 5: Execute transaction
       setCurrentStep('Submitting transaction to Sui blockchain...');
+      setUploadProgress(80);
       console.log('🚀 Executing transaction...');
       
-      const result = await executeTransaction(tx, {
-        successMessage: 'Project created successfully!',
-        errorMessage: 'Failed to create project',
-        onSuccess: (digest) => {
-          console.log('✅ Transaction successful:', digest);
-          setUploadProgress(100);
-          setCurrentStep('Project created successfully!');
-          
-          // Navigate to home after short delay
-          setTimeout(() => {
-            navigate('/');
-          }, 2000);
-        },
+      const outcome = await createProject.mutateAsync({
+        metadataCid,
+        fundingGoal: fundingGoalMist,
+        deadline: deadlineTimestamp,
+        onRetry: () => handleSubmit(undefined, { logoCid, metadataCid }),
       });
 
-      console.log('✅ Project created:', result);
+      console.log('✅ Transaction successful:', outcome.digest);
+      setUploadProgress(100);
+      setCurrentStep('Project created successfully!');
+      
+      // Open the new project; fall back to home if no event was found
+      navigate(outcome.projectId ? `/project/${outcome.projectId}` : '/');
 
     } catch (error) {
       console.error('❌ Error creating project:', error);
       
-      const errorMessage = error instanceof Error 
-        ? error.message 
-        : 'An unknown error occurred';
+      const errorMessage = getErrorMessage(error);
       
-      setError(`Failed to create project: ${errorMessage}`);
+      setError(isConfirmationPending(error) ? errorMessage : `Failed to create project: ${errorMessage}`);
       setCurrentStep('');
       setUploadProgress(0);
     } finally {
@@ -556,7 +550,9 @@ export default function CreateProject() {
         {isSubmitting && (
           <div className="progress-section">
             <div className="progress-info">
-              <span className="progress-step">{currentStep}</span>
+              <span className="progress-step">
+                {status === 'submitted' ? 'Waiting for confirmation on Sui...' : currentStep}
+              </span>
               <span className="progress-percent">{uploadProgress}%</span>
             </div>
             <div className="progress-bar">
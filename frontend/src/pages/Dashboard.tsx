@@ -0,0 +1,242 @@
+/**
+ * Creator Dashboard Page Component
+ *
+ * Lists the projects owned by the connected wallet with their funding
+ * progress, time remaining and activity, and shortcuts to the owner-only
+ * actions: claiming funds, creating polls and posting jobs.
+ */
+
+import { useState } from 'react';
+import { Link } from 'react-router-dom';
+import { useCurrentAccount } from '@mysten/dapp-kit';
+import { useOwnedProjectIds, useProjectWithMetadata, useTimeRemaining } from '../hooks/useProjects';
+import { useProjectFeedback } from '../hooks/useProjectTabs';
+import { useClaimFunds } from '../hooks/useFoundryMutations';
+import { useWalrusBlobUrl } from '../hooks/useWalrusBlobUrl';
+import { getErrorMessage, isConfirmationPending } from '../utils/moveErrors';
+import { getProjectStatus, getProjectStatusLabel } from '../utils/projectDiscovery';
+import { countUnseenFeedback } from '../utils/seenFeedback';
+import { formatSui, percentOf } from '../utils/suiAmount';
+import WalletConnectButton from '../components/WalletConnectButton';
+import CreatePollModal from '../components/CreatePollModal';
+import PostJobModal from '../components/PostJobModal';
+import type { Project } from '../types/contract';
+import './Dashboard.css';
+
+/**
+ * Activity counts and owner actions of one project
+ */
+function CreatorPanel({ project }: { project: Project }) {
+  const claimFunds = useClaimFunds(project);
+  const feedbackQuery = useProjectFeedback(project);
+  const [isCreatePollModalOpen, setIsCreatePollModalOpen] = useState(false);
+  const [isPostJobModalOpen, setIsPostJobModalOpen] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const projectId = project.id.id;
+  const feedbackIds = (feedbackQuery.data?.feedback ?? []).map((entry) => entry.id.id);
+  const unreadFeedback = countUnseenFeedback(projectId, feedbackIds);
+
+  // Same conditions as claim_funds
+  const canClaim = project.current_funding >= project.funding_goal && !project.is_withdrawn;
+
+  const handleClaim = async () => {
+    setError(null);
+
+    try {
+      console.log('🚀 Claiming funds for project:', projectId);
+
+      const outcome = await claimFunds.mutateAsync({ onRetry: handleClaim });
+
+      console.log('✅ Claim successful:', outcome.digest);
+    } catch (error) {
+      console.error('❌ Claim error:', error);
+      setError(isConfirmationPending(error) ? getErrorMessage(error) : `Failed to claim funds: ${getErrorMessage(error)}`);
+    }
+  };
+
+  return (
+    <>
+      {/* Polls never close on chain, so every poll in the table is open */}
+      <div className="dashboard-counts">
+        <Link to={`/project/${projectId}?tab=governance`} className="dashboard-count">
+          <span className="count-value">{project.polls.size.toString()}</span>
+          <span className="count-label">Open polls</span>
+        </Link>
+        <Link to={`/project/${projectId}?tab=jobs`} className="dashboard-count">
+          <span className="count-value">{project.jobs.size.toString()}</span>
+          <span className="count-label">Jobs</span>
+        </Link>
+        <Link
+          to={`/project/${projectId}?tab=feedback`}
+          className={`dashboard-count ${unreadFeedback > 0 ? 'unread' : ''}`}
+        >
+          <span className="count-value">{feedbackQuery.isLoading ? '…' : unreadFeedback}</span>
+          <span className="count-label">Unread feedback</span>
+        </Link>
+      </div>
+
+      <div className="dashboard-actions">
+        {canClaim && (
+          <button
+            className="btn btn-success btn-sm"
+            onClick={handleClaim}
+            disabled={claimFunds.isPending}
+          >
+            {claimFunds.isPending ? 'Claiming...' : `💰 Claim ${formatSui(project.balance)} SUI`}
+          </button>
+        )}
+        <button className="btn btn-secondary btn-sm" onClick={() => setIsCreatePollModalOpen(true)}>
+          🗳️ Create poll
+        </button>
+        <button className="btn btn-secondary btn-sm" onClick={() => setIsPostJobModalOpen(true)}>
+          💼 Post job
+        </button>
+
+        {error && <p className="dashboard-action-error">{error}</p>}
+      </div>
+
+      <CreatePollModal
+        project={project}
+        isOpen={isCreatePollModalOpen}
+        onClose={() => setIsCreatePollModalOpen(false)}
+      />
+      <PostJobModal
+        project={project}
+        isOpen={isPostJobModalOpen}
+        onClose={() => setIsPostJobModalOpen(false)}
+      />
+    </>
+  );
+}
+
+/**
+ * One owned project
+ */
+function DashboardEntry({ projectId }: { projectId: string }) {
+  const { project, metadata, isLoading } = useProjectWithMetadata(projectId);
+  const timeRemaining = useTimeRemaining(project);
+  const logoUrl = useWalrusBlobUrl(metadata?.logoCid);
+
+  const title = metadata?.name ?? `Project ${projectId.slice(0, 10)}...`;
+
+  if (isLoading) {
+    return (
+      <div className="dashboard-entry loading">
+        <span className="spinner"></span>
+        Loading project...
+      </div>
+    );
+  }
+
+  if (!project) {
+    return (
+      <div className="dashboard-entry">
+        <p className="dashboard-action-error">Failed to load project {projectId} from Sui</p>
+      </div>
+    );
+  }
+
+  const status = getProjectStatus(project);
+  const fundingProgress = percentOf(project.current_funding, project.funding_goal);
+
+  return (
+    <div className="dashboard-entry">
+      <div className="dashboard-entry-header">
+        <div className="dashboard-entry-logo">
+          {logoUrl ? <img src={logoUrl} alt={title} /> : <span>🚀</span>}
+        </div>
+        <div className="dashboard-entry-title">
+          <Link to={`/project/${projectId}`}>{title}</Link>
+          <span className={`dashboard-status ${status}`}>{getProjectStatusLabel(status)}</span>
+        </div>
+      </div>
+
+      <div className="dashboard-progress">
+        <div className="progress-bar">
+          <div className="progress-fill" style={{ width: `${Math.min(fundingProgress, 100)}%` }} />
+        </div>
+        <div className="dashboard-progress-stats">
+          <span>
+            <strong>{formatSui(project.current_funding, { maximumFractionDigits: 2 })}</strong> of{' '}
+            {formatSui(project.funding_goal, { maximumFractionDigits: 2 })} SUI ({fundingProgress.toFixed(0)}%)
+          </span>
+          <span>
+            {timeRemaining.expired
+              ? 'Ended'
+              : `${timeRemaining.days}d ${timeRemaining.hours}h ${timeRemaining.minutes}m left`}
+          </span>
+        </div>
+      </div>
+
+      <CreatorPanel project={project} />
+    </div>
+  );
+}
+
+export default function Dashboard() {
+  const account = useCurrentAccount();
+  const { data: projectIds = [], isLoading, isError, error, refetch } = useOwnedProjectIds();
+
+  if (!account) {
+    return (
+      <div className="dashboard-page">
+        <div className="empty-state">
+          <div className="empty-icon">👛</div>
+          <h3>Connect Your Wallet</h3>
+          <p>Connect the wallet you created your projects with to manage them.</p>
+          <WalletConnectButton />
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="dashboard-page">
+      <div className="dashboard-header">
+        <div>
+          <h1>Creator Dashboard</h1>
+          <p>Manage the campaigns you run.</p>
+        </div>
+        <Link to="/create-project" className="btn btn-primary">
+          + New Project
+        </Link>
+      </div>
+
+      {isLoading && (
+        <div className="loading-state">
+          <span className="spinner"></span>
+          Loading your projects...
+        </div>
+      )}
+
+      {isError && (
+        <div className="error-state">
+          <div className="error-icon">❌</div>
+          <h3>Failed to load your projects</h3>
+          <p>{error instanceof Error ? error.message : 'Unknown error occurred'}</p>
+          <button className="btn btn-primary" onClick={() => refetch()}>
+            Try Again
+          </button>
+        </div>
+      )}
+
+      {!isLoading && !isError && projectIds.length === 0 && (
+        <div className="empty-state">
+          <div className="empty-icon">📦</div>
+          <h3>No Projects Yet</h3>
+          <p>Projects you create will show up here.</p>
+          <Link to="/create-project" className="btn btn-primary">
+            Create Your First Project
+          </Link>
+        </div>
+      )}
+
+      <div className="dashboard-grid">
+        {projectIds.map((projectId) => (
+          <DashboardEntry key={projectId} projectId={projectId} />
+        ))}
+      </div>
+    </div>
+  );
+}
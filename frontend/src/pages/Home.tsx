@@ -5,21 +5,111 @@
  */
 
 import { Link } from 'react-router-dom';
-import { useState } from 'react';
-import { useAllProjects } from '../hooks/useProjects';
+import { useState, useMemo, useEffect, useRef } from 'react';
+import { useAllProjects, useProjectsMetadata, useSortedProjects } from '../hooks/useProjects';
 import ProjectCard from '../components/ProjectCard';
-import { ProjectCategory } from '../types/walrus';
+import { PROJECT_CATEGORIES } from '../types/walrus';
+import type { ProjectCategory } from '../types/walrus';
+import { getCategoryLabel } from '../utils/walrusSchemas';
+import { formatSui, sumMist } from '../utils/suiAmount';
+import {
+  DEFAULT_DISCOVERY_FILTERS,
+  PROJECT_SORT_MODES,
+  PROJECT_STATUSES,
+  countProjectsByStatus,
+  filterProjects,
+  getPopularTags,
+  getProjectStatusLabel,
+  getSortModeLabel,
+  hasActiveFilters,
+  hasMetadataFilters,
+  normalizeTag,
+  sortProjects,
+} from '../utils/projectDiscovery';
+import type { ProjectDiscoveryFilters, ProjectSortMode, ProjectStatus } from '../utils/projectDiscovery';
 import './Home.css';
 
 export default function Home() {
-  const { data: projects, isLoading, isError, error, refetch } = useAllProjects();
-  const [selectedCategory, setSelectedCategory] = useState<string>('all');
-  const [searchQuery, setSearchQuery] = useState('');
+  const [filters, setFilters] = useState<ProjectDiscoveryFilters>(DEFAULT_DISCOVERY_FILTERS);
+  const [sortMode, setSortMode] = useState<ProjectSortMode>('newest');
+  const loadMoreRef = useRef<HTMLDivElement>(null);
 
-  // Filter projects by category and search
-  // For now, we display all projects as filtering by category
-  // requires fetching metadata for each project first
-  const filteredProjects = projects;
+  // The newest-first list, and the indexer's whole list in the selected
+  // order and statuses; the gallery pages through the latter when it loads
+  const allProjects = useAllProjects();
+  const sortedProjects = useSortedProjects(sortMode, filters.statuses);
+  const isSortedByIndexer = sortedProjects.isSuccess;
+  const { data, isError, error, refetch } = allProjects;
+  const isLoading = allProjects.isLoading || sortedProjects.isLoading;
+  const { fetchNextPage, hasNextPage, isFetchingNextPage, isFetchNextPageError } =
+    isSortedByIndexer ? sortedProjects : allProjects;
+
+  const projects = useMemo(() => data?.pages.flatMap((page) => page.projects) ?? [], [data]);
+  const listedProjects = useMemo(
+    () => (isSortedByIndexer ? sortedProjects.data.pages.flatMap((page) => page.projects) : projects),
+    [isSortedByIndexer, sortedProjects.data, projects]
+  );
+
+  // Infinite scroll: load the next page when the sentinel enters the viewport
+  useEffect(() => {
+    const sentinel = loadMoreRef.current;
+    if (!sentinel || !hasNextPage || isFetchNextPageError) return;
+
+    const observer = new IntersectionObserver(
+      (entries) => {
+        if (entries[0]?.isIntersecting && !isFetchingNextPage) {
+          fetchNextPage();
+        }
+      },
+      { rootMargin: '400px' }
+    );
+
+    observer.observe(sentinel);
+    return () => observer.disconnect();
+  }, [hasNextPage, isFetchingNextPage, isFetchNextPageError, fetchNextPage]);
+
+  // Load Walrus metadata for every listed project so it can be filtered
+  const { metadataByCid, isLoading: isMetadataLoading } = useProjectsMetadata(listedProjects);
+  const popularTags = useMemo(() => getPopularTags(Object.values(metadataByCid)), [metadataByCid]);
+
+  // Filter projects by status, category, tags, creator and search, then sort;
+  // the indexer has already sorted its list and filtered it by status
+  const filtersActive = hasActiveFilters(filters);
+  const filteredProjects = useMemo(
+    () =>
+      isSortedByIndexer
+        ? filterProjects(listedProjects, metadataByCid, { ...filters, statuses: [] })
+        : sortProjects(filterProjects(listedProjects, metadataByCid, filters), sortMode),
+    [isSortedByIndexer, listedProjects, metadataByCid, filters, sortMode]
+  );
+  const statusCounts = useMemo(() => countProjectsByStatus(projects), [projects]);
+  // Without the indexer, sorts and status filters only see the loaded pages
+  const isLimitedToLoaded = !isSortedByIndexer && !!allProjects.hasNextPage &&
+    (sortMode !== 'newest' || filters.statuses.length > 0);
+  const isAwaitingMetadata = isMetadataLoading && hasMetadataFilters(filters);
+
+  const updateFilters = (changes: Partial<ProjectDiscoveryFilters>) => {
+    setFilters(prev => ({ ...prev, ...changes }));
+  };
+
+  const toggleStatus = (status: ProjectStatus) => {
+    setFilters(prev => ({
+      ...prev,
+      statuses: prev.statuses.includes(status)
+        ? prev.statuses.filter(s => s !== status)
+        : [...prev.statuses, status],
+    }));
+  };
+
+  const toggleTag = (tag: string) => {
+    const key = normalizeTag(tag);
+    setFilters(prev => ({
+      ...prev,
+      tags: prev.tags.some(t => normalizeTag(t) === key)
+        ? prev.tags.filter(t => normalizeTag(t) !== key)
+        : [...prev.tags, tag],
+    }));
+  };
 
   return (
     <div className="home-page">
@@ -58,8 +148,16 @@ export default function Home() {
             <p className="subtitle">
               {isLoading ? (
                 'Loading projects...'
+              ) : projects.length > 0 && isSortedByIndexer ? (
+                `${filteredProjects.length}${hasNextPage ? '+' : ''} project${filteredProjects.length === 1 ? '' : 's'} ${filtersActive ? 'match your filters' : 'seeking funding'}`
+              ) : projects.length > 0 && isLimitedToLoaded ? (
+                filtersActive
+                  ? `${filteredProjects.length} of the ${projects.length} loaded projects match your filters`
+                  : `Sorted by ${getSortModeLabel(sortMode)} among the ${projects.length} loaded projects`
+              ) : projects.length > 0 && filtersActive ? (
+                `${filteredProjects.length} of ${projects.length}${hasNextPage ? '+' : ''} projects match your filters`
               ) : projects && projects.length > 0 ? (
-                `${projects.length} project${projects.length === 1 ? '' : 's'} seeking funding`
+                `${projects.length}${hasNextPage ? '+' : ''} project${projects.length === 1 ? '' : 's'} seeking funding`
               ) : (
                 'No projects yet. Be the first to create one!'
               )}
@@ -73,32 +171,94 @@ export default function Home() {
                 <input
                   type="text"
                   placeholder="Search projects..."
-                  value={searchQuery}
-                  onChange={(e) => setSearchQuery(e.target.value)}
+                  value={filters.query}
+                  onChange={(e) => updateFilters({ query: e.target.value })}
                   className="search-input"
                 />
                 <span className="search-icon">🔍</span>
               </div>
+
+              <input
+                type="text"
+                placeholder="Creator..."
+                value={filters.creator}
+                onChange={(e) => updateFilters({ creator: e.target.value })}
+                className="creator-filter"
+              />
               
               <select 
                 className="category-filter"
-                value={selectedCategory}
-                onChange={(e) => setSelectedCategory(e.target.value)}
+                value={filters.category}
+                onChange={(e) => updateFilters({ category: e.target.value as ProjectCategory | 'all' })}
               >
                 <option value="all">All Categories</option>
-                <option value={ProjectCategory.TECHNOLOGY}>Technology</option>
-                <option value={ProjectCategory.ART}>Art & Design</option>
-                <option value={ProjectCategory.GAMES}>Gaming</option>
-                <option value={ProjectCategory.DEFI}>DeFi</option>
-                <option value={ProjectCategory.NFT}>NFT</option>
-                <option value={ProjectCategory.DAO}>DAO</option>
-                <option value={ProjectCategory.SOCIAL}>Social</option>
-                <option value={ProjectCategory.EDUCATION}>Education</option>
-                <option value={ProjectCategory.INFRASTRUCTURE}>Infrastructure</option>
-                <option value={ProjectCategory.OTHER}>Other</option>
+                {PROJECT_CATEGORIES.map((category) => (
+                  <option key={category} value={category}>
+                    {getCategoryLabel(category)}
+                  </option>
+                ))}
+              </select>
+
+              <select
+                className="sort-select"
+                value={sortMode}
+                onChange={(e) => setSortMode(e.target.value as ProjectSortMode)}
+              >
+                {PROJECT_SORT_MODES.map((mode) => (
+                  <option key={mode} value={mode}>
+                    {getSortModeLabel(mode)}
+                  </option>
+                ))}
               </select>
             </div>
           )}
+
+          {/* Status Facets */}
+          {projects.length > 0 && (
+            <div className="status-facets">
+              {PROJECT_STATUSES.map((status) => (
+                <button
+                  key={status}
+                  type="button"
+                  className={`status-facet ${filters.statuses.includes(status) ? 'selected' : ''}`}
+                  onClick={() => toggleStatus(status)}
+                >
+                  {getProjectStatusLabel(status)}
+                  <span className="facet-count">
+                    {statusCounts[status]}{allProjects.hasNextPage ? '+' : ''}
+                  </span>
+                </button>
+              ))}
+            </div>
+          )}
+
+          {/* Tag Filters */}
+          {popularTags.length > 0 && (
+            <div className="tag-filters">
+              {popularTags.map((tag) => {
+                const isSelected = filters.tags.some(t => normalizeTag(t) === normalizeTag(tag));
+                return (
+                  <button
+                    key={tag}
+                    type="button"
+                    className={`tag-filter ${isSelected ? 'selected' : ''}`}
+                    onClick={() => toggleTag(tag)}
+                  >
+                    #{tag}
+                  </button>
+                );
+              })}
+              {filtersActive && (
+                <button
+                  type="button"
+                  className="clear-filters"
+                  onClick={() => setFilters(DEFAULT_DISCOVERY_FILTERS)}
+                >
+                  Clear filters
+                </button>
+              )}
+            </div>
+          )}
         </div>
 
         {/* Loading State */}
@@ -138,6 +298,24 @@ export default function Home() {
           </div>
         )}
 
+        {/* No Matches State */}
+        {!isLoading && !isError && projects.length > 0 && filteredProjects.length === 0 && (
+          <div className="empty-state">
+            <div className="empty-icon">🔍</div>
+            <h3>{isAwaitingMetadata ? 'Loading project details...' : 'No Matching Projects'}</h3>
+            <p>
+              {isAwaitingMetadata
+                ? 'Project details are still being fetched from Walrus.'
+                : 'Try a different search term or clear the filters.'}
+            </p>
+            {!isAwaitingMetadata && (
+              <button className="btn btn-primary" onClick={() => setFilters(DEFAULT_DISCOVERY_FILTERS)}>
+                Clear Filters
+              </button>
+            )}
+          </div>
+        )}
+
         {/* Projects Grid */}
         {!isLoading && !isError && filteredProjects && filteredProjects.length > 0 && (
           <div className="projects-grid">
@@ -146,6 +324,22 @@ export default function Home() {
             ))}
           </div>
         )}
+
+        {/* Pagination */}
+        {!isLoading && !isError && hasNextPage && (
+          <div className="load-more" ref={loadMoreRef}>
+            {isFetchNextPageError && (
+              <p className="load-more-error">Failed to load more projects</p>
+            )}
+            <button
+              className="btn btn-secondary"
+              onClick={() => fetchNextPage()}
+              disabled={isFetchingNextPage}
+            >
+              {isFetchingNextPage ? 'Loading more projects...' : 'Load More'}
+            </button>
+          </div>
+        )}
       </section>
 
       {/* Stats Section */}
@@ -159,10 +353,7 @@ export default function Home() {
             </div>
             <div className="stat-card">
               <div className="stat-value">
-                {projects.reduce((sum, p) => {
-                  const current = parseInt(p.current_funding) / 1_000_000_000;
-                  return sum + current;
-                }, 0).toLocaleString(undefined, { maximumFractionDigits: 0 })}
+                {formatSui(sumMist(projects.map(p => p.current_funding)), { maximumFractionDigits: 0 })}
               </div>
               <div className="stat-label">SUI Raised</div>
             </div>
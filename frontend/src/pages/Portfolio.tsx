@@ -0,0 +1,257 @@
+/**
+ * Portfolio Page Component
+ *
+ * Lists every Contribution receipt the connected wallet owns, grouped by
+ * project, with the campaign's status and the actions open to a backer:
+ * reclaiming a refund, voting on open polls and leaving feedback.
+ */
+
+import { useMemo, useState } from 'react';
+import { Link } from 'react-router-dom';
+import { useCurrentAccount } from '@mysten/dapp-kit';
+import { useMyContributions } from '../hooks/useMyContributions';
+import { useProjectWithMetadata } from '../hooks/useProjects';
+import { useProjectPolls } from '../hooks/useProjectTabs';
+import { useReclaimFunds } from '../hooks/useFoundryMutations';
+import { useWalrusBlobUrl } from '../hooks/useWalrusBlobUrl';
+import { getErrorMessage, isConfirmationPending } from '../utils/moveErrors';
+import { getProjectStatus, getProjectStatusLabel } from '../utils/projectDiscovery';
+import { formatSui, percentOf } from '../utils/suiAmount';
+import WalletConnectButton from '../components/WalletConnectButton';
+import RefundCenter from '../components/RefundCenter';
+import type { Contribution, Project } from '../types/contract';
+import './Portfolio.css';
+
+interface PortfolioEntryProps {
+  projectId: string;
+  contributions: Contribution[];
+  amount: bigint;
+}
+
+interface BackerActionsProps {
+  project: Project;
+  contributions: Contribution[];
+  amount: bigint;
+}
+
+/**
+ * Actions open to a backer of one project
+ */
+function BackerActions({ project, contributions, amount }: BackerActionsProps) {
+  const reclaimFunds = useReclaimFunds(project);
+  const pollsQuery = useProjectPolls(project);
+  const [error, setError] = useState<string | null>(null);
+
+  const projectId = project.id.id;
+
+  // "Expired" means past the deadline, under the goal and not withdrawn
+  const canReclaim = getProjectStatus(project) === 'expired';
+
+  const openPolls = (pollsQuery.data?.polls ?? []).filter(
+    (poll) => !pollsQuery.data?.tallies[poll.id.id]?.has_voted
+  ).length;
+
+  const handleReclaim = async () => {
+    setError(null);
+
+    try {
+      console.log('🚀 Reclaiming funds for contributions:', contributions.length);
+
+      // One reclaim_funds call per contribution, in a single transaction
+      const outcome = await reclaimFunds.mutateAsync({ contributions, onRetry: handleReclaim });
+
+      console.log('✅ Reclaim successful:', outcome.digest);
+    } catch (error) {
+      console.error('❌ Reclaim error:', error);
+      setError(isConfirmationPending(error) ? getErrorMessage(error) : `Failed to reclaim funds: ${getErrorMessage(error)}`);
+    }
+  };
+
+  return (
+    <div className="portfolio-actions">
+      {canReclaim && (
+        <button
+          className="btn btn-secondary btn-sm"
+          onClick={handleReclaim}
+          disabled={reclaimFunds.isPending}
+        >
+          {reclaimFunds.isPending ? 'Reclaiming...' : `💸 Reclaim ${formatSui(amount)} SUI`}
+        </button>
+      )}
+
+      {openPolls > 0 && (
+        <Link to={`/project/${projectId}?tab=governance`} className="btn btn-primary btn-sm">
+          🗳️ Vote on {openPolls} open poll{openPolls === 1 ? '' : 's'}
+        </Link>
+      )}
+
+      <Link to={`/project/${projectId}?tab=feedback`} className="btn btn-secondary btn-sm">
+        💬 Leave feedback
+      </Link>
+
+      {error && <p className="portfolio-action-error">{error}</p>}
+    </div>
+  );
+}
+
+/**
+ * One backed project with the wallet's receipts for it
+ */
+function PortfolioEntry({ projectId, contributions, amount }: PortfolioEntryProps) {
+  const { project, metadata, isLoading } = useProjectWithMetadata(projectId);
+  const logoUrl = useWalrusBlobUrl(metadata?.logoCid);
+
+  const title = metadata?.name ?? `Project ${projectId.slice(0, 10)}...`;
+
+  if (isLoading) {
+    return (
+      <div className="portfolio-entry loading">
+        <span className="spinner"></span>
+        Loading project...
+      </div>
+    );
+  }
+
+  const status = project ? getProjectStatus(project) : null;
+
+  return (
+    <div className="portfolio-entry">
+      <div className="portfolio-entry-logo">
+        {logoUrl ? (
+          <img src={logoUrl} alt={title} />
+        ) : (
+          <span>🚀</span>
+        )}
+      </div>
+
+      <div className="portfolio-entry-body">
+        <div className="portfolio-entry-header">
+          <Link to={`/project/${projectId}`} className="portfolio-entry-title">
+            {title}
+          </Link>
+          {status && (
+            <span className={`portfolio-status ${status}`}>{getProjectStatusLabel(status)}</span>
+          )}
+        </div>
+
+        <div className="portfolio-entry-stats">
+          <span>
+            <strong>{formatSui(amount)} SUI</strong> contributed
+            {contributions.length > 1 && ` in ${contributions.length} contributions`}
+          </span>
+          {project && (
+            <span>
+              {formatSui(project.current_funding, { maximumFractionDigits: 2 })} /{' '}
+              {formatSui(project.funding_goal, { maximumFractionDigits: 2 })} SUI (
+              {percentOf(project.current_funding, project.funding_goal).toFixed(0)}%)
+            </span>
+          )}
+        </div>
+
+        {project ? (
+          <BackerActions project={project} contributions={contributions} amount={amount} />
+        ) : (
+          <p className="portfolio-action-error">Failed to load this project from Sui</p>
+        )}
+      </div>
+    </div>
+  );
+}
+
+export default function Portfolio() {
+  const account = useCurrentAccount();
+  const { data, isLoading, isError, error, refetch } = useMyContributions();
+
+  // Receipts grouped by project, largest contribution first
+  const entries = useMemo(() => {
+    const byProject = new Map<string, Contribution[]>();
+    for (const contribution of data?.contributions ?? []) {
+      byProject.set(contribution.project_id, [...(byProject.get(contribution.project_id) ?? []), contribution]);
+    }
+
+    return [...byProject.entries()]
+      .map(([projectId, contributions]) => ({
+        projectId,
+        contributions,
+        amount: data?.totalsByProject[projectId] ?? 0n,
+      }))
+      .sort((a, b) => (a.amount < b.amount ? 1 : a.amount > b.amount ? -1 : 0));
+  }, [data]);
+
+  if (!account) {
+    return (
+      <div className="portfolio-page">
+        <div className="empty-state">
+          <div className="empty-icon">👛</div>
+          <h3>Connect Your Wallet</h3>
+          <p>Connect a wallet to see the projects you have backed.</p>
+          <WalletConnectButton />
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="portfolio-page">
+      <div className="portfolio-header">
+        <h1>My Portfolio</h1>
+        <p>Every project you have backed, with your contributions and what you can do next.</p>
+      </div>
+
+      <RefundCenter />
+
+      {/* Summary */}
+      {data && entries.length > 0 && (
+        <div className="portfolio-summary">
+          <div className="portfolio-summary-stat">
+            <span className="stat-value">{formatSui(data.totalAmount, { maximumFractionDigits: 2 })} SUI</span>
+            <span className="stat-label">Total contributed</span>
+          </div>
+          <div className="portfolio-summary-stat">
+            <span className="stat-value">{entries.length}</span>
+            <span className="stat-label">Projects backed</span>
+          </div>
+          <div className="portfolio-summary-stat">
+            <span className="stat-value">{data.contributions.length}</span>
+            <span className="stat-label">Contribution receipts</span>
+          </div>
+        </div>
+      )}
+
+      {isLoading && (
+        <div className="loading-state">
+          <span className="spinner"></span>
+          Loading your contributions...
+        </div>
+      )}
+
+      {isError && (
+        <div className="error-state">
+          <div className="error-icon">❌</div>
+          <h3>Failed to load your contributions</h3>
+          <p>{error instanceof Error ? error.message : 'Unknown error occurred'}</p>
+          <button className="btn btn-primary" onClick={() => refetch()}>
+            Try Again
+          </button>
+        </div>
+      )}
+
+      {!isLoading && !isError && entries.length === 0 && (
+        <div className="empty-state">
+          <div className="empty-icon">🌱</div>
+          <h3>No Contributions Yet</h3>
+          <p>Projects you back will show up here.</p>
+          <Link to="/" className="btn btn-primary">
+            Discover Projects
+          </Link>
+        </div>
+      )}
+
+      <div className="portfolio-list">
+        {entries.map((entry) => (
+          <PortfolioEntry key={entry.projectId} {...entry} />
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -6,11 +6,14 @@
  */
 
 import { useState } from 'react';
-import { useParams, Link, useNavigate } from 'react-router-dom';
+import type { ReactNode } from 'react';
+import { useParams, Link, useNavigate, useSearchParams } from 'react-router-dom';
 import { useCurrentAccount } from '@mysten/dapp-kit';
 import { useProjectWithMetadata, useFundingProgress, useTimeRemaining } from '../hooks/useProjects';
-import { mistToSui } from '../config/constants';
-import { getWalrusUrl } from '../utils/walrusClient';
+import { useExplorerUrl } from '../hooks/useNetwork';
+import { useProjectEvents } from '../hooks/useProjectEvents';
+import { useWalrusBlobUrl } from '../hooks/useWalrusBlobUrl';
+import { formatSui, remainingMist } from '../utils/suiAmount';
 import { getCategoryLabel, formatDeadline } from '../utils/walrusSchemas';
 import FundingWidget from '../components/FundingWidget';
 import ClaimReclaimWidget from '../components/ClaimReclaimWidget';
@@ -21,19 +24,32 @@ import './ProjectDetail.css';
 
 type TabType = 'details' | 'updates' | 'backers' | 'comments' | 'jobs' | 'governance' | 'feedback';
 
+const TAB_TYPES: TabType[] = ['details', 'updates', 'backers', 'comments', 'jobs', 'governance', 'feedback'];
+
+const isTabType = (value: string | null): value is TabType => TAB_TYPES.includes(value as TabType);
+
 export default function ProjectDetail() {
   const { id } = useParams<{ id: string }>();
   const navigate = useNavigate();
   const account = useCurrentAccount();
-  const [activeTab, setActiveTab] = useState<TabType>('details');
+  const explorer = useExplorerUrl();
+  // Links can open a tab directly with ?tab= (e.g. from the portfolio)
+  const [searchParams] = useSearchParams();
+  const requestedTab = searchParams.get('tab');
+  const [activeTab, setActiveTab] = useState<TabType>(isTabType(requestedTab) ? requestedTab : 'details');
   const [isFundingModalOpen, setIsFundingModalOpen] = useState(false);
 
   // Fetch project and metadata
-  const { project, metadata, isLoading, isError, error, refetch } = useProjectWithMetadata(id);
+  const { project, metadata, isLoading, isError, error } = useProjectWithMetadata(id);
   
   // Calculate funding stats
   const fundingProgress = useFundingProgress(project);
   const timeRemaining = useTimeRemaining(project);
+  const logoUrl = useWalrusBlobUrl(metadata?.logoCid);
+  const avatarUrl = useWalrusBlobUrl(metadata?.creator?.avatarCid);
+
+  // Apply other users' contributions, votes and posts as they happen
+  const { isLive } = useProjectEvents(project?.id.id);
 
   // Loading state
   if (isLoading) {
@@ -64,12 +80,10 @@ export default function ProjectDetail() {
   }
 
   // Format amounts
-  const currentFunding = mistToSui(parseInt(project.current_funding));
-  const fundingGoal = mistToSui(parseInt(project.funding_goal));
-  const remainingAmount = fundingGoal - currentFunding;
+  const remainingAmount = remainingMist(project.funding_goal, project.current_funding);
 
   // Format deadline
-  const deadlineDate = new Date(parseInt(project.deadline));
+  const deadlineDate = new Date(Number(project.deadline));
   const isExpired = timeRemaining.expired;
   const isFunded = project.is_withdrawn;
 
@@ -96,10 +110,10 @@ export default function ProjectDetail() {
       <div className="project-hero">
         {/* Project Image */}
         <div className="project-image-container">
-          {metadata?.logoCid ? (
+          {logoUrl ? (
             <img 
-              src={getWalrusUrl(metadata.logoCid)} 
-              alt={metadata.name}
+              src={logoUrl} 
+              alt={metadata?.name}
               className="project-hero-image"
               onError={(e) => {
                 (e.target as HTMLImageElement).style.display = 'none';
@@ -255,9 +269,9 @@ export default function ProjectDetail() {
                     <h2>About the Creator</h2>
                     <div className="creator-details">
                       <div className="creator-header">
-                        {metadata.creator.avatarCid && (
+                        {avatarUrl && (
                           <img 
-                            src={getWalrusUrl(metadata.creator.avatarCid)}
+                            src={avatarUrl}
                             alt={metadata.creator.name}
                             className="creator-avatar"
                           />
@@ -373,33 +387,15 @@ export default function ProjectDetail() {
             )}
 
             {activeTab === 'jobs' && (
-              <JobsTab 
-                project={project} 
-                onSuccess={() => {
-                  // Refetch project data to update any changes
-                  refetch();
-                }}
-              />
+              <JobsTab project={project} />
             )}
 
             {activeTab === 'governance' && (
-              <GovernanceTab 
-                project={project} 
-                onSuccess={() => {
-                  // Refetch project data to update any changes
-                  refetch();
-                }}
-              />
+              <GovernanceTab project={project} />
             )}
 
             {activeTab === 'feedback' && (
-              <FeedbackTab 
-                project={project} 
-                onSuccess={() => {
-                  // Refetch project data to update any changes
-                  refetch();
-                }}
-              />
+              <FeedbackTab project={project} />
             )}
           </div>
         </div>
@@ -410,10 +406,15 @@ export default function ProjectDetail() {
           <div className="funding-card">
             <div className="funding-header">
               <div className="funding-amount">
-                <span className="amount">{currentFunding.toLocaleString(undefined, { maximumFractionDigits: 2 })}</span>
+                <span className="amount">{formatSui(project.current_funding, { maximumFractionDigits: 2 })}</span>
                 <span className="currency">SUI</span>
+                {isLive && (
+                  <span className="live-indicator" title="Updating as new contributions arrive">
+                    Live
+                  </span>
+                )}
               </div>
-              <p className="funding-label">raised of {fundingGoal.toLocaleString(undefined, { maximumFractionDigits: 2 })} SUI goal</p>
+              <p className="funding-label">raised of {formatSui(project.funding_goal, { maximumFractionDigits: 2 })} SUI goal</p>
             </div>
 
             {/* Progress Bar */}
@@ -431,12 +432,12 @@ export default function ProjectDetail() {
                 <div className="stat-label">Funded</div>
               </div>
               <div className="stat">
-                <div className="stat-value">{remainingAmount > 0 ? remainingAmount.toLocaleString(undefined, { maximumFractionDigits: 0 }) : 0}</div>
+                <div className="stat-value">{formatSui(remainingAmount, { maximumFractionDigits: 0 })}</div>
                 <div className="stat-label">SUI to go</div>
               </div>
               <div className="stat">
                 <div className="stat-value">
-                  {isExpired ? 'Ended' : formatDeadline(parseInt(project.deadline))}
+                  {isExpired ? 'Ended' : formatDeadline(Number(project.deadline))}
                 </div>
                 <div className="stat-label">Time Remaining</div>
               </div>
@@ -508,12 +509,16 @@ export default function ProjectDetail() {
 
             <div className="info-item">
               <span className="info-label">Project ID</span>
-              <span className="info-value mono">{id?.substring(0, 8)}...</span>
+              <ExplorerValue href={explorer.object(project.id.id)}>
+                {project.id.id.substring(0, 8)}...
+              </ExplorerValue>
             </div>
 
             <div className="info-item">
               <span className="info-label">Owner</span>
-              <span className="info-value mono">{project.owner.substring(0, 8)}...</span>
+              <ExplorerValue href={explorer.address(project.owner)}>
+                {project.owner.substring(0, 8)}...
+              </ExplorerValue>
             </div>
           </div>
 
@@ -536,24 +541,29 @@ export default function ProjectDetail() {
       </div>
 
       {/* Claim/Reclaim Widget */}
-      <ClaimReclaimWidget
-        project={project}
-        onSuccess={() => {
-          // Refetch project data to update funding stats
-          refetch();
-        }}
-      />
+      <ClaimReclaimWidget project={project} />
 
       {/* Funding Widget Modal */}
       <FundingWidget
         project={project}
         isOpen={isFundingModalOpen}
         onClose={() => setIsFundingModalOpen(false)}
-        onSuccess={() => {
-          // Refetch project data to update funding stats
-          refetch();
-        }}
       />
     </div>
   );
 }
+
+/**
+ * Monospace info value that links to the explorer when one is available
+ */
+function ExplorerValue({ href, children }: { href: string | null; children: ReactNode }) {
+  if (!href) {
+    return <span className="info-value mono">{children}</span>;
+  }
+
+  return (
+    <a className="info-value mono explorer-link" href={href} target="_blank" rel="noopener noreferrer">
+      {children} ↗
+    </a>
+  );
+}
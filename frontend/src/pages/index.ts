@@ -1,4 +1,5 @@
 export { default as Home } from './Home';
 export { default as ProjectDetail } from './ProjectDetail';
 export { default as CreateProject } from './CreateProject';
-
+export { default as Portfolio } from './Portfolio';
+export { default as Dashboard } from './Dashboard';
@@ -1,20 +1,31 @@
 /**
  * TypeScript types for Sui Move contract objects
+ * 
+ * u64 fields are decoded into bigint by utils/contractDecoders.ts
  */
 
+// Reference to an on-chain Table (entries are stored as dynamic fields)
+export interface TableRef {
+  id: string;
+  size: bigint;
+}
+
 // Project object from the smart contract
 export interface Project {
   id: {
     id: string;
   };
   owner: string;
-  funding_goal: string;
-  current_funding: string;
-  deadline: string;
+  funding_goal: bigint;
+  current_funding: bigint;
+  deadline: bigint;
   metadata_cid: string;
-  balance: string;
-  job_counter: string;
-  poll_counter: string;
+  balance: bigint;
+  contributors: TableRef;
+  jobs: TableRef;
+  polls: TableRef;
+  job_counter: bigint;
+  poll_counter: bigint;
   is_withdrawn: boolean;
 }
 
@@ -25,25 +36,32 @@ export interface Contribution {
   };
   project_id: string;
   backer_address: string;
-  amount: string;
+  amount: bigint;
 }
 
-// Job posting
+// Job posting (stored in the project's jobs table)
 export interface Job {
-  id: string;
+  id: bigint;
   title: string;
   description_cid: string;
 }
 
-// Poll for voting
+// Poll for voting (stored in the project's polls table)
 export interface Poll {
   id: {
     id: string;
   };
+  poll_id: bigint; // key in the project's polls table
   question: string;
   options: string[];
-  votes: Record<string, string>; // option_index -> vote_count
-  voters: Record<string, boolean>; // address -> has_voted
+  votes: TableRef; // option_index -> vote_count
+  voters: TableRef; // address -> has_voted
+}
+
+// Vote tally read from a poll's votes and voters tables
+export interface PollTally {
+  votes: bigint[]; // vote count per option index
+  has_voted: boolean; // whether the connected account already voted
 }
 
 // Feedback object
@@ -107,9 +125,9 @@ export interface ProjectCreatedEvent {
 
 export interface ContributionMadeEvent {
   project_id: string;
-  contribution_id: string;
-  backer: string;
+  contributor: string;
   amount: string;
+  total_funded: string;
 }
 
 export interface FundsWithdrawnEvent {
@@ -128,23 +146,27 @@ export interface JobPostedEvent {
   project_id: string;
   job_id: string;
   title: string;
+  description_cid: string;
 }
 
 export interface PollCreatedEvent {
   project_id: string;
   poll_id: string;
   question: string;
+  options_count: string;
 }
 
 export interface VoteCastEvent {
+  project_id: string;
   poll_id: string;
   voter: string;
   option_index: string;
+  new_vote_count: string;
 }
 
 export interface FeedbackSubmittedEvent {
-  project_id: string;
   feedback_id: string;
+  project_id: string;
   backer: string;
+  message_cid: string;
 }
-
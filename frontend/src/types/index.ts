@@ -10,7 +10,9 @@ export type {
   Contribution,
   Job,
   Poll,
+  PollTally,
   Feedback,
+  TableRef,
   ProjectCreatedEvent,
   ContributionMadeEvent,
   FundsWithdrawnEvent,
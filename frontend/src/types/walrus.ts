@@ -20,6 +20,22 @@ export type ProjectCategory =
   | 'charity'
   | 'other';
 
+// All project categories, in display order
+export const PROJECT_CATEGORIES: ProjectCategory[] = [
+  'technology',
+  'art',
+  'music',
+  'gaming',
+  'education',
+  'health',
+  'food',
+  'fashion',
+  'travel',
+  'business',
+  'charity',
+  'other',
+];
+
 // Work Types for Jobs
 export type WorkType = 'remote' | 'hybrid' | 'on_site';
 
@@ -309,17 +325,29 @@ export interface WalrusError {
  * Walrus Health Check
  * Health status of Walrus services
  */
+export type WalrusEndpointKind = 'publisher' | 'aggregator';
+
+export interface WalrusEndpointHealth {
+  url: string;
+  kind: WalrusEndpointKind;
+  // 'unknown' until the endpoint has been used or checked
+  status: 'healthy' | 'unhealthy' | 'unknown';
+  responseTime?: number; // Moving average, in milliseconds
+  lastCheck: number; // 0 if never checked
+  lastError?: string;
+}
+
+// Best endpoint of a service
+export interface WalrusServiceHealth {
+  status: WalrusEndpointHealth['status'];
+  responseTime?: number;
+  lastCheck: number;
+}
+
 export interface WalrusHealth {
-  publisher: {
-    status: 'healthy' | 'unhealthy';
-    responseTime?: number;
-    lastCheck: number;
-  };
-  aggregator: {
-    status: 'healthy' | 'unhealthy';
-    responseTime?: number;
-    lastCheck: number;
-  };
+  publisher: WalrusServiceHealth;
+  aggregator: WalrusServiceHealth;
+  endpoints: WalrusEndpointHealth[];
 }
 
 /**
@@ -0,0 +1,328 @@
+/**
+ * Contract Decoders
+ *
+ * Single place where Sui RPC objects are turned into the typed contract
+ * objects from types/contract.ts. Every decoder validates the Move type and
+ * the shape of each field, converts u64 strings into bigint and throws a
+ * ContractDecodeError naming the struct and field when something is off.
+ */
+
+import type { SuiObjectData, SuiObjectResponse } from '@mysten/sui/client';
+import type { Project, Contribution, Job, Poll, Feedback, TableRef } from '../types/contract';
+
+type MoveFields = Record<string, unknown>;
+
+type SuiObjectInput = SuiObjectResponse | SuiObjectData | null | undefined;
+
+/**
+ * Error thrown when an on-chain object does not match the expected Move struct
+ */
+export class ContractDecodeError extends Error {
+  readonly structName: string;
+  readonly detail: string;
+  readonly field?: string;
+  readonly objectId?: string;
+
+  constructor(structName: string, detail: string, options?: { field?: string; objectId?: string }) {
+    const location = options?.field ? `${structName}.${options.field}` : structName;
+    const object = options?.objectId ? ` (object ${options.objectId})` : '';
+    super(`Failed to decode ${location}${object}: ${detail}`);
+    this.name = 'ContractDecodeError';
+    this.structName = structName;
+    this.detail = detail;
+    this.field = options?.field;
+    this.objectId = options?.objectId;
+  }
+}
+
+// === Field Readers ===
+
+const ADDRESS_PATTERN = /^0x[0-9a-fA-F]{1,64}$/;
+const U64_PATTERN = /^\d+$/;
+const U64_MAX = 2n ** 64n - 1n;
+
+const isRecord = (value: unknown): value is MoveFields =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+/**
+ * Nested structs are returned as `{ type, fields }`; unwrap them
+ */
+const unwrapStruct = (value: unknown): unknown => {
+  if (isRecord(value) && typeof value.type === 'string' && isRecord(value.fields)) {
+    return value.fields;
+  }
+  return value;
+};
+
+const readField = (fields: MoveFields, structName: string, field: string): unknown => {
+  const value = fields[field];
+  if (value === undefined || value === null) {
+    throw new ContractDecodeError(structName, 'field is missing', { field });
+  }
+  return value;
+};
+
+const readU64 = (fields: MoveFields, structName: string, field: string): bigint => {
+  const value = readField(fields, structName, field);
+
+  const text = typeof value === 'number' && Number.isSafeInteger(value) ? String(value) : value;
+  if (typeof text !== 'string' || !U64_PATTERN.test(text)) {
+    throw new ContractDecodeError(structName, `expected a u64, got ${JSON.stringify(value)}`, { field });
+  }
+
+  const parsed = BigInt(text);
+  if (parsed > U64_MAX) {
+    throw new ContractDecodeError(structName, `value ${text} overflows u64`, { field });
+  }
+  return parsed;
+};
+
+const readString = (fields: MoveFields, structName: string, field: string): string => {
+  const value = readField(fields, structName, field);
+  if (typeof value !== 'string') {
+    throw new ContractDecodeError(structName, `expected a string, got ${typeof value}`, { field });
+  }
+  return value;
+};
+
+const readAddress = (fields: MoveFields, structName: string, field: string): string => {
+  const value = readString(fields, structName, field);
+  if (!ADDRESS_PATTERN.test(value)) {
+    throw new ContractDecodeError(structName, `expected an address, got "${value}"`, { field });
+  }
+  return value;
+};
+
+const readBool = (fields: MoveFields, structName: string, field: string): boolean => {
+  const value = readField(fields, structName, field);
+  if (typeof value !== 'boolean') {
+    throw new ContractDecodeError(structName, `expected a bool, got ${typeof value}`, { field });
+  }
+  return value;
+};
+
+const readUid = (fields: MoveFields, structName: string, field: string = 'id'): { id: string } => {
+  const value = readField(fields, structName, field);
+  if (!isRecord(value) || typeof value.id !== 'string' || !ADDRESS_PATTERN.test(value.id)) {
+    throw new ContractDecodeError(structName, 'expected a UID ({ id })', { field });
+  }
+  return { id: value.id };
+};
+
+const readStringVector = (fields: MoveFields, structName: string, field: string): string[] => {
+  const value = readField(fields, structName, field);
+  if (!Array.isArray(value) || value.some((item) => typeof item !== 'string')) {
+    throw new ContractDecodeError(structName, 'expected a vector<String>', { field });
+  }
+  return value as string[];
+};
+
+const readTable = (fields: MoveFields, structName: string, field: string): TableRef => {
+  const table = unwrapStruct(readField(fields, structName, field));
+  if (!isRecord(table)) {
+    throw new ContractDecodeError(structName, 'expected a Table', { field });
+  }
+
+  return {
+    id: readUid(table, `${structName}.${field}`).id,
+    size: readU64(table, `${structName}.${field}`, 'size'),
+  };
+};
+
+// === Object Access ===
+
+/**
+ * Accepts either a full object response or its `data`
+ */
+const resolveObject = (object: SuiObjectInput): { data?: SuiObjectData | null; error?: SuiObjectResponse['error'] } => {
+  if (!object) return {};
+  if ('objectId' in object) return { data: object };
+  return { data: object.data, error: object.error };
+};
+
+/**
+ * Extracts the Move fields of an object after checking its struct type
+ */
+const getMoveFields = (object: SuiObjectInput, structName: string): { objectId: string; fields: MoveFields } => {
+  const { data, error } = resolveObject(object);
+
+  if (error) {
+    throw new ContractDecodeError(structName, `object could not be loaded (${error.code})`);
+  }
+
+  if (!data) {
+    throw new ContractDecodeError(structName, 'object data is missing');
+  }
+
+  const { content, objectId } = data;
+
+  if (!content || content.dataType !== 'moveObject') {
+    throw new ContractDecodeError(structName, 'object content is missing (request it with showContent)', {
+      objectId,
+    });
+  }
+
+  if (!content.type.includes(`::foundry::${structName}`)) {
+    throw new ContractDecodeError(structName, `unexpected object type ${content.type}`, { objectId });
+  }
+
+  if (!isRecord(content.fields)) {
+    throw new ContractDecodeError(structName, 'object fields are not a struct', { objectId });
+  }
+
+  return { objectId, fields: content.fields };
+};
+
+/**
+ * Runs a decoder over an object's fields, attaching the object ID to any error
+ */
+const decodeObject = <T>(object: SuiObjectInput, structName: string, decode: (fields: MoveFields) => T): T => {
+  const { objectId, fields } = getMoveFields(object, structName);
+
+  try {
+    return decode(fields);
+  } catch (error) {
+    if (error instanceof ContractDecodeError && !error.objectId) {
+      throw new ContractDecodeError(error.structName, error.detail, { field: error.field, objectId });
+    }
+    throw error;
+  }
+};
+
+/**
+ * Reads a table entry (dynamic field `Field<K, V>`) and returns its key and value
+ */
+const getTableEntry = (object: SuiObjectInput, structName: string): { name: unknown; value: unknown } => {
+  const { data, error } = resolveObject(object);
+
+  if (error || !data?.content || data.content.dataType !== 'moveObject') {
+    throw new ContractDecodeError(structName, 'table entry could not be loaded', { objectId: data?.objectId });
+  }
+
+  if (!data.content.type.includes('::dynamic_field::Field<')) {
+    throw new ContractDecodeError(structName, `unexpected table entry type ${data.content.type}`, {
+      objectId: data.objectId,
+    });
+  }
+
+  const fields = data.content.fields;
+  if (!isRecord(fields) || !('name' in fields) || !('value' in fields)) {
+    throw new ContractDecodeError(structName, 'table entry has no name/value', { objectId: data.objectId });
+  }
+
+  return { name: fields.name, value: unwrapStruct(fields.value) };
+};
+
+// === Decoders ===
+
+/**
+ * Decodes a Project object
+ */
+export function decodeProject(object: SuiObjectInput): Project {
+  return decodeObject(object, 'Project', (fields) => ({
+    id: readUid(fields, 'Project'),
+    owner: readAddress(fields, 'Project', 'owner'),
+    funding_goal: readU64(fields, 'Project', 'funding_goal'),
+    current_funding: readU64(fields, 'Project', 'current_funding'),
+    deadline: readU64(fields, 'Project', 'deadline'),
+    metadata_cid: readString(fields, 'Project', 'metadata_cid'),
+    balance: readU64(fields, 'Project', 'balance'),
+    contributors: readTable(fields, 'Project', 'contributors'),
+    jobs: readTable(fields, 'Project', 'jobs'),
+    polls: readTable(fields, 'Project', 'polls'),
+    job_counter: readU64(fields, 'Project', 'job_counter'),
+    poll_counter: readU64(fields, 'Project', 'poll_counter'),
+    is_withdrawn: readBool(fields, 'Project', 'is_withdrawn'),
+  }));
+}
+
+/**
+ * Decodes a Contribution receipt object
+ */
+export function decodeContribution(object: SuiObjectInput): Contribution {
+  return decodeObject(object, 'Contribution', (fields) => ({
+    id: readUid(fields, 'Contribution'),
+    project_id: readAddress(fields, 'Contribution', 'project_id'),
+    backer_address: readAddress(fields, 'Contribution', 'backer_address'),
+    amount: readU64(fields, 'Contribution', 'amount'),
+  }));
+}
+
+/**
+ * Decodes a Feedback object
+ */
+export function decodeFeedback(object: SuiObjectInput): Feedback {
+  return decodeObject(object, 'Feedback', (fields) => ({
+    id: readUid(fields, 'Feedback'),
+    project_id: readAddress(fields, 'Feedback', 'project_id'),
+    backer_address: readAddress(fields, 'Feedback', 'backer_address'),
+    message_cid: readString(fields, 'Feedback', 'message_cid'),
+  }));
+}
+
+/**
+ * Decodes a Job from an entry of the project's jobs table
+ */
+export function decodeJob(entry: SuiObjectInput): Job {
+  const { value } = getTableEntry(entry, 'Job');
+  if (!isRecord(value)) {
+    throw new ContractDecodeError('Job', 'table value is not a struct');
+  }
+
+  return {
+    id: readU64(value, 'Job', 'id'),
+    title: readString(value, 'Job', 'title'),
+    description_cid: readString(value, 'Job', 'description_cid'),
+  };
+}
+
+/**
+ * Decodes a Poll from an entry of the project's polls table
+ */
+export function decodePoll(entry: SuiObjectInput): Poll {
+  const { name, value } = getTableEntry(entry, 'Poll');
+  if (!isRecord(value)) {
+    throw new ContractDecodeError('Poll', 'table value is not a struct');
+  }
+
+  return {
+    id: readUid(value, 'Poll'),
+    poll_id: readU64({ poll_id: name }, 'Poll', 'poll_id'),
+    question: readString(value, 'Poll', 'question'),
+    options: readStringVector(value, 'Poll', 'options'),
+    votes: readTable(value, 'Poll', 'votes'),
+    voters: readTable(value, 'Poll', 'voters'),
+  };
+}
+
+/**
+ * Decodes an entry of a `Table<u64, u64>` (e.g. a poll's vote counts)
+ */
+export function decodeU64TableEntry(entry: SuiObjectInput): { key: bigint; value: bigint } {
+  const { name, value } = getTableEntry(entry, 'Table<u64, u64>');
+  const fields = { key: name, value };
+
+  return {
+    key: readU64(fields, 'Table<u64, u64>', 'key'),
+    value: readU64(fields, 'Table<u64, u64>', 'value'),
+  };
+}
+
+/**
+ * Decodes a list of objects, skipping (and logging) the ones that fail
+ *
+ * Useful for list views where one malformed object should not hide the rest.
+ */
+export function decodeEach<T>(objects: SuiObjectInput[], decode: (object: SuiObjectInput) => T): T[] {
+  const decoded: T[] = [];
+
+  for (const object of objects) {
+    try {
+      decoded.push(decode(object));
+    } catch (error) {
+      console.warn('Skipping object that failed to decode:', error);
+    }
+  }
+
+  return decoded;
+}
@@ -0,0 +1,204 @@
+/**
+ * Foundry Transaction Builders
+ *
+ * One typed builder per entry function of the `foundry` Move module.
+ * Each builder appends a move call to an existing Transaction, so several
+ * calls can be combined into one programmable transaction block, and
+ * encodes the arguments in the order and with the types the contract
+ * expects (objects, u64 as bigint, String, vector<String>).
+ *
+ * Usage:
+ *   import * as foundryTx from '../utils/foundryTx';
+ *
+ *   const tx = new Transaction();
+ *   foundryTx.fundProject(tx, foundry, { projectId, amount: parseSui('5') });
+ */
+
+import type { Transaction, TransactionObjectArgument } from '@mysten/sui/transactions';
+import type { FoundryPackage } from '../config/deployments';
+
+// Only the move call targets are needed to build transactions
+export type FoundryTargets = Pick<FoundryPackage, 'functions'>;
+
+/**
+ * create_project(metadata_cid, funding_goal, deadline)
+ */
+export function createProject(
+  tx: Transaction,
+  foundry: FoundryTargets,
+  args: {
+    metadataCid: string;
+    // Funding goal in MIST
+    fundingGoal: bigint;
+    // Deadline as a Unix timestamp in milliseconds
+    deadline: bigint | number;
+  }
+) {
+  return tx.moveCall({
+    target: foundry.functions.CREATE_PROJECT,
+    arguments: [
+      tx.pure.string(args.metadataCid),  // metadata_cid: String
+      tx.pure.u64(args.fundingGoal),     // funding_goal: u64
+      tx.pure.u64(args.deadline),        // deadline: u64
+    ],
+  });
+}
+
+/**
+ * fund_project(project, payment)
+ *
+ * `payment` is either a coin already in the transaction or an amount in
+ * MIST, which is split from the gas coin.
+ */
+export function fundProject(
+  tx: Transaction,
+  foundry: FoundryTargets,
+  args: {
+    projectId: string;
+    payment: bigint | TransactionObjectArgument;
+  }
+) {
+  const payment = typeof args.payment === 'bigint'
+    ? tx.splitCoins(tx.gas, [tx.pure.u64(args.payment)])[0]
+    : args.payment;
+
+  return tx.moveCall({
+    target: foundry.functions.FUND_PROJECT,
+    arguments: [
+      tx.object(args.projectId),  // project: &mut Project
+      payment,                    // payment: Coin<SUI>
+    ],
+  });
+}
+
+/**
+ * fund_project for several projects
+ *
+ * Splits the gas coin into one coin per payment (amounts in MIST) with a
+ * single SplitCoins command, then funds each project with its coin.
+ */
+export function fundProjects(
+  tx: Transaction,
+  foundry: FoundryTargets,
+  payments: { projectId: string; amount: bigint }[]
+) {
+  const coins = tx.splitCoins(tx.gas, payments.map((payment) => tx.pure.u64(payment.amount)));
+
+  return payments.map((payment, index) =>
+    fundProject(tx, foundry, { projectId: payment.projectId, payment: coins[index] })
+  );
+}
+
+/**
+ * claim_funds(project)
+ */
+export function claimFunds(
+  tx: Transaction,
+  foundry: FoundryTargets,
+  args: { projectId: string }
+) {
+  return tx.moveCall({
+    target: foundry.functions.CLAIM_FUNDS,
+    arguments: [
+      tx.object(args.projectId),  // project: &mut Project
+    ],
+  });
+}
+
+/**
+ * reclaim_funds(project, contribution, clock)
+ *
+ * Consumes the Contribution receipt; the refund is sent to the sender.
+ */
+export function reclaimFunds(
+  tx: Transaction,
+  foundry: FoundryTargets,
+  args: { projectId: string; contributionId: string }
+) {
+  return tx.moveCall({
+    target: foundry.functions.RECLAIM_FUNDS,
+    arguments: [
+      tx.object(args.projectId),       // project: &mut Project
+      tx.object(args.contributionId),  // contribution: Contribution
+      tx.object.clock(),               // clock: &Clock
+    ],
+  });
+}
+
+/**
+ * post_job(project, title, description_cid)
+ */
+export function postJob(
+  tx: Transaction,
+  foundry: FoundryTargets,
+  args: { projectId: string; title: string; descriptionCid: string }
+) {
+  return tx.moveCall({
+    target: foundry.functions.POST_JOB,
+    arguments: [
+      tx.object(args.projectId),           // project: &mut Project
+      tx.pure.string(args.title),          // title: String
+      tx.pure.string(args.descriptionCid), // description_cid: String
+    ],
+  });
+}
+
+/**
+ * create_poll(project, question, options)
+ */
+export function createPoll(
+  tx: Transaction,
+  foundry: FoundryTargets,
+  args: { projectId: string; question: string; options: string[] }
+) {
+  return tx.moveCall({
+    target: foundry.functions.CREATE_POLL,
+    arguments: [
+      tx.object(args.projectId),                // project: &mut Project
+      tx.pure.string(args.question),            // question: String
+      tx.pure.vector('string', args.options),   // options: vector<String>
+    ],
+  });
+}
+
+/**
+ * vote_on_poll(project, poll_id, contribution, option_index)
+ */
+export function voteOnPoll(
+  tx: Transaction,
+  foundry: FoundryTargets,
+  args: {
+    projectId: string;
+    pollId: bigint;
+    contributionId: string;
+    optionIndex: number;
+  }
+) {
+  return tx.moveCall({
+    target: foundry.functions.VOTE_ON_POLL,
+    arguments: [
+      tx.object(args.projectId),       // project: &mut Project
+      tx.pure.u64(args.pollId),        // poll_id: u64
+      tx.object(args.contributionId),  // contribution: &Contribution
+      tx.pure.u64(args.optionIndex),   // option_index: u64
+    ],
+  });
+}
+
+/**
+ * submit_feedback(project, contribution, message_cid)
+ */
+export function submitFeedback(
+  tx: Transaction,
+  foundry: FoundryTargets,
+  args: { projectId: string; contributionId: string; messageCid: string }
+) {
+  return tx.moveCall({
+    target: foundry.functions.SUBMIT_FEEDBACK,
+    arguments: [
+      tx.object(args.projectId),       // project: &Project
+      tx.object(args.contributionId),  // contribution: &Contribution
+      tx.pure.string(args.messageCid), // message_cid: String
+    ],
+  });
+}
@@ -0,0 +1,96 @@
+/**
+ * Funding Cart Store
+ *
+ * App-wide list of contributions a backer has picked but not yet paid,
+ * checked out together in one transaction. Like the notification store
+ * it lives outside React, so the cart survives route changes while the
+ * backer browses projects; components read it with useFundingCart.
+ *
+ * Usage:
+ *   addToCart(projectId, parseSui('5'));
+ *   removeFromCart(projectId);
+ */
+
+import { parseSui } from './suiAmount';
+
+// Per-contribution funding limits (in MIST)
+export const MIN_FUNDING_MIST = parseSui('0.01');
+export const MAX_FUNDING_MIST = parseSui('10000');
+
+export interface CartItem {
+  projectId: string;
+  // Amount to fund, in MIST
+  amount: bigint;
+  addedAt: number;
+}
+
+let items: CartItem[] = [];
+const listeners = new Set<() => void>();
+
+const emit = () => {
+  listeners.forEach((listener) => listener());
+};
+
+/**
+ * Checks a funding amount against the per-contribution limits
+ *
+ * Returns the message to show, or null when the amount is valid.
+ */
+export function validateFundingAmount(amount: bigint | null): string | null {
+  if (amount === null || amount <= 0n) {
+    return 'Please enter a valid amount';
+  }
+
+  if (amount < MIN_FUNDING_MIST) {
+    return 'Minimum funding amount is 0.01 SUI';
+  }
+
+  if (amount > MAX_FUNDING_MIST) {
+    return 'Maximum funding amount is 10,000 SUI per transaction';
+  }
+
+  return null;
+}
+
+/**
+ * Adds a project to the cart, replacing the amount if it is already in it
+ */
+export function addToCart(projectId: string, amount: bigint): void {
+  const existing = items.find((item) => item.projectId === projectId);
+
+  items = existing
+    ? items.map((item) => (item === existing ? { ...item, amount } : item))
+    : [...items, { projectId, amount, addedAt: Date.now() }];
+  emit();
+}
+
+/**
+ * Removes a project from the cart
+ */
+export function removeFromCart(projectId: string): void {
+  if (!items.some((item) => item.projectId === projectId)) return;
+
+  items = items.filter((item) => item.projectId !== projectId);
+  emit();
+}
+
+/**
+ * Empties the cart
+ */
+export function clearCart(): void {
+  if (items.length === 0) return;
+
+  items = [];
+  emit();
+}
+
+export function getCartItems(): CartItem[] {
+  return items;
+}
+
+export function subscribeToCart(listener: () => void): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
@@ -0,0 +1,125 @@
+/**
+ * Indexer Client
+ *
+ * Reads the off-chain indexer (the `indexer/` package) when one is
+ * configured with VITE_INDEXER_URL. The indexer answers queries the
+ * fullnode can only serve by scanning global events: projects by page
+ * (in any gallery order and by status), feedback by project and the
+ * events of one project.
+ *
+ * It only returns object IDs and events; callers still read the objects
+ * from the fullnode, so the data shown is never staler than the chain. Every
+ * function throws when the indexer is unreachable, and callers fall back
+ * to RPC.
+ */
+
+import type { ProjectSortMode, ProjectStatus } from './projectDiscovery';
+
+// Give up on the indexer quickly; the RPC fallback is always available
+const INDEXER_TIMEOUT_MS = 5_000;
+
+/**
+ * Page of project IDs, newest first unless another order was requested
+ */
+export interface IndexedProjectIdsPage {
+  projectIds: string[];
+  // Opaque cursor to pass back for the next page
+  nextCursor: string | null;
+  hasNextPage: boolean;
+}
+
+const fetchIndexer = async <T>(indexerUrl: string, path: string): Promise<T> => {
+  const response = await fetch(`${indexerUrl.replace(/\/$/, '')}${path}`, {
+    signal: AbortSignal.timeout(INDEXER_TIMEOUT_MS),
+  });
+
+  if (!response.ok) {
+    throw new Error(`Indexer request failed: ${response.status} ${path}`);
+  }
+
+  return response.json() as Promise<T>;
+};
+
+/**
+ * Fetches a page of project IDs
+ */
+export async function fetchIndexedProjectIds(
+  indexerUrl: string,
+  options: {
+    cursor?: string | null;
+    limit: number;
+    owner?: string;
+    sort?: ProjectSortMode;
+    statuses?: ProjectStatus[];
+  }
+): Promise<IndexedProjectIdsPage> {
+  const params = new URLSearchParams({ limit: String(options.limit) });
+  if (options.cursor) params.set('cursor', options.cursor);
+  if (options.owner) params.set('owner', options.owner);
+  if (options.sort && options.sort !== 'newest') params.set('sort', options.sort);
+  if (options.statuses?.length) params.set('status', options.statuses.join(','));
+
+  const page = await fetchIndexer<{ data: { id: string }[]; nextCursor: string | null; hasNextPage: boolean }>(
+    indexerUrl,
+    `/projects?${params}`
+  );
+
+  return {
+    projectIds: page.data.map((project) => project.id),
+    nextCursor: page.nextCursor,
+    hasNextPage: page.hasNextPage,
+  };
+}
+
+/**
+ * Fetches the IDs of the feedback submitted on a project, newest first
+ */
+export async function fetchIndexedFeedbackIds(indexerUrl: string, projectId: string): Promise<string[]> {
+  const feedback = await fetchIndexer<{ id: string }[]>(
+    indexerUrl,
+    `/projects/${encodeURIComponent(projectId)}/feedback`
+  );
+
+  return feedback.map((entry) => entry.id);
+}
+
+/**
+ * Foundry event naming a project
+ */
+export interface IndexedProjectEvent {
+  // Event struct name, e.g. "ContributionMade"
+  eventType: string;
+  parsedJson: Record<string, string>;
+  timestampMs: number;
+}
+
+/**
+ * Fetches the events of a project after a cursor, oldest first
+ *
+ * Without a cursor, returns no events and the cursor of the latest one,
+ * so the project can be followed from now.
+ */
+export async function fetchIndexedProjectEvents(
+  indexerUrl: string,
+  projectId: string,
+  options: { after?: string | null; limit: number }
+): Promise<{ events: IndexedProjectEvent[]; cursor: string; hasNextPage: boolean }> {
+  const params = new URLSearchParams({ limit: String(options.limit) });
+  if (options.after) params.set('after', options.after);
+
+  const page = await fetchIndexer<{
+    data: { event_type: string; payload: Record<string, string>; created_at: number }[];
+    cursor: string;
+    hasNextPage: boolean;
+  }>(indexerUrl, `/projects/${encodeURIComponent(projectId)}/events?${params}`);
+
+  return {
+    events: page.data.map((event) => ({
+      eventType: event.event_type,
+      parsedJson: event.payload,
+      timestampMs: event.created_at,
+    })),
+    cursor: page.cursor,
+    hasNextPage: page.hasNextPage,
+  };
+}
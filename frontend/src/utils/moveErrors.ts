@@ -0,0 +1,170 @@
+/**
+ * Move Error Decoding
+ *
+ * Turns the raw errors returned by execution, dry-run and wallets
+ * (e.g. `MoveAbort(MoveLocation { module: ModuleId { address: 0x…,
+ * name: Identifier("foundry") }, … }, 2) in command 1`) into typed errors
+ * with a message that can be shown to users as-is.
+ */
+
+// Abort codes of the foundry module (see foundry/sources/foundry.move)
+export type FoundryErrorName =
+  | 'EInvalidFundingGoal'
+  | 'EDeadlinePassed'
+  | 'ENotProjectOwner'
+  | 'EFundingGoalNotMet'
+  | 'EProjectAlreadyFunded'
+  | 'EInsufficientFunds'
+  | 'EDeadlineNotPassed'
+  | 'EFundingGoalMet'
+  | 'EInvalidContribution'
+  | 'EPollNotFound'
+  | 'EInvalidOption'
+  | 'EAlreadyVoted';
+
+export const FOUNDRY_ABORT_CODES: Record<number, { name: FoundryErrorName; message: string }> = {
+  1: { name: 'EInvalidFundingGoal', message: 'The funding goal must be greater than zero' },
+  2: { name: 'EDeadlinePassed', message: "This campaign's deadline has passed" },
+  3: { name: 'ENotProjectOwner', message: 'Only the project owner can do this' },
+  4: { name: 'EFundingGoalNotMet', message: 'The funding goal has not been reached yet' },
+  5: { name: 'EProjectAlreadyFunded', message: 'The funds of this project have already been claimed' },
+  6: { name: 'EInsufficientFunds', message: 'The contribution amount must be greater than zero' },
+  7: { name: 'EDeadlineNotPassed', message: "This campaign's deadline has not passed yet" },
+  8: { name: 'EFundingGoalMet', message: 'This campaign reached its goal, so contributions cannot be refunded' },
+  9: { name: 'EInvalidContribution', message: 'This contribution does not belong to this project or to you' },
+  10: { name: 'EPollNotFound', message: 'This poll does not exist' },
+  11: { name: 'EInvalidOption', message: 'This poll option does not exist' },
+  12: { name: 'EAlreadyVoted', message: 'You already voted on this poll' },
+};
+
+/**
+ * Location and code of a Move abort
+ */
+export interface MoveAbortInfo {
+  moduleAddress: string;
+  moduleName: string;
+  functionName: string | null;
+  abortCode: number;
+  // Index of the PTB command that aborted, when reported
+  command: number | null;
+}
+
+/**
+ * Error raised by an abort in the foundry module
+ */
+export class FoundryError extends Error {
+  readonly code: FoundryErrorName;
+  readonly abortCode: number;
+  readonly functionName: string | null;
+  readonly rawMessage: string;
+
+  constructor(abort: MoveAbortInfo, rawMessage: string) {
+    const known = FOUNDRY_ABORT_CODES[abort.abortCode];
+    super(known.message);
+    this.name = 'FoundryError';
+    this.code = known.name;
+    this.abortCode = abort.abortCode;
+    this.functionName = abort.functionName;
+    this.rawMessage = rawMessage;
+  }
+}
+
+/**
+ * Error raised by a failure the user can act on (gas, wallet rejection, ...)
+ *
+ * 'confirmation_pending' is not a failure: the transaction was submitted
+ * but its finality could not be checked, so it may still succeed.
+ */
+export class TransactionError extends Error {
+  readonly reason: 'rejected' | 'insufficient_gas' | 'object_unavailable' | 'move_abort' | 'confirmation_pending';
+  readonly rawMessage: string;
+
+  constructor(reason: TransactionError['reason'], message: string, rawMessage: string) {
+    super(message);
+    this.name = 'TransactionError';
+    this.reason = reason;
+    this.rawMessage = rawMessage;
+  }
+}
+
+const MOVE_ABORT_PATTERN =
+  /MoveAbort\(MoveLocation \{ module: ModuleId \{ address: (0x)?([0-9a-fA-F]+), name: Identifier\("(\w+)"\) \}(?:.*?function_name: Some\("(\w+)"\))?.*?\}, (\d+)\)(?: in command (\d+))?/;
+
+/**
+ * Extracts the location and code of a Move abort from an error string
+ */
+export function parseMoveAbort(message: string): MoveAbortInfo | null {
+  const match = MOVE_ABORT_PATTERN.exec(message);
+  if (!match) return null;
+
+  const [, , address, moduleName, functionName, abortCode, command] = match;
+
+  return {
+    moduleAddress: `0x${address}`,
+    moduleName,
+    functionName: functionName ?? null,
+    abortCode: Number(abortCode),
+    command: command !== undefined ? Number(command) : null,
+  };
+}
+
+const getRawMessage = (error: unknown): string => {
+  if (error instanceof Error) return error.message;
+  if (typeof error === 'string') return error;
+  return 'An unknown error occurred';
+};
+
+/**
+ * Maps any transaction error to a typed error with a readable message
+ *
+ * Errors that are already decoded, and unknown errors, are returned as-is.
+ */
+export function decodeTransactionError(error: unknown): Error {
+  if (error instanceof FoundryError || error instanceof TransactionError) {
+    return error;
+  }
+
+  const rawMessage = getRawMessage(error);
+  const abort = parseMoveAbort(rawMessage);
+
+  if (abort) {
+    if (abort.moduleName === 'foundry' && FOUNDRY_ABORT_CODES[abort.abortCode]) {
+      return new FoundryError(abort, rawMessage);
+    }
+
+    const location = abort.functionName ? `${abort.moduleName}::${abort.functionName}` : abort.moduleName;
+    return new TransactionError('move_abort', `The transaction was aborted by ${location} (code ${abort.abortCode})`, rawMessage);
+  }
+
+  if (/reject/i.test(rawMessage)) {
+    return new TransactionError('rejected', 'You rejected the transaction in your wallet', rawMessage);
+  }
+
+  if (/InsufficientGas|GasBalanceTooLow|InsufficientCoinBalance|No valid gas coins/i.test(rawMessage)) {
+    return new TransactionError('insufficient_gas', 'Your wallet does not have enough SUI to pay for this transaction', rawMessage);
+  }
+
+  if (/ObjectNotFound|deleted|is not available for consumption|ObjectVersionUnavailable/i.test(rawMessage)) {
+    return new TransactionError(
+      'object_unavailable',
+      'This object changed or no longer exists. Refresh the page and try again',
+      rawMessage
+    );
+  }
+
+  return error instanceof Error ? error : new Error(rawMessage);
+}
+
+/**
+ * Gets a user-facing message for any transaction error
+ */
+/**
+ * Whether a submitted transaction may still succeed (see TransactionError)
+ */
+export function isConfirmationPending(error: unknown): boolean {
+  return error instanceof TransactionError && error.reason === 'confirmation_pending';
+}
+
+export function getErrorMessage(error: unknown): string {
+  return decodeTransactionError(error).message;
+}
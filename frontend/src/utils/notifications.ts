@@ -0,0 +1,154 @@
+/**
+ * Notification Store
+ *
+ * App-wide queue of toast notifications for transaction and storage
+ * outcomes. The store lives outside React so it survives route changes
+ * and can be fed from hooks and plain async code alike; components read
+ * it with useNotifications and NotificationCenter renders it.
+ *
+ * Usage:
+ *   notify({ kind: 'success', title: 'Project funded', digest, explorerUrl });
+ *   notify({ kind: 'error', title: 'Upload failed', message, action: { label: 'Retry', onClick: retry } });
+ */
+
+export type NotificationKind = 'success' | 'error' | 'info';
+
+/**
+ * Button shown on a notification, e.g. to retry a failed action
+ */
+export interface NotificationAction {
+  label: string;
+  onClick: () => void;
+}
+
+export interface Notification {
+  id: number;
+  kind: NotificationKind;
+  title: string;
+  message?: string;
+  // Transaction digest and its explorer link, resolved when notified so
+  // the link stays on the right network after a switch
+  digest?: string;
+  explorerUrl?: string | null;
+  action?: NotificationAction;
+  createdAt: number;
+  // Milliseconds before auto-dismissal; null keeps it until dismissed
+  timeout: number | null;
+}
+
+export type NotificationInput = Omit<Notification, 'id' | 'createdAt' | 'timeout'> & {
+  timeout?: number | null;
+};
+
+// Errors stay until dismissed so users can read them and retry
+const DEFAULT_TIMEOUTS: Record<NotificationKind, number | null> = {
+  success: 6_000,
+  info: 4_000,
+  error: null,
+};
+
+// Oldest notifications are dropped beyond this
+const MAX_NOTIFICATIONS = 20;
+
+let notifications: Notification[] = [];
+let nextId = 1;
+const listeners = new Set<() => void>();
+const timers = new Map<number, ReturnType<typeof setTimeout>>();
+
+const emit = () => {
+  listeners.forEach((listener) => listener());
+};
+
+/**
+ * Adds a notification to the queue and returns its ID
+ */
+export function notify(input: NotificationInput): number {
+  const notification: Notification = {
+    ...input,
+    id: nextId++,
+    createdAt: Date.now(),
+    timeout: input.timeout !== undefined ? input.timeout : DEFAULT_TIMEOUTS[input.kind],
+  };
+
+  const queue = [...notifications, notification];
+  notifications = queue.slice(-MAX_NOTIFICATIONS);
+
+  // Dropped notifications no longer need their auto-dismiss timers
+  for (const evicted of queue.slice(0, -MAX_NOTIFICATIONS)) {
+    clearTimeout(timers.get(evicted.id));
+    timers.delete(evicted.id);
+  }
+
+  if (notification.timeout !== null) {
+    timers.set(
+      notification.id,
+      setTimeout(() => dismissNotification(notification.id), notification.timeout)
+    );
+  }
+
+  emit();
+  return notification.id;
+}
+
+/**
+ * Removes a notification from the queue
+ */
+export function dismissNotification(id: number): void {
+  const timer = timers.get(id);
+  if (timer) {
+    clearTimeout(timer);
+    timers.delete(id);
+  }
+
+  if (!notifications.some((notification) => notification.id === id)) return;
+
+  notifications = notifications.filter((notification) => notification.id !== id);
+  emit();
+}
+
+/**
+ * Removes every notification
+ */
+export function clearNotifications(): void {
+  timers.forEach((timer) => clearTimeout(timer));
+  timers.clear();
+  notifications = [];
+  emit();
+}
+
+export function getNotifications(): Notification[] {
+  return notifications;
+}
+
+export function subscribeToNotifications(listener: () => void): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+/**
+ * Awaits a Walrus upload and posts its outcome as a notification
+ *
+ * Resolves or rejects like the upload itself, so callers keep their own
+ * error handling; `onRetry` is offered on the failure notification.
+ */
+export async function notifyUpload<T extends { cid: string }>(
+  label: string,
+  upload: Promise<T>,
+  onRetry?: () => void
+): Promise<T> {
+  try {
+    const result = await upload;
+    notify({ kind: 'info', title: `${label} stored on Walrus`, message: `Blob ID: ${result.cid}` });
+    return result;
+  } catch (error) {
+    notify({
+      kind: 'error',
+      title: `${label} upload failed`,
+      message: error instanceof Error ? error.message : 'An unknown error occurred',
+      action: onRetry ? { label: 'Retry', onClick: onRetry } : undefined,
+    });
+    throw error;
+  }
+}
@@ -0,0 +1,301 @@
+/**
+ * Project Discovery Utilities
+ *
+ * Helper functions for filtering and sorting projects on the Home gallery
+ * using their Walrus metadata (category, tags, creator and text search)
+ * and their on-chain state (status, deadline and funding)
+ */
+
+import type { Project } from '../types/contract';
+import type { ProjectCategory, ProjectMetadata } from '../types/walrus';
+
+// Campaign status derived from on-chain project state
+export type ProjectStatus = 'active' | 'goal_reached' | 'expired' | 'withdrawn';
+
+// Sort modes for the project gallery
+export type ProjectSortMode = 'newest' | 'ending_soon' | 'most_funded' | 'closest_to_goal' | 'percent_funded';
+
+export const PROJECT_STATUSES: ProjectStatus[] = ['active', 'goal_reached', 'expired', 'withdrawn'];
+
+export const PROJECT_SORT_MODES: ProjectSortMode[] = [
+  'newest',
+  'ending_soon',
+  'most_funded',
+  'closest_to_goal',
+  'percent_funded',
+];
+
+/**
+ * Filters applied to the project gallery
+ */
+export interface ProjectDiscoveryFilters {
+  category: ProjectCategory | 'all';
+  tags: string[];
+  creator: string;
+  query: string;
+  statuses: ProjectStatus[];
+}
+
+export const DEFAULT_DISCOVERY_FILTERS: ProjectDiscoveryFilters = {
+  category: 'all',
+  tags: [],
+  creator: '',
+  query: '',
+  statuses: [],
+};
+
+/**
+ * Gets the campaign status of a project
+ *
+ * A project that reached its goal stays "goal reached" after the
+ * deadline until the owner withdraws; "expired" means refundable.
+ */
+export function getProjectStatus(project: Project, now: number = Date.now()): ProjectStatus {
+  if (project.is_withdrawn) return 'withdrawn';
+
+  if (project.current_funding >= project.funding_goal) {
+    return 'goal_reached';
+  }
+
+  return now > Number(project.deadline) ? 'expired' : 'active';
+}
+
+/**
+ * Gets a human-readable label for a project status
+ */
+export function getProjectStatusLabel(status: ProjectStatus): string {
+  const labels: Record<ProjectStatus, string> = {
+    active: 'Active',
+    goal_reached: 'Goal Reached',
+    expired: 'Expired / Refundable',
+    withdrawn: 'Withdrawn',
+  };
+
+  return labels[status];
+}
+
+/**
+ * Gets a human-readable label for a sort mode
+ */
+export function getSortModeLabel(mode: ProjectSortMode): string {
+  const labels: Record<ProjectSortMode, string> = {
+    newest: 'Newest',
+    ending_soon: 'Ending Soon',
+    most_funded: 'Most Funded',
+    closest_to_goal: 'Closest to Goal',
+    percent_funded: '% Funded',
+  };
+
+  return labels[mode];
+}
+
+/**
+ * Splits text into lowercase search tokens
+ */
+export function tokenize(text: string): string[] {
+  return text
+    .toLowerCase()
+    .split(/[^\p{L}\p{N}]+/u)
+    .filter(token => token.length > 0);
+}
+
+/**
+ * Normalizes a tag for comparison
+ */
+export function normalizeTag(tag: string): string {
+  return tag.trim().toLowerCase();
+}
+
+/**
+ * Checks whether any metadata-based filter is active
+ */
+export function hasMetadataFilters(filters: ProjectDiscoveryFilters): boolean {
+  return (
+    filters.category !== 'all' ||
+    filters.tags.length > 0 ||
+    filters.creator.trim().length > 0 ||
+    filters.query.trim().length > 0
+  );
+}
+
+/**
+ * Checks whether any filter is active
+ */
+export function hasActiveFilters(filters: ProjectDiscoveryFilters): boolean {
+  return hasMetadataFilters(filters) || filters.statuses.length > 0;
+}
+
+/**
+ * Checks whether a project's metadata matches the given filters
+ *
+ * Every query token must prefix-match a token from the project's
+ * name or description, and every selected tag must be present.
+ */
+export function matchesDiscoveryFilters(
+  metadata: ProjectMetadata,
+  filters: ProjectDiscoveryFilters
+): boolean {
+  if (filters.category !== 'all' && metadata.category !== filters.category) {
+    return false;
+  }
+
+  if (filters.tags.length > 0) {
+    const projectTags = new Set(metadata.tags.map(normalizeTag));
+    if (!filters.tags.every(tag => projectTags.has(normalizeTag(tag)))) {
+      return false;
+    }
+  }
+
+  const creator = filters.creator.trim().toLowerCase();
+  if (creator && !metadata.creator.name.toLowerCase().includes(creator)) {
+    return false;
+  }
+
+  const queryTokens = tokenize(filters.query);
+  if (queryTokens.length > 0) {
+    const textTokens = tokenize(`${metadata.name} ${metadata.description}`);
+    const matchesAll = queryTokens.every(queryToken =>
+      textTokens.some(textToken => textToken.startsWith(queryToken))
+    );
+    if (!matchesAll) return false;
+  }
+
+  return true;
+}
+
+/**
+ * Filters projects by status and metadata
+ *
+ * Projects whose metadata is not available are only kept when no
+ * metadata filter is active. Only the projects passed in are filtered;
+ * with an indexer, useSortedProjects filters the whole list by status.
+ */
+export function filterProjects(
+  projects: Project[],
+  metadataByCid: Record<string, ProjectMetadata | null | undefined>,
+  filters: ProjectDiscoveryFilters,
+  now: number = Date.now()
+): Project[] {
+  if (!hasActiveFilters(filters)) return projects;
+
+  const metadataFiltersActive = hasMetadataFilters(filters);
+
+  return projects.filter(project => {
+    if (filters.statuses.length > 0 && !filters.statuses.includes(getProjectStatus(project, now))) {
+      return false;
+    }
+
+    if (!metadataFiltersActive) return true;
+
+    const metadata = metadataByCid[project.metadata_cid];
+    return metadata ? matchesDiscoveryFilters(metadata, filters) : false;
+  });
+}
+
+/**
+ * Counts projects per status, for facet labels
+ */
+export function countProjectsByStatus(
+  projects: Project[],
+  now: number = Date.now()
+): Record<ProjectStatus, number> {
+  const counts: Record<ProjectStatus, number> = {
+    active: 0,
+    goal_reached: 0,
+    expired: 0,
+    withdrawn: 0,
+  };
+
+  for (const project of projects) {
+    counts[getProjectStatus(project, now)] += 1;
+  }
+
+  return counts;
+}
+
+// Funded ratio in basis points (10000 = 100%), computed without losing precision
+const fundedBasisPoints = (project: Project): bigint => {
+  const goal = project.funding_goal;
+  if (goal === 0n) return 0n;
+  return (project.current_funding * 10_000n) / goal;
+};
+
+const compareBigInt = (a: bigint, b: bigint): number => (a < b ? -1 : a > b ? 1 : 0);
+
+/**
+ * Sorts projects for display
+ *
+ * Projects are expected in newest-first order (the order in which
+ * useAllProjects returns them); ties keep that order. Only the projects
+ * passed in are sorted; with an indexer, useSortedProjects sorts the
+ * whole list in the same orders.
+ */
+export function sortProjects(
+  projects: Project[],
+  mode: ProjectSortMode,
+  now: number = Date.now()
+): Project[] {
+  if (mode === 'newest') return projects;
+
+  const sorted = [...projects];
+
+  switch (mode) {
+    case 'ending_soon':
+      // Open campaigns first, soonest deadline first; closed campaigns last
+      sorted.sort((a, b) => {
+        const aOpen = getProjectStatus(a, now) === 'active' ? 0 : 1;
+        const bOpen = getProjectStatus(b, now) === 'active' ? 0 : 1;
+        if (aOpen !== bOpen) return aOpen - bOpen;
+        return compareBigInt(a.deadline, b.deadline);
+      });
+      break;
+    case 'most_funded':
+      sorted.sort((a, b) => compareBigInt(b.current_funding, a.current_funding));
+      break;
+    case 'closest_to_goal':
+      // Smallest remaining amount first; projects that reached their goal last
+      sorted.sort((a, b) => {
+        const aRemaining = a.funding_goal - a.current_funding;
+        const bRemaining = b.funding_goal - b.current_funding;
+        const aReached = aRemaining <= 0n ? 1 : 0;
+        const bReached = bRemaining <= 0n ? 1 : 0;
+        if (aReached !== bReached) return aReached - bReached;
+        return compareBigInt(aRemaining, bRemaining);
+      });
+      break;
+    case 'percent_funded':
+      sorted.sort((a, b) => compareBigInt(fundedBasisPoints(b), fundedBasisPoints(a)));
+      break;
+  }
+
+  return sorted;
+}
+
+/**
+ * Collects the most used tags across the loaded projects
+ */
+export function getPopularTags(
+  metadataList: Array<ProjectMetadata | null | undefined>,
+  limit: number = 12
+): string[] {
+  const counts = new Map<string, { tag: string; count: number }>();
+
+  for (const metadata of metadataList) {
+    if (!metadata) continue;
+    for (const tag of metadata.tags) {
+      const key = normalizeTag(tag);
+      if (!key) continue;
+      const entry = counts.get(key);
+      if (entry) {
+        entry.count += 1;
+      } else {
+        counts.set(key, { tag: tag.trim(), count: 1 });
+      }
+    }
+  }
+
+  return [...counts.values()]
+    .sort((a, b) => b.count - a.count || a.tag.localeCompare(b.tag))
+    .slice(0, limit)
+    .map(entry => entry.tag);
+}
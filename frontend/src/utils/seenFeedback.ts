@@ -0,0 +1,46 @@
+/**
+ * Seen Feedback
+ *
+ * Feedback has no on-chain read state, so the IDs a project owner has
+ * already seen are remembered per project in localStorage. The creator
+ * dashboard counts the rest as unread.
+ */
+
+const storageKey = (projectId: string) => `foundry:seen-feedback:${projectId}`;
+
+/**
+ * Gets the IDs of the feedback already seen on a project
+ */
+export function getSeenFeedbackIds(projectId: string): Set<string> {
+  try {
+    const stored = JSON.parse(localStorage.getItem(storageKey(projectId)) ?? '[]');
+    return new Set(Array.isArray(stored) ? stored.filter((id): id is string => typeof id === 'string') : []);
+  } catch {
+    // localStorage can be unavailable (private mode) or hold invalid JSON
+    return new Set();
+  }
+}
+
+/**
+ * Marks feedback of a project as seen
+ */
+export function markFeedbackSeen(projectId: string, feedbackIds: string[]) {
+  const seen = getSeenFeedbackIds(projectId);
+  if (feedbackIds.every((id) => seen.has(id))) return;
+
+  feedbackIds.forEach((id) => seen.add(id));
+
+  try {
+    localStorage.setItem(storageKey(projectId), JSON.stringify([...seen]));
+  } catch {
+    // Ignore storage failures; the feedback just stays unread
+  }
+}
+
+/**
+ * Counts the feedback of a project not seen yet
+ */
+export function countUnseenFeedback(projectId: string, feedbackIds: string[]): number {
+  const seen = getSeenFeedbackIds(projectId);
+  return feedbackIds.filter((id) => !seen.has(id)).length;
+}
@@ -0,0 +1,143 @@
+/**
+ * SUI Amount Utilities
+ *
+ * Exact MIST/SUI arithmetic on bigint. Amounts are kept in MIST (u64 on
+ * chain) and only converted to text at the edges: parsing user input and
+ * formatting for display. Nothing here goes through a JS `number`, so
+ * totals above 2^53 MIST and values like 0.1 SUI stay exact.
+ */
+
+// Number of decimal places of the SUI coin
+export const SUI_DECIMALS = 9;
+
+// MIST per SUI, as a bigint
+export const MIST_PER_SUI = 10n ** BigInt(SUI_DECIMALS);
+
+const U64_MAX = 2n ** 64n - 1n;
+
+const SUI_AMOUNT_PATTERN = /^(\d*)(?:\.(\d*))?$/;
+
+/**
+ * Options for formatting MIST amounts
+ */
+export interface FormatSuiOptions {
+  // Maximum fraction digits to show (extra digits are truncated)
+  maximumFractionDigits?: number;
+  // Minimum fraction digits to show (padded with zeros)
+  minimumFractionDigits?: number;
+  // Locale used for grouping and the decimal separator
+  locale?: string;
+}
+
+/**
+ * Parses a decimal SUI amount (e.g. "12.5") into MIST
+ *
+ * Throws when the text is not a plain non-negative decimal, has more
+ * than 9 decimal places or does not fit in a u64.
+ */
+export function parseSui(text: string): bigint {
+  const match = SUI_AMOUNT_PATTERN.exec(text.trim());
+  const [, whole = '', fraction = ''] = match ?? [];
+
+  if (!match || (whole === '' && fraction === '')) {
+    throw new Error(`Invalid SUI amount: "${text}"`);
+  }
+
+  if (fraction.length > SUI_DECIMALS) {
+    throw new Error(`SUI amounts support at most ${SUI_DECIMALS} decimal places`);
+  }
+
+  const mist = BigInt(whole || '0') * MIST_PER_SUI + BigInt(fraction.padEnd(SUI_DECIMALS, '0'));
+
+  if (mist > U64_MAX) {
+    throw new Error('SUI amount is too large');
+  }
+
+  return mist;
+}
+
+/**
+ * Parses a decimal SUI amount, returning null instead of throwing
+ */
+export function tryParseSui(text: string): bigint | null {
+  try {
+    return parseSui(text);
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Converts MIST to an exact decimal SUI string without grouping (e.g. "1234.5")
+ *
+ * Suitable for input values and transaction summaries.
+ */
+export function mistToSuiString(mist: bigint): string {
+  const sign = mist < 0n ? '-' : '';
+  const absolute = mist < 0n ? -mist : mist;
+
+  const whole = absolute / MIST_PER_SUI;
+  const fraction = (absolute % MIST_PER_SUI).toString().padStart(SUI_DECIMALS, '0').replace(/0+$/, '');
+
+  return `${sign}${whole}${fraction ? `.${fraction}` : ''}`;
+}
+
+/**
+ * Formats MIST as a locale-aware SUI amount (e.g. "1,234.56")
+ *
+ * Digits beyond `maximumFractionDigits` are truncated rather than
+ * rounded, so a campaign is never shown as having more than it raised.
+ */
+export function formatSui(mist: bigint, options: FormatSuiOptions = {}): string {
+  const maximumFractionDigits = Math.min(options.maximumFractionDigits ?? 4, SUI_DECIMALS);
+  const minimumFractionDigits = Math.min(options.minimumFractionDigits ?? 0, maximumFractionDigits);
+
+  const sign = mist < 0n ? '-' : '';
+  const absolute = mist < 0n ? -mist : mist;
+
+  const whole = absolute / MIST_PER_SUI;
+  let fraction = (absolute % MIST_PER_SUI)
+    .toString()
+    .padStart(SUI_DECIMALS, '0')
+    .slice(0, maximumFractionDigits)
+    .replace(/0+$/, '');
+  fraction = fraction.padEnd(minimumFractionDigits, '0');
+
+  const formatter = new Intl.NumberFormat(options.locale);
+  const decimalSeparator =
+    formatter.formatToParts(1.5).find((part) => part.type === 'decimal')?.value ?? '.';
+
+  return `${sign}${formatter.format(whole)}${fraction ? `${decimalSeparator}${fraction}` : ''}`;
+}
+
+/**
+ * Compares two MIST amounts (-1, 0 or 1), for use with Array.sort
+ */
+export function compareMist(a: bigint, b: bigint): number {
+  return a < b ? -1 : a > b ? 1 : 0;
+}
+
+/**
+ * Sums a list of MIST amounts
+ */
+export function sumMist(amounts: bigint[]): bigint {
+  return amounts.reduce((sum, amount) => sum + amount, 0n);
+}
+
+/**
+ * Amount still needed to reach a goal, never negative
+ */
+export function remainingMist(goal: bigint, current: bigint): bigint {
+  return current >= goal ? 0n : goal - current;
+}
+
+/**
+ * Percentage of `part` in `whole`, precise to 0.01%
+ *
+ * The division happens on bigint basis points, so only the final
+ * percentage (at most a few digits) is converted to a number.
+ */
+export function percentOf(part: bigint, whole: bigint): number {
+  if (whole <= 0n) return 0;
+  return Number((part * 10_000n) / whole) / 100;
+}
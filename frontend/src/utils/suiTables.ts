@@ -0,0 +1,55 @@
+/**
+ * Sui Table Utilities
+ *
+ * Move `Table`s are not returned inline with their parent object; every
+ * entry is a dynamic field of the table's UID. These helpers load them so
+ * they can be passed to the decoders in contractDecoders.ts.
+ */
+
+import type { DynamicFieldName, SuiClient, SuiObjectResponse } from '@mysten/sui/client';
+import type { TableRef } from '../types/contract';
+
+// Maximum number of IDs accepted by a single multiGetObjects call
+const MULTI_GET_BATCH_SIZE = 50;
+
+/**
+ * Loads every entry of a table as dynamic field objects
+ */
+export async function fetchTableEntries(client: SuiClient, table: TableRef): Promise<SuiObjectResponse[]> {
+  if (table.size === 0n) return [];
+
+  // Walk all pages of dynamic field IDs
+  const entryIds: string[] = [];
+  let cursor: string | null = null;
+
+  do {
+    const page = await client.getDynamicFields({ parentId: table.id, cursor });
+    entryIds.push(...page.data.map((field) => field.objectId));
+    cursor = page.hasNextPage ? page.nextCursor ?? null : null;
+  } while (cursor);
+
+  // Fetch the entry objects in batches
+  const entries: SuiObjectResponse[] = [];
+
+  for (let i = 0; i < entryIds.length; i += MULTI_GET_BATCH_SIZE) {
+    const batch = await client.multiGetObjects({
+      ids: entryIds.slice(i, i + MULTI_GET_BATCH_SIZE),
+      options: { showContent: true, showType: true },
+    });
+    entries.push(...batch);
+  }
+
+  return entries;
+}
+
+/**
+ * Loads a single table entry by key, or null when the key is absent
+ */
+export async function fetchTableEntry(
+  client: SuiClient,
+  table: TableRef,
+  name: DynamicFieldName
+): Promise<SuiObjectResponse | null> {
+  const response = await client.getDynamicFieldObject({ parentId: table.id, name });
+  return response.data ? response : null;
+}
@@ -0,0 +1,103 @@
+/**
+ * Transaction Effects Parsing
+ *
+ * Reads the finalized response of a transaction (effects, events, object
+ * and balance changes) into what the app acts on: whether it succeeded,
+ * the project it created and the Contribution receipts it minted.
+ */
+
+import type { SuiTransactionBlockResponse } from '@mysten/sui/client';
+import { normalizeStructTag } from '@mysten/sui/utils';
+import type { FoundryPackage } from '../config/deployments';
+
+// Only the type tags are needed to recognize foundry objects and events
+export type FoundryTypeTags = Pick<FoundryPackage, 'types' | 'events'>;
+
+// Response fields requested when waiting for a transaction
+export const TRANSACTION_RESPONSE_OPTIONS = {
+  showEffects: true,
+  showEvents: true,
+  showObjectChanges: true,
+  showBalanceChanges: true,
+} as const;
+
+/**
+ * Lifecycle of a transaction sent through useExecuteTransaction
+ *
+ * pending: simulating or waiting for the wallet signature
+ * submitted: signed and sent, waiting for finality
+ * finalized / failed: executed on chain, successfully or not
+ */
+export type TransactionStatus = 'idle' | 'pending' | 'submitted' | 'finalized' | 'failed';
+
+/**
+ * Object created by a transaction
+ */
+export interface CreatedObject {
+  objectId: string;
+  objectType: string;
+}
+
+/**
+ * Parsed outcome of a finalized transaction
+ */
+export interface TransactionOutcome {
+  digest: string;
+  success: boolean;
+  // Execution error reported by the node (e.g. a MoveAbort), when it failed
+  error: string | null;
+  created: CreatedObject[];
+  // ID of the project from the ProjectCreated event, if any
+  projectId: string | null;
+  // Contribution receipts minted by fund_project calls
+  contributionIds: string[];
+  // Balance changes of the sender, in the coin's smallest unit
+  balanceChanges: { coinType: string; amount: bigint }[];
+  events: SuiTransactionBlockResponse['events'];
+}
+
+const sameType = (a: string, b: string) => {
+  try {
+    return normalizeStructTag(a) === normalizeStructTag(b);
+  } catch {
+    return a === b;
+  }
+};
+
+const isOwnedBy = (owner: unknown, address: string): boolean =>
+  typeof owner === 'object' && owner !== null && 'AddressOwner' in owner && owner.AddressOwner === address;
+
+/**
+ * Parses a transaction response fetched with TRANSACTION_RESPONSE_OPTIONS
+ */
+export function parseTransactionOutcome(
+  response: SuiTransactionBlockResponse,
+  foundry: FoundryTypeTags,
+  sender: string
+): TransactionOutcome {
+  const status = response.effects?.status;
+
+  const created: CreatedObject[] = (response.objectChanges ?? []).flatMap((change) =>
+    change.type === 'created' ? [{ objectId: change.objectId, objectType: change.objectType }] : []
+  );
+
+  const projectCreated = (response.events ?? []).find((event) =>
+    sameType(event.type, foundry.events.PROJECT_CREATED)
+  );
+  const projectId = (projectCreated?.parsedJson as { project_id?: string } | undefined)?.project_id ?? null;
+
+  return {
+    digest: response.digest,
+    success: status?.status === 'success',
+    error: status?.status === 'failure' ? status.error ?? 'unknown execution error' : null,
+    created,
+    projectId,
+    contributionIds: created
+      .filter((object) => sameType(object.objectType, foundry.types.CONTRIBUTION))
+      .map((object) => object.objectId),
+    balanceChanges: (response.balanceChanges ?? [])
+      .filter((change) => isOwnedBy(change.owner, sender))
+      .map((change) => ({ coinType: change.coinType, amount: BigInt(change.amount) })),
+    events: response.events,
+  };
+}
@@ -0,0 +1,122 @@
+/**
+ * Transaction Simulation
+ *
+ * Runs a transaction against the current chain state before it is sent to
+ * the wallet, so a call that would abort (e.g. funding after the deadline)
+ * is reported without the user signing and paying gas for it.
+ *
+ * The transaction is first dev-inspected, which needs no gas coin and
+ * returns the Move abort if there is one, then built and dry-run to get
+ * the gas estimate and balance changes. Building also sets the gas
+ * budget from the dry run, so no fixed budget is needed.
+ */
+
+import type { SuiClient } from '@mysten/sui/client';
+import type { Transaction } from '@mysten/sui/transactions';
+
+/**
+ * Estimated gas cost of a transaction, in MIST
+ */
+export interface GasEstimate {
+  computationCost: bigint;
+  storageCost: bigint;
+  storageRebate: bigint;
+  // What the sender pays: computation + storage - rebate
+  total: bigint;
+}
+
+/**
+ * Balance change for the sender, in the coin's smallest unit
+ */
+export interface SimulatedBalanceChange {
+  coinType: string;
+  amount: bigint;
+}
+
+/**
+ * Outcome of simulating a transaction
+ */
+export interface TransactionSimulation {
+  success: boolean;
+  // Execution error reported by the node (e.g. a MoveAbort), when it failed
+  error: string | null;
+  gas: GasEstimate | null;
+  balanceChanges: SimulatedBalanceChange[];
+}
+
+/**
+ * Error thrown when a transaction would fail on chain
+ */
+export class TransactionSimulationError extends Error {
+  readonly simulation: TransactionSimulation;
+
+  constructor(simulation: TransactionSimulation) {
+    super(`Transaction would fail: ${simulation.error ?? 'unknown execution error'}`);
+    this.name = 'TransactionSimulationError';
+    this.simulation = simulation;
+  }
+}
+
+const toGasEstimate = (gasUsed: {
+  computationCost: string;
+  storageCost: string;
+  storageRebate: string;
+}): GasEstimate => {
+  const computationCost = BigInt(gasUsed.computationCost);
+  const storageCost = BigInt(gasUsed.storageCost);
+  const storageRebate = BigInt(gasUsed.storageRebate);
+
+  return {
+    computationCost,
+    storageCost,
+    storageRebate,
+    total: computationCost + storageCost - storageRebate,
+  };
+};
+
+const isOwnedBy = (owner: unknown, address: string): boolean =>
+  typeof owner === 'object' && owner !== null && 'AddressOwner' in owner && owner.AddressOwner === address;
+
+/**
+ * Simulates a transaction for the given sender
+ *
+ * Resolves with `success: false` (and the node's error) when the
+ * transaction would abort; rejects only on RPC failures.
+ */
+export async function simulateTransaction(
+  client: SuiClient,
+  transaction: Transaction,
+  sender: string
+): Promise<TransactionSimulation> {
+  transaction.setSenderIfNotSet(sender);
+
+  // Dev-inspect first: it reports aborts without needing gas coins
+  const inspection = await client.devInspectTransactionBlock({
+    sender,
+    transactionBlock: transaction,
+  });
+
+  if (inspection.effects.status.status === 'failure') {
+    return {
+      success: false,
+      error: inspection.effects.status.error ?? inspection.error ?? null,
+      gas: toGasEstimate(inspection.effects.gasUsed),
+      balanceChanges: [],
+    };
+  }
+
+  // Build (selecting gas and setting the budget) and dry-run for balances
+  const transactionBytes = await transaction.build({ client });
+  const dryRun = await client.dryRunTransactionBlock({ transactionBlock: transactionBytes });
+
+  const success = dryRun.effects.status.status === 'success';
+
+  return {
+    success,
+    error: success ? null : dryRun.effects.status.error ?? null,
+    gas: toGasEstimate(dryRun.effects.gasUsed),
+    balanceChanges: dryRun.balanceChanges
+      .filter((change) => isOwnedBy(change.owner, sender))
+      .map((change) => ({ coinType: change.coinType, amount: BigInt(change.amount) })),
+  };
+}
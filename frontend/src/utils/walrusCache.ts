@@ -0,0 +1,134 @@
+/**
+ * Walrus Content Cache
+ *
+ * Walrus blobs are immutable, so content fetched once by blob ID never
+ * needs to be fetched again. WalrusClient keeps it in IndexedDB across
+ * visits, keyed by blob ID, up to a total size; the least recently used
+ * blobs are evicted first.
+ *
+ * Sizes and access times live in their own store, so eviction never loads
+ * the cached content itself.
+ */
+
+/**
+ * Storage for blob content, keyed by blob ID
+ */
+export interface WalrusCache {
+  get(blobId: string): Promise<ArrayBuffer | undefined>;
+  put(blobId: string, content: ArrayBuffer): Promise<void>;
+}
+
+export interface WalrusCacheLimits {
+  // Total size of the cached content
+  maxBytes: number;
+  // Larger blobs are not cached
+  maxEntryBytes: number;
+}
+
+interface CacheEntry {
+  blobId: string;
+  size: number;
+  lastAccess: number;
+}
+
+const DB_NAME = 'foundry-walrus-cache';
+const DB_VERSION = 1;
+const ENTRIES_STORE = 'entries';
+const CONTENT_STORE = 'content';
+
+const DEFAULT_LIMITS: WalrusCacheLimits = {
+  maxBytes: 50 * 1024 * 1024, // 50MB
+  maxEntryBytes: 5 * 1024 * 1024, // 5MB
+};
+
+const request = <T>(req: IDBRequest<T>) =>
+  new Promise<T>((resolve, reject) => {
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => reject(req.error);
+  });
+
+const completion = (tx: IDBTransaction) =>
+  new Promise<void>((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+
+/**
+ * LRU cache of blob content in IndexedDB
+ */
+export class IndexedDbWalrusCache implements WalrusCache {
+  private readonly limits: WalrusCacheLimits;
+  private db: Promise<IDBDatabase> | null = null;
+
+  constructor(limits: Partial<WalrusCacheLimits> = {}) {
+    this.limits = { ...DEFAULT_LIMITS, ...limits };
+  }
+
+  async get(blobId: string): Promise<ArrayBuffer | undefined> {
+    const db = await this.open();
+    const tx = db.transaction([ENTRIES_STORE, CONTENT_STORE], 'readwrite');
+    const entries = tx.objectStore(ENTRIES_STORE);
+
+    const entry = await request<CacheEntry | undefined>(entries.get(blobId));
+    if (!entry) return undefined;
+
+    const content = await request<ArrayBuffer | undefined>(tx.objectStore(CONTENT_STORE).get(blobId));
+    if (content) {
+      entries.put({ ...entry, lastAccess: Date.now() });
+    }
+
+    await completion(tx);
+    return content;
+  }
+
+  async put(blobId: string, content: ArrayBuffer): Promise<void> {
+    if (content.byteLength > this.limits.maxEntryBytes) return;
+
+    const db = await this.open();
+    const tx = db.transaction([ENTRIES_STORE, CONTENT_STORE], 'readwrite');
+    const entries = tx.objectStore(ENTRIES_STORE);
+    const contents = tx.objectStore(CONTENT_STORE);
+
+    entries.put({ blobId, size: content.byteLength, lastAccess: Date.now() } satisfies CacheEntry);
+    contents.put(content, blobId);
+
+    // Evict the least recently used blobs until the cache fits
+    const all = await request<CacheEntry[]>(entries.index('lastAccess').getAll());
+    let total = all.reduce((sum, entry) => sum + entry.size, 0);
+    for (const entry of all) {
+      if (total <= this.limits.maxBytes) break;
+      entries.delete(entry.blobId);
+      contents.delete(entry.blobId);
+      total -= entry.size;
+    }
+
+    await completion(tx);
+  }
+
+  private open(): Promise<IDBDatabase> {
+    if (!this.db) {
+      const req = indexedDB.open(DB_NAME, DB_VERSION);
+      req.onupgradeneeded = () => {
+        req.result
+          .createObjectStore(ENTRIES_STORE, { keyPath: 'blobId' })
+          .createIndex('lastAccess', 'lastAccess');
+        req.result.createObjectStore(CONTENT_STORE);
+      };
+
+      this.db = request(req);
+      // Let a later call try again
+      this.db.catch(() => {
+        this.db = null;
+      });
+    }
+
+    return this.db;
+  }
+}
+
+/**
+ * The IndexedDB cache where the browser has IndexedDB, no cache otherwise
+ */
+export const createDefaultCache = (): WalrusCache | null =>
+  typeof indexedDB === 'undefined' ? null : new IndexedDbWalrusCache();
@@ -1,13 +1,17 @@
 /**
  * Example usage of Walrus Client
  * 
- * This file demonstrates how to use the walrusClient utilities
- * for storing and retrieving project metadata.
+ * This file demonstrates how to use a WalrusClient for storing and
+ * retrieving project metadata. Components get the app's client from
+ * useWalrus instead of creating one.
  */
 
-import { uploadJson, fetchJson, getWalrusUrl, checkWalrusHealth } from './walrusClient';
+import { WalrusClient } from './walrusClient';
+import { WALRUS_ENDPOINTS } from '../config/walrus';
 import type { ProjectMetadata } from './types';
 
+const walrus = new WalrusClient({ endpoints: WALRUS_ENDPOINTS.testnet });
+
 /**
  * Example 1: Upload project metadata to Walrus
  */
@@ -25,14 +29,16 @@ export async function exampleUploadProject() {
 
   try {
     // Upload to Walrus (stores for 5 epochs by default)
-    const result = await uploadJson(projectData, { epochs: 10 });
+    const result = await walrus.uploadJson(projectData, { epochs: 10 });
     
     console.log('Project metadata uploaded!');
     console.log('CID:', result.cid);
+    console.log('Content hash:', result.integrity);
     console.log('Size:', result.size, 'bytes');
-    console.log('URL:', getWalrusUrl(result.cid));
+    console.log('URL:', walrus.getBlobUrl(result.cid));
     
-    return result.cid;
+    // Store the reference (CID and hash) so reads are verified
+    return result.ref;
   } catch (error) {
     console.error('Upload failed:', error);
     throw error;
@@ -45,7 +51,7 @@ export async function exampleUploadProject() {
 export async function exampleFetchProject(cid: string) {
   try {
     // Fetch from Walrus using CID
-    const projectData = await fetchJson<ProjectMetadata>(cid);
+    const projectData = await walrus.fetchJson<ProjectMetadata>(cid);
     
     console.log('Project metadata fetched!');
     console.log('Title:', projectData.title);
@@ -63,15 +69,20 @@ export async function exampleFetchProject(cid: string) {
  * Example 3: Check Walrus service health
  */
 export async function exampleHealthCheck() {
-  const isHealthy = await checkWalrusHealth();
+  const health = await walrus.checkHealth();
   
-  if (isHealthy) {
+  if (health.aggregator.status === 'healthy') {
     console.log('✅ Walrus service is available');
   } else {
     console.log('❌ Walrus service is unavailable');
   }
+
+  // Per-endpoint status and latency
+  health.endpoints.forEach((endpoint) => {
+    console.log(`${endpoint.kind} ${endpoint.url}: ${endpoint.status}`, endpoint.responseTime ?? '-', 'ms');
+  });
   
-  return isHealthy;
+  return health;
 }
 
 /**
@@ -79,8 +90,8 @@ export async function exampleHealthCheck() {
  */
 export async function exampleCompleteWorkflow() {
   // Step 1: Check if Walrus is available
-  const isAvailable = await checkWalrusHealth();
-  if (!isAvailable) {
+  const health = await walrus.checkHealth();
+  if (health.publisher.status !== 'healthy') {
     throw new Error('Walrus service is not available');
   }
 
@@ -99,18 +110,18 @@ export async function exampleCompleteWorkflow() {
 
   // Step 3: Upload to Walrus
   console.log('Uploading project metadata...');
-  const uploadResult = await uploadJson(projectData, { epochs: 20 });
+  const uploadResult = await walrus.uploadJson(projectData, { epochs: 20 });
   console.log('Upload successful! CID:', uploadResult.cid);
 
-  // Step 4: Verify by fetching the data
+  // Step 4: Verify by fetching the data (checked against the content hash)
   console.log('Verifying upload by fetching...');
-  const fetchedData = await fetchJson<ProjectMetadata>(uploadResult.cid);
+  const fetchedData = await walrus.fetchJson<ProjectMetadata>(uploadResult.ref);
   console.log('Verification successful!');
   console.log('Title matches:', fetchedData.title === projectData.title);
 
   return {
-    cid: uploadResult.cid,
-    url: getWalrusUrl(uploadResult.cid),
+    cid: uploadResult.ref,
+    url: walrus.getBlobUrl(uploadResult.cid),
     data: fetchedData,
   };
 }
@@ -129,7 +140,7 @@ export async function exampleUploadGenericData() {
     },
   };
 
-  const result = await uploadJson(anyData);
+  const result = await walrus.uploadJson(anyData);
   return result;
 }
 
@@ -1,203 +1,748 @@
 /**
  * Walrus Client - Utility for interacting with Walrus decentralized storage
- * 
+ *
  * Walrus is a decentralized storage protocol in the Sui ecosystem that allows
  * storing and retrieving data using Content Identifiers (CIDs).
+ *
+ * Every upload and read goes through one WalrusClient, created by
+ * WalrusProvider for the active network and read with useWalrus. The
+ * client owns the endpoints, the timeouts and the retry policy; the HTTP
+ * layer is a pluggable transport, and hooks observe every request.
+ *
+ * Each network has several publishers and aggregators. Requests go to the
+ * healthiest, fastest endpoint first and fail over to the next one on
+ * network errors, timeouts and server errors (see walrusHealth.ts).
+ *
+ * Uploads return a content reference carrying a hash of the content next
+ * to the blob ID; reads of such a reference reject content that does not
+ * match it (see walrusIntegrity.ts). Fetched content is cached in
+ * IndexedDB by blob ID (see walrusCache.ts).
+ *
+ * Usage:
+ *   const walrus = useWalrus();
+ *   const { ref } = await walrus.uploadJson(metadata, { epochs: 5 });
+ *   const metadata = await walrus.fetchJson<ProjectMetadata>(ref);
  */
 
-// Configuration for Walrus endpoints
-const WALRUS_CONFIG = {
-  publisherUrl: import.meta.env.VITE_WALRUS_PUBLISHER_URL || 'https://publisher.walrus-testnet.walrus.space',
-  aggregatorUrl: import.meta.env.VITE_WALRUS_AGGREGATOR_URL || 'https://aggregator.walrus-testnet.walrus.space',
-};
+import type { WalrusEndpoints } from '../config/walrus';
+import type { WalrusEndpointKind, WalrusHealth } from '../types/walrus';
+import { WalrusHealthTracker } from './walrusHealth';
+import { createDefaultCache } from './walrusCache';
+import type { WalrusCache } from './walrusCache';
+import { computeIntegrity, formatContentRef, matchesIntegrity, parseContentRef } from './walrusIntegrity';
 
 // Types
 export interface WalrusUploadResponse {
-  cid: string;
+  cid: string; // Blob ID
+  integrity: string; // SHA-256 hash of the content
+  ref: string; // Blob ID with the hash: store this to have reads verified
   size: number;
   timestamp: number;
 }
 
-export interface WalrusError {
-  message: string;
-  code?: string;
-  details?: unknown;
+export type WalrusErrorCode =
+  | 'INVALID_INPUT'     // bad CID, payload or file
+  | 'NO_ENDPOINT'       // the network has no publisher (or aggregator) configured
+  | 'NOT_FOUND'         // the aggregator has no blob for the CID
+  | 'HTTP_ERROR'        // any other non-2xx response
+  | 'NETWORK_ERROR'     // the request did not reach the endpoint
+  | 'TIMEOUT'
+  | 'ABORTED'           // cancelled through the caller's AbortSignal
+  | 'INVALID_RESPONSE'  // the body is not what was expected
+  | 'INTEGRITY_MISMATCH'; // the content does not match the recorded hash
+
+/**
+ * Error raised by every Walrus operation
+ */
+export class WalrusError extends Error {
+  readonly code: WalrusErrorCode;
+  // HTTP status of the failed response, if any
+  readonly status: number | null;
+  readonly details?: unknown;
+
+  constructor(code: WalrusErrorCode, message: string, options: { status?: number; details?: unknown } = {}) {
+    super(message);
+    this.name = 'WalrusError';
+    this.code = code;
+    this.status = options.status ?? null;
+    this.details = options.details;
+  }
+}
+
+/**
+ * HTTP request issued by the client
+ */
+export interface WalrusTransportRequest {
+  method: 'GET' | 'PUT' | 'HEAD';
+  url: string;
+  headers?: Record<string, string>;
+  body?: Blob;
+  signal: AbortSignal;
+  // Upload progress in percent (0-100), for transports that report it
+  onUploadProgress?: (progress: number) => void;
+}
+
+/**
+ * Response of a transport; a fetch Response satisfies it
+ */
+export interface WalrusTransportResponse {
+  ok: boolean;
+  status: number;
+  text(): Promise<string>;
+  arrayBuffer(): Promise<ArrayBuffer>;
+}
+
+/**
+ * Sends one HTTP request; rejects only when no response was received
+ */
+export type WalrusTransport = (request: WalrusTransportRequest) => Promise<WalrusTransportResponse>;
+
+/**
+ * Transport built on fetch
+ */
+export const fetchTransport: WalrusTransport = ({ method, url, headers, body, signal }) =>
+  fetch(url, { method, headers, body, signal });
+
+/**
+ * Transport built on XMLHttpRequest, which reports upload progress
+ */
+export const xhrTransport: WalrusTransport = ({ method, url, headers, body, signal, onUploadProgress }) =>
+  new Promise((resolve, reject) => {
+    const xhr = new XMLHttpRequest();
+    xhr.responseType = 'arraybuffer';
+
+    xhr.upload.addEventListener('progress', (e) => {
+      if (e.lengthComputable && onUploadProgress) {
+        onUploadProgress((e.loaded / e.total) * 100);
+      }
+    });
+
+    xhr.addEventListener('load', () => {
+      const buffer = xhr.response as ArrayBuffer;
+      resolve({
+        ok: xhr.status >= 200 && xhr.status < 300,
+        status: xhr.status,
+        text: async () => new TextDecoder().decode(buffer),
+        arrayBuffer: async () => buffer,
+      });
+    });
+    xhr.addEventListener('error', () => reject(new TypeError('Network error')));
+    xhr.addEventListener('abort', () => reject(new DOMException('Aborted', 'AbortError')));
+
+    if (signal.aborted) {
+      reject(new DOMException('Aborted', 'AbortError'));
+      return;
+    }
+    signal.addEventListener('abort', () => xhr.abort(), { once: true });
+
+    xhr.open(method, url);
+    Object.entries(headers ?? {}).forEach(([name, value]) => xhr.setRequestHeader(name, value));
+    xhr.send(body ?? null);
+  });
+
+/**
+ * Default transport: XMLHttpRequest when upload progress is requested,
+ * fetch otherwise
+ */
+export const browserTransport: WalrusTransport = (request) =>
+  request.onUploadProgress && typeof XMLHttpRequest !== 'undefined'
+    ? xhrTransport(request)
+    : fetchTransport(request);
+
+/**
+ * When and how failed requests are retried
+ *
+ * A failed request is first sent to the other endpoints right away; a
+ * retry goes through the endpoints again after a delay.
+ */
+export interface WalrusRetryPolicy {
+  // Rounds over the endpoints after the first one
+  retries: number;
+  // Delay before retry number `attempt` (starting at 1)
+  delayMs: (attempt: number) => number;
+  // Whether the error is the endpoint's fault, so another one may succeed
+  shouldRetry: (error: WalrusError) => boolean;
+}
+
+/**
+ * Request being sent, as seen by the client hooks
+ */
+export interface WalrusRequestInfo {
+  kind: 'read' | 'upload' | 'health';
+  method: WalrusTransportRequest['method'];
+  url: string;
+  // Base URL of the publisher or aggregator
+  endpoint: string;
+  // 1 for the first attempt
+  attempt: number;
+}
+
+/**
+ * Callbacks observing every request, e.g. for logging or metrics
+ */
+export interface WalrusClientHooks {
+  onRequest?: (info: WalrusRequestInfo) => void;
+  onResponse?: (info: WalrusRequestInfo & { status: number; durationMs: number }) => void;
+  // `willRetry` tells whether another attempt follows (next endpoint or retry)
+  onError?: (info: WalrusRequestInfo & { error: WalrusError; durationMs: number; willRetry: boolean }) => void;
+}
+
+export interface WalrusClientOptions {
+  endpoints: WalrusEndpoints;
+  transport?: WalrusTransport;
+  // Milliseconds before a read or an upload attempt is abandoned
+  timeouts?: { readMs?: number; uploadMs?: number };
+  retry?: Partial<WalrusRetryPolicy>;
+  hooks?: WalrusClientHooks;
+  // Storage duration of uploads that do not set one
+  defaultEpochs?: number;
+  // 'verify' checks content against the hash of references that have one,
+  // 'require' also rejects references without one, 'skip' checks nothing
+  integrity?: 'verify' | 'require' | 'skip';
+  // Where fetched content is kept; IndexedDB by default, null for none
+  cache?: WalrusCache | null;
+}
+
+export interface WalrusRequestOptions {
+  signal?: AbortSignal;
+}
+
+export interface WalrusUploadOptions extends WalrusRequestOptions {
+  epochs?: number; // Number of epochs to store the data
+}
+
+export interface WalrusFileUploadOptions extends WalrusUploadOptions {
+  onProgress?: (progress: number) => void; // Progress callback (0-100)
+}
+
+/**
+ * Outcome of one blob of a batch
+ */
+export type WalrusBatchResult<T> =
+  | { cid: string; ok: true; data: T }
+  | { cid: string; ok: false; error: WalrusError };
+
+export interface WalrusBatchOptions<T> extends WalrusRequestOptions {
+  // Blobs fetched at the same time
+  concurrency?: number;
+  // Called as each blob completes, in completion order
+  onProgress?: (progress: { completed: number; total: number; result: WalrusBatchResult<T> }) => void;
 }
 
+const DEFAULT_TIMEOUTS = { readMs: 15_000, uploadMs: 60_000 };
+
+// Network errors, timeouts, throttling, server errors and tampered content
+// are the endpoint's fault
+const DEFAULT_RETRY_POLICY: WalrusRetryPolicy = {
+  retries: 2,
+  delayMs: (attempt) => 500 * 2 ** (attempt - 1),
+  shouldRetry: (error) =>
+    error.code === 'NETWORK_ERROR' ||
+    error.code === 'TIMEOUT' ||
+    error.code === 'INTEGRITY_MISMATCH' ||
+    (error.code === 'HTTP_ERROR' && (error.status === 429 || (error.status ?? 0) >= 500)),
+};
+
+const DEFAULT_EPOCHS = 5;
+
+const DEFAULT_BATCH_CONCURRENCY = 6;
+
+// Largest file accepted by uploadFile
+const MAX_FILE_SIZE = 10 * 1024 * 1024; // 10MB
+
+const ALLOWED_IMAGE_TYPES = ['image/jpeg', 'image/jpg', 'image/png', 'image/gif', 'image/webp'];
+
+// Lets one caller stop waiting for a shared request
+const abortable = <T>(promise: Promise<T>, signal?: AbortSignal): Promise<T> => {
+  if (!signal) return promise;
+  if (signal.aborted) return Promise.reject(new WalrusError('ABORTED', 'Request aborted'));
+
+  return new Promise<T>((resolve, reject) => {
+    const abort = () => reject(new WalrusError('ABORTED', 'Request aborted'));
+    signal.addEventListener('abort', abort, { once: true });
+    promise.then(resolve, reject).finally(() => signal.removeEventListener('abort', abort));
+  });
+};
+
+const sleep = (ms: number, signal?: AbortSignal) =>
+  new Promise<void>((resolve, reject) => {
+    const timer = setTimeout(resolve, ms);
+    signal?.addEventListener('abort', () => {
+      clearTimeout(timer);
+      reject(new WalrusError('ABORTED', 'Request aborted'));
+    }, { once: true });
+  });
+
+// Walrus returns different response formats, handle both
+const extractBlobId = (result: unknown): string | undefined => {
+  const response = result as {
+    newlyCreated?: { blobObject?: { blobId?: string } };
+    alreadyCertified?: { blobId?: string };
+    blobId?: string;
+  } | null;
+
+  return response?.newlyCreated?.blobObject?.blobId || response?.alreadyCertified?.blobId || response?.blobId;
+};
+
+// A response whose body has been read, so it can be read again
+const buffered = (response: WalrusTransportResponse, content: ArrayBuffer): WalrusTransportResponse => ({
+  ok: response.ok,
+  status: response.status,
+  text: async () => new TextDecoder().decode(content),
+  arrayBuffer: async () => content,
+});
+
+type SendRequest = Omit<WalrusTransportRequest, 'url' | 'signal'> & {
+  // Path appended to the endpoint's base URL
+  path: string;
+  signal?: AbortSignal;
+  // Checks the body; a failure moves on to the next endpoint if retryable
+  verify?: (content: ArrayBuffer) => Promise<void>;
+};
+
 /**
- * Uploads JSON data to Walrus decentralized storage
- * 
- * @param data - The JSON data to upload (will be stringified)
- * @param options - Optional configuration for the upload
- * @returns Promise resolving to upload response with CID
- * @throws WalrusError if upload fails
+ * Client for the publishers and aggregators of one network
  */
-export async function uploadJson<T = unknown>(
-  data: T,
-  options?: {
-    epochs?: number; // Number of epochs to store the data
+export class WalrusClient {
+  readonly endpoints: WalrusEndpoints;
+  private readonly transport: WalrusTransport;
+  private readonly timeouts: typeof DEFAULT_TIMEOUTS;
+  private readonly retry: WalrusRetryPolicy;
+  private readonly hooks: WalrusClientHooks;
+  private readonly defaultEpochs: number;
+  private readonly integrity: NonNullable<WalrusClientOptions['integrity']>;
+  private readonly health: WalrusHealthTracker;
+  private readonly cache: WalrusCache | null;
+  // Reads in progress, by content reference
+  private readonly inFlight = new Map<string, Promise<ArrayBuffer>>();
+
+  constructor(options: WalrusClientOptions) {
+    this.endpoints = options.endpoints;
+    this.transport = options.transport ?? browserTransport;
+    this.timeouts = { ...DEFAULT_TIMEOUTS, ...options.timeouts };
+    this.retry = { ...DEFAULT_RETRY_POLICY, ...options.retry };
+    this.hooks = options.hooks ?? {};
+    this.defaultEpochs = options.defaultEpochs ?? DEFAULT_EPOCHS;
+    this.integrity = options.integrity ?? 'verify';
+    this.cache = options.cache === undefined ? createDefaultCache() : options.cache;
+    this.health = new WalrusHealthTracker({
+      publisher: options.endpoints.publisherUrls,
+      aggregator: options.endpoints.aggregatorUrls,
+    });
+  }
+
+  /**
+   * Generates a Walrus blob URL for direct access, on the best aggregator
+   *
+   * The content is neither verified nor cached: the browser downloads it
+   * directly. useWalrusBlobUrl shows content fetched with fetchBlob instead.
+   */
+  getBlobUrl(cid: string): string {
+    const [aggregatorUrl] = this.health.rank('aggregator');
+    if (!aggregatorUrl) {
+      throw new WalrusError('NO_ENDPOINT', 'No Walrus aggregator is configured for this network');
+    }
+
+    return `${aggregatorUrl}/v1/${parseContentRef(cid).blobId}`;
   }
-): Promise<WalrusUploadResponse> {
-  try {
+
+  /**
+   * Uploads JSON data to Walrus decentralized storage
+   *
+   * @param data - The JSON data to upload (will be stringified)
+   * @returns Promise resolving to upload response with CID
+   * @throws WalrusError if upload fails
+   */
+  async uploadJson<T = unknown>(data: T, options: WalrusUploadOptions = {}): Promise<WalrusUploadResponse> {
     // Validate input data
     if (data === null || data === undefined) {
-      throw new Error('Data cannot be null or undefined');
+      throw new WalrusError('INVALID_INPUT', 'Data cannot be null or undefined');
     }
 
-    // Convert data to JSON string
-    const jsonString = JSON.stringify(data);
-    const blob = new Blob([jsonString], { type: 'application/json' });
+    const blob = new Blob([JSON.stringify(data)], { type: 'application/json' });
+    return this.upload(blob, 'application/json', options);
+  }
+
+  /**
+   * Upload a file (image, document, etc.) to Walrus
+   *
+   * @throws WalrusError if upload fails
+   */
+  async uploadFile(file: File, options: WalrusFileUploadOptions = {}): Promise<WalrusUploadResponse> {
+    // Validate file
+    if (!file) {
+      throw new WalrusError('INVALID_INPUT', 'File is required');
+    }
+
+    // Check file size (Walrus has limits, adjust as needed)
+    if (file.size > MAX_FILE_SIZE) {
+      throw new WalrusError(
+        'INVALID_INPUT',
+        `File size (${(file.size / 1024 / 1024).toFixed(2)}MB) exceeds maximum (10MB)`
+      );
+    }
 
+    console.log('Uploading file to Walrus:', {
+      name: file.name,
+      type: file.type,
+      size: `${(file.size / 1024).toFixed(2)} KB`,
+    });
+
+    return this.upload(file, file.type || 'application/octet-stream', options);
+  }
+
+  /**
+   * Upload an image file with validation
+   */
+  async uploadImage(
+    file: File,
+    options: WalrusFileUploadOptions & { maxSizeMB?: number } = {}
+  ): Promise<WalrusUploadResponse> {
+    // Validate file is an image
+    if (!file.type.startsWith('image/')) {
+      throw new WalrusError('INVALID_INPUT', 'File must be an image');
+    }
+
+    // Validate image size
+    const maxSizeMB = options.maxSizeMB || 5;
+    if (file.size > maxSizeMB * 1024 * 1024) {
+      throw new WalrusError('INVALID_INPUT', `Image size exceeds ${maxSizeMB}MB limit`);
+    }
+
+    // Validate image format
+    if (!ALLOWED_IMAGE_TYPES.includes(file.type)) {
+      throw new WalrusError('INVALID_INPUT', 'Image must be JPEG, PNG, GIF, or WebP format');
+    }
+
+    return this.uploadFile(file, options);
+  }
+
+  /**
+   * Fetches JSON data from Walrus using a Content Identifier (CID)
+   *
+   * When the CID is a content reference with a hash, content that does not
+   * match it is rejected and the next aggregator is tried.
+   *
+   * @returns Promise resolving to the parsed JSON data
+   * @throws WalrusError if fetch fails
+   */
+  async fetchJson<T = unknown>(cid: string, options: WalrusRequestOptions = {}): Promise<T> {
+    const content = await this.read(cid, options);
+    const text = new TextDecoder().decode(content);
+
+    try {
+      const data = JSON.parse(text);
+      console.log('Fetch successful:', { cid, dataSize: text.length });
+      return data as T;
+    } catch (error) {
+      throw new WalrusError('INVALID_RESPONSE', `Blob ${cid} is not valid JSON`, { details: error });
+    }
+  }
+
+  /**
+   * Fetches the JSON data of several CIDs, a few at a time
+   *
+   * Failures are reported per blob rather than failing the batch; only
+   * aborting the signal rejects it. Duplicate CIDs share one request.
+   *
+   * @returns Promise resolving to one result per CID, in the same order
+   * @throws WalrusError with code ABORTED if the signal is aborted
+   */
+  async fetchJsonBatch<T = unknown>(
+    cids: string[],
+    options: WalrusBatchOptions<T> = {}
+  ): Promise<WalrusBatchResult<T>[]> {
+    const { concurrency = DEFAULT_BATCH_CONCURRENCY, onProgress, signal } = options;
+    const results = new Array<WalrusBatchResult<T>>(cids.length);
+    let next = 0;
+    let completed = 0;
+
+    // Each worker takes the next CID until none are left
+    const worker = async () => {
+      while (next < cids.length && !signal?.aborted) {
+        const index = next++;
+        const cid = cids[index];
+
+        try {
+          results[index] = { cid, ok: true, data: await this.fetchJson<T>(cid, { signal }) };
+        } catch (error) {
+          results[index] = {
+            cid,
+            ok: false,
+            error: error instanceof WalrusError
+              ? error
+              : new WalrusError('INVALID_RESPONSE', `Failed to fetch blob ${cid}`, { details: error }),
+          };
+        }
+
+        if (!signal?.aborted) {
+          onProgress?.({ completed: ++completed, total: cids.length, result: results[index] });
+        }
+      }
+    };
+
+    await Promise.all(Array.from({ length: Math.max(1, Math.min(concurrency, cids.length)) }, worker));
+
+    if (signal?.aborted) {
+      throw new WalrusError('ABORTED', 'Request aborted');
+    }
+
+    return results;
+  }
+
+  /**
+   * Fetches the content of a blob, e.g. an image to show from an object URL
+   *
+   * Verified and cached like fetchJson, unlike getBlobUrl.
+   */
+  async fetchBlob(cid: string, options: WalrusRequestOptions = {}): Promise<Blob> {
+    return new Blob([await this.read(cid, options)]);
+  }
+
+  /**
+   * Probes every publisher and aggregator and returns their health
+   */
+  async checkHealth(): Promise<WalrusHealth> {
+    const probes = this.health.getSnapshot().endpoints.map(async ({ url }) => {
+      const info: WalrusRequestInfo = { kind: 'health', method: 'HEAD', url, endpoint: url, attempt: 1 };
+      const startedAt = Date.now();
+      this.hooks.onRequest?.(info);
+
+      try {
+        const response = await this.attempt('health', { method: 'HEAD', url });
+        this.health.recordSuccess(url, Date.now() - startedAt);
+        this.hooks.onResponse?.({ ...info, status: response.status, durationMs: Date.now() - startedAt });
+      } catch (error) {
+        this.record(url, error as WalrusError, Date.now() - startedAt);
+        this.hooks.onError?.({ ...info, error: error as WalrusError, durationMs: Date.now() - startedAt, willRetry: false });
+      }
+    });
+
+    await Promise.all(probes);
+    return this.health.getSnapshot();
+  }
+
+  /**
+   * Latest health of every endpoint, from traffic and health checks
+   */
+  getHealth = (): WalrusHealth => this.health.getSnapshot();
+
+  subscribeToHealth = (listener: () => void): (() => void) => this.health.subscribe(listener);
+
+  private async upload(
+    body: Blob,
+    contentType: string,
+    options: WalrusFileUploadOptions
+  ): Promise<WalrusUploadResponse> {
     // Configure upload parameters
-    const epochs = options?.epochs || 5; // Default to 5 epochs
-    const url = `${WALRUS_CONFIG.publisherUrl}/v1/store?epochs=${epochs}`;
+    const epochs = options.epochs || this.defaultEpochs;
+
+    console.log('Uploading to Walrus:', { epochs, dataSize: body.size });
 
-    console.log('Uploading to Walrus:', { url, dataSize: blob.size });
+    const integrity = await computeIntegrity(await body.arrayBuffer());
 
-    // Make HTTP PUT request to Walrus publisher
-    const response = await fetch(url, {
+    const response = await this.send('upload', {
       method: 'PUT',
-      headers: {
-        'Content-Type': 'application/json',
-      },
-      body: blob,
+      path: `/v1/store?epochs=${epochs}`,
+      headers: { 'Content-Type': contentType },
+      body,
+      signal: options.signal,
+      onUploadProgress: options.onProgress,
     });
 
-    if (!response.ok) {
-      const errorText = await response.text();
-      throw new Error(`Upload failed: ${response.status} - ${errorText}`);
+    let blobId: string | undefined;
+    try {
+      blobId = extractBlobId(JSON.parse(await response.text()));
+    } catch (error) {
+      throw new WalrusError('INVALID_RESPONSE', 'Failed to parse Walrus response', { details: error });
     }
 
-    // Parse response
-    const result = await response.json();
-    
-    // Extract blob ID (CID) from response
-    // Walrus returns different response formats, handle both
-    const blobId = result.newlyCreated?.blobObject?.blobId || 
-                   result.alreadyCertified?.blobId ||
-                   result.blobId;
-
     if (!blobId) {
-      throw new Error('Failed to get blob ID from Walrus response');
+      throw new WalrusError('INVALID_RESPONSE', 'Failed to get blob ID from Walrus response');
     }
 
     console.log('Upload successful:', { blobId });
 
     return {
       cid: blobId,
-      size: blob.size,
+      integrity,
+      ref: formatContentRef({ blobId, integrity }),
+      size: body.size,
       timestamp: Date.now(),
     };
-  } catch (error) {
-    console.error('Walrus upload error:', error);
-    
-    const walrusError: WalrusError = {
-      message: error instanceof Error ? error.message : 'Unknown upload error',
-      details: error,
-    };
-    
-    throw walrusError;
   }
-}
 
-/**
- * Fetches JSON data from Walrus using a Content Identifier (CID)
- * 
- * @param cid - The Walrus Content Identifier (blob ID)
- * @returns Promise resolving to the parsed JSON data
- * @throws WalrusError if fetch fails
- */
-export async function fetchJson<T = unknown>(cid: string): Promise<T> {
-  try {
+  /**
+   * Content of a blob, from the cache or the aggregators
+   *
+   * Concurrent reads of the same content share one request. That request
+   * is not cancelled when a caller aborts, so it still fills the cache.
+   */
+  private async read(cid: string, options: WalrusRequestOptions): Promise<ArrayBuffer> {
     // Validate CID
     if (!cid || typeof cid !== 'string') {
-      throw new Error('Invalid CID: must be a non-empty string');
+      throw new WalrusError('INVALID_INPUT', 'Invalid CID: must be a non-empty string');
     }
 
-    // Construct fetch URL
-    const url = `${WALRUS_CONFIG.aggregatorUrl}/v1/${cid}`;
+    const { blobId, integrity } = parseContentRef(cid);
+    if (!integrity && this.integrity === 'require') {
+      throw new WalrusError('INVALID_INPUT', `CID ${cid} has no content hash to verify`);
+    }
 
-    console.log('Fetching from Walrus:', { url, cid });
+    const expected = this.integrity === 'skip' ? undefined : integrity;
+    const key = formatContentRef({ blobId, integrity: expected });
 
-    // Make HTTP GET request to Walrus aggregator
-    const response = await fetch(url, {
-      method: 'GET',
-      headers: {
-        'Accept': 'application/json',
-      },
+    let pending = this.inFlight.get(key);
+    if (!pending) {
+      pending = this.load(blobId, expected).finally(() => this.inFlight.delete(key));
+      this.inFlight.set(key, pending);
+    }
+
+    return abortable(pending, options.signal);
+  }
+
+  private async load(blobId: string, integrity: string | undefined): Promise<ArrayBuffer> {
+    const cached = await this.cache?.get(blobId).catch((error) => {
+      console.warn('Walrus cache read failed:', error);
+      return undefined;
     });
 
-    if (!response.ok) {
-      if (response.status === 404) {
-        throw new Error(`Content not found for CID: ${cid}`);
-      }
-      const errorText = await response.text();
-      throw new Error(`Fetch failed: ${response.status} - ${errorText}`);
+    // Cached content may have been read without a hash to check
+    if (cached && (!integrity || await matchesIntegrity(cached, integrity))) {
+      console.log('Fetched from Walrus cache:', { blobId });
+      return cached;
     }
 
-    // Parse JSON response
-    const data = await response.json();
+    console.log('Fetching from Walrus:', { blobId });
 
-    console.log('Fetch successful:', { cid, dataSize: JSON.stringify(data).length });
+    const response = await this.send('read', {
+      method: 'GET',
+      path: `/v1/${blobId}`,
+      verify: integrity
+        ? async (content) => {
+          if (!(await matchesIntegrity(content, integrity))) {
+            throw new WalrusError('INTEGRITY_MISMATCH', `Content of blob ${blobId} does not match its hash`);
+          }
+        }
+        : undefined,
+    });
 
-    return data as T;
-  } catch (error) {
-    console.error('Walrus fetch error:', error);
-    
-    const walrusError: WalrusError = {
-      message: error instanceof Error ? error.message : 'Unknown fetch error',
-      details: error,
-    };
-    
-    throw walrusError;
+    const content = await response.arrayBuffer();
+    this.cache?.put(blobId, content).catch((error) => console.warn('Walrus cache write failed:', error));
+
+    return content;
   }
-}
 
-/**
- * Generates a Walrus blob URL for direct access
- * 
- * @param cid - The Walrus Content Identifier
- * @returns Full URL to access the blob
- */
-export function getWalrusUrl(cid: string): string {
-  return `${WALRUS_CONFIG.aggregatorUrl}/v1/${cid}`;
-}
+  // Endpoint errors mark it unhealthy; any other response shows it is up
+  private record(endpoint: string, error: WalrusError, durationMs: number) {
+    if (this.retry.shouldRetry(error)) {
+      this.health.recordFailure(endpoint, error.message);
+    } else if (error.status !== null) {
+      this.health.recordSuccess(endpoint, durationMs);
+    }
+  }
 
-/**
- * Checks if Walrus service is available
- * 
- * @returns Promise resolving to true if service is reachable
- */
-export async function checkWalrusHealth(): Promise<boolean> {
-  try {
-    const response = await fetch(WALRUS_CONFIG.aggregatorUrl, {
-      method: 'HEAD',
-    });
-    return response.ok;
-  } catch {
-    return false;
+  /**
+   * Sends a request to the best endpoint, failing over to the others and
+   * retrying by the retry policy; resolves with a successful response only
+   */
+  private async send(kind: 'read' | 'upload', { path, verify, ...request }: SendRequest): Promise<WalrusTransportResponse> {
+    const endpointKind: WalrusEndpointKind = kind === 'upload' ? 'publisher' : 'aggregator';
+    let attempt = 0;
+
+    for (let round = 0; ; round++) {
+      const endpoints = this.health.rank(endpointKind);
+      if (endpoints.length === 0) {
+        throw new WalrusError('NO_ENDPOINT', `No Walrus ${endpointKind} is configured for this network`);
+      }
+
+      for (const [index, endpoint] of endpoints.entries()) {
+        const url = `${endpoint}${path}`;
+        const info: WalrusRequestInfo = { kind, method: request.method, url, endpoint, attempt: ++attempt };
+        const startedAt = Date.now();
+        this.hooks.onRequest?.(info);
+
+        try {
+          const response = await this.attempt(kind, { ...request, url });
+          if (verify) await verify(await response.arrayBuffer());
+          this.health.recordSuccess(endpoint, Date.now() - startedAt);
+          this.hooks.onResponse?.({ ...info, status: response.status, durationMs: Date.now() - startedAt });
+          return response;
+        } catch (error) {
+          // Failures outside the request itself, e.g. while verifying
+          const walrusError = error instanceof WalrusError
+            ? error
+            : new WalrusError('NETWORK_ERROR', `Network error: ${url}`, { details: error });
+          const durationMs = Date.now() - startedAt;
+          this.record(endpoint, walrusError, durationMs);
+
+          const willRetry = this.retry.shouldRetry(walrusError) &&
+            (index < endpoints.length - 1 || round < this.retry.retries);
+          this.hooks.onError?.({ ...info, error: walrusError, durationMs, willRetry });
+
+          if (!willRetry) {
+            console.error('Walrus request error:', walrusError);
+            throw walrusError;
+          }
+
+          if (index < endpoints.length - 1) {
+            console.warn(`⚠️ Walrus ${endpointKind} ${endpoint} failed, trying the next one:`, walrusError.message);
+          }
+        }
+      }
+
+      await sleep(this.retry.delayMs(round + 1), request.signal);
+    }
   }
-}
 
-/**
- * Configuration utilities
- */
-export const walrusConfig = {
-  getPublisherUrl: () => WALRUS_CONFIG.publisherUrl,
-  getAggregatorUrl: () => WALRUS_CONFIG.aggregatorUrl,
-  setPublisherUrl: (url: string) => {
-    WALRUS_CONFIG.publisherUrl = url;
-  },
-  setAggregatorUrl: (url: string) => {
-    WALRUS_CONFIG.aggregatorUrl = url;
-  },
-};
+  // One attempt, failing with a WalrusError on timeout, abort or a non-2xx
+  // status; the body is read within the timeout and returned buffered
+  private async attempt(
+    kind: WalrusRequestInfo['kind'],
+    { signal, ...request }: Omit<WalrusTransportRequest, 'signal'> & { signal?: AbortSignal }
+  ): Promise<WalrusTransportResponse> {
+    if (signal?.aborted) {
+      throw new WalrusError('ABORTED', 'Request aborted');
+    }
 
-export default {
-  uploadJson,
-  fetchJson,
-  getWalrusUrl,
-  checkWalrusHealth,
-  config: walrusConfig,
-};
+    // Aborted by the timeout or by the caller's signal
+    const controller = new AbortController();
+    const timeoutMs = kind === 'upload' ? this.timeouts.uploadMs : this.timeouts.readMs;
+    let timedOut = false;
+    const timer = setTimeout(() => {
+      timedOut = true;
+      controller.abort();
+    }, timeoutMs);
+    const abort = () => controller.abort();
+    signal?.addEventListener('abort', abort, { once: true });
+
+    try {
+      const response = await this.transport({ ...request, signal: controller.signal });
+
+      if (!response.ok) {
+        if (response.status === 404) {
+          throw new WalrusError('NOT_FOUND', `Content not found: ${request.url}`, { status: 404 });
+        }
+        const errorText = await response.text().catch(() => '');
+        throw new WalrusError('HTTP_ERROR', `Request failed: ${response.status} - ${errorText}`, {
+          status: response.status,
+        });
+      }
 
+      // A stalled body times out and fails over like a stalled response
+      return buffered(response, await response.arrayBuffer());
+    } catch (error) {
+      if (error instanceof WalrusError) throw error;
+      if (timedOut) {
+        throw new WalrusError('TIMEOUT', `Request timed out after ${timeoutMs}ms: ${request.url}`);
+      }
+      if (controller.signal.aborted) {
+        throw new WalrusError('ABORTED', 'Request aborted');
+      }
+      throw new WalrusError('NETWORK_ERROR', `Network error: ${request.url}`, { details: error });
+    } finally {
+      clearTimeout(timer);
+      signal?.removeEventListener('abort', abort);
+    }
+  }
+}
@@ -0,0 +1,120 @@
+/**
+ * Walrus Endpoint Health
+ *
+ * Tracks the health and latency of every publisher and aggregator a
+ * WalrusClient knows, from its own traffic and from health checks. The
+ * client asks for endpoints in ranked order (healthy and fastest first,
+ * failing ones last) and fails over down the list; components read the
+ * snapshot with useWalrusHealth.
+ */
+
+import type { WalrusEndpointHealth, WalrusEndpointKind, WalrusHealth, WalrusServiceHealth } from '../types/walrus';
+
+// Weight of the newest sample in the latency moving average
+const LATENCY_SMOOTHING = 0.3;
+
+// A failing endpoint is tried first again after this, if nothing else works
+const UNHEALTHY_COOLDOWN_MS = 30_000;
+
+const STATUS_RANK: Record<WalrusEndpointHealth['status'], number> = {
+  healthy: 0,
+  unknown: 1,
+  unhealthy: 2,
+};
+
+/**
+ * Overall health of one service: the best of its endpoints
+ */
+const summarize = (endpoints: WalrusEndpointHealth[]): WalrusServiceHealth => {
+  const best = endpoints.reduce<WalrusEndpointHealth | undefined>(
+    (current, endpoint) => (!current || STATUS_RANK[endpoint.status] < STATUS_RANK[current.status] ? endpoint : current),
+    undefined
+  );
+
+  return {
+    status: best?.status ?? 'unhealthy',
+    responseTime: best?.responseTime,
+    lastCheck: Math.max(0, ...endpoints.map((endpoint) => endpoint.lastCheck)),
+  };
+};
+
+export class WalrusHealthTracker {
+  private endpoints: WalrusEndpointHealth[];
+  private snapshot: WalrusHealth;
+  private readonly listeners = new Set<() => void>();
+
+  constructor(urls: Record<WalrusEndpointKind, string[]>) {
+    this.endpoints = (Object.keys(urls) as WalrusEndpointKind[]).flatMap((kind) =>
+      urls[kind].map((url): WalrusEndpointHealth => ({ url, kind, status: 'unknown', lastCheck: 0 }))
+    );
+    this.snapshot = this.buildSnapshot();
+  }
+
+  /**
+   * Endpoint URLs of a service, best first
+   *
+   * Healthy endpoints are sorted by latency; unhealthy ones go last until
+   * their cooldown has passed, so they get a chance to recover.
+   */
+  rank(kind: WalrusEndpointKind, now: number = Date.now()): string[] {
+    const score = (endpoint: WalrusEndpointHealth) =>
+      endpoint.status === 'unhealthy' && now - endpoint.lastCheck > UNHEALTHY_COOLDOWN_MS
+        ? STATUS_RANK.unknown
+        : STATUS_RANK[endpoint.status];
+
+    return this.endpoints
+      .filter((endpoint) => endpoint.kind === kind)
+      .sort((a, b) => score(a) - score(b) || (a.responseTime ?? Infinity) - (b.responseTime ?? Infinity))
+      .map((endpoint) => endpoint.url);
+  }
+
+  /**
+   * Records a successful response and its latency
+   */
+  recordSuccess(url: string, responseTime: number): void {
+    this.update(url, (endpoint) => ({
+      ...endpoint,
+      status: 'healthy',
+      responseTime: endpoint.responseTime === undefined
+        ? responseTime
+        : Math.round(endpoint.responseTime * (1 - LATENCY_SMOOTHING) + responseTime * LATENCY_SMOOTHING),
+      lastCheck: Date.now(),
+      lastError: undefined,
+    }));
+  }
+
+  /**
+   * Records a failure of the endpoint itself (not of the request)
+   */
+  recordFailure(url: string, error: string): void {
+    this.update(url, (endpoint) => ({
+      ...endpoint,
+      status: 'unhealthy',
+      lastCheck: Date.now(),
+      lastError: error,
+    }));
+  }
+
+  getSnapshot = (): WalrusHealth => this.snapshot;
+
+  subscribe = (listener: () => void): (() => void) => {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  };
+
+  private update(url: string, change: (endpoint: WalrusEndpointHealth) => WalrusEndpointHealth) {
+    this.endpoints = this.endpoints.map((endpoint) => (endpoint.url === url ? change(endpoint) : endpoint));
+    this.snapshot = this.buildSnapshot();
+    this.listeners.forEach((listener) => listener());
+  }
+
+  private buildSnapshot(): WalrusHealth {
+    return {
+      publisher: summarize(this.endpoints.filter((endpoint) => endpoint.kind === 'publisher')),
+      aggregator: summarize(this.endpoints.filter((endpoint) => endpoint.kind === 'aggregator')),
+      endpoints: this.endpoints,
+    };
+  }
+}
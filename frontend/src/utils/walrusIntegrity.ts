@@ -0,0 +1,55 @@
+/**
+ * Walrus Content Integrity
+ *
+ * Aggregators serve blobs by ID, but a client cannot recompute a Walrus
+ * blob ID from the downloaded bytes: the ID commits to the erasure-coded
+ * slivers, not to the content itself. Instead, uploads record a SHA-256
+ * hash of the content (in the Subresource Integrity format) next to the
+ * blob ID, as a content reference `<blobId>#sha256-<base64>`. That
+ * reference is what gets stored on chain or in metadata, so a read can
+ * check the bytes against a hash the aggregator does not control.
+ *
+ * Plain blob IDs, as stored before hashes were recorded, stay valid.
+ */
+
+const INTEGRITY_SEPARATOR = '#';
+const INTEGRITY_PREFIX = 'sha256-';
+
+export interface WalrusContentRef {
+  blobId: string;
+  // `sha256-<base64>` of the content, if recorded
+  integrity?: string;
+}
+
+/**
+ * Splits a content reference into its blob ID and content hash
+ */
+export const parseContentRef = (ref: string): WalrusContentRef => {
+  const separator = ref.indexOf(INTEGRITY_SEPARATOR);
+  if (separator === -1) return { blobId: ref };
+
+  return {
+    blobId: ref.slice(0, separator),
+    integrity: ref.slice(separator + 1) || undefined,
+  };
+};
+
+/**
+ * Content reference of a blob with the hash of its content
+ */
+export const formatContentRef = ({ blobId, integrity }: WalrusContentRef): string =>
+  integrity ? `${blobId}${INTEGRITY_SEPARATOR}${integrity}` : blobId;
+
+/**
+ * SHA-256 hash of content, as `sha256-<base64>`
+ */
+export const computeIntegrity = async (content: ArrayBuffer): Promise<string> => {
+  const digest = new Uint8Array(await crypto.subtle.digest('SHA-256', content));
+  return INTEGRITY_PREFIX + btoa(String.fromCharCode(...digest));
+};
+
+/**
+ * Whether content matches a recorded hash; only SHA-256 hashes are supported
+ */
+export const matchesIntegrity = async (content: ArrayBuffer, integrity: string): Promise<boolean> =>
+  integrity.startsWith(INTEGRITY_PREFIX) && (await computeIntegrity(content)) === integrity;
@@ -0,0 +1,223 @@
+/**
+ * HTTP/JSON API
+ *
+ * Read-only endpoints over the store, served with permissive CORS so the
+ * frontend can query the indexer directly:
+ *
+ * GET /health                                   ingestion status
+ * GET /projects?owner=&status=&sort=&cursor=&limit=
+ *                                               projects, newest first by default
+ * GET /projects/:id                             one project
+ * GET /projects/:id/events?after=&limit=        events of a project, in log order
+ * GET /projects/:id/feedback                    feedback, newest first
+ * GET /projects/:id/jobs                        jobs, by job ID
+ * GET /projects/:id/polls                       polls, by poll ID
+ * GET /projects/:id/polls/:pollId/votes         votes and tallies of a poll
+ * GET /backers/:address/contributions?projectId=  receipts of a backer
+ */
+
+import { createServer } from 'node:http';
+import type { IncomingMessage, ServerResponse } from 'node:http';
+import type { IndexerConfig } from './config.js';
+import type { FoundryStore } from './db.js';
+import type { ProjectSort, ProjectStatus } from './types.js';
+
+const DEFAULT_PAGE_SIZE = 24;
+const MAX_PAGE_SIZE = 100;
+
+const ID_PATTERN = /^0x[0-9a-fA-F]{1,64}$/;
+
+const PROJECT_SORTS: ProjectSort[] = ['newest', 'ending_soon', 'most_funded', 'closest_to_goal', 'percent_funded'];
+const PROJECT_STATUSES: ProjectStatus[] = ['active', 'goal_reached', 'expired', 'withdrawn'];
+
+/**
+ * Error answered with its status code instead of a 500
+ */
+class HttpError extends Error {
+  readonly status: number;
+
+  constructor(status: number, message: string) {
+    super(message);
+    this.name = 'HttpError';
+    this.status = status;
+  }
+}
+
+const sendJson = (response: ServerResponse, status: number, body: unknown) => {
+  response.writeHead(status, {
+    'Content-Type': 'application/json',
+    'Access-Control-Allow-Origin': '*',
+    'Cache-Control': 'no-store',
+  });
+  response.end(JSON.stringify(body));
+};
+
+const parseId = (value: string, label: string): string => {
+  if (!ID_PATTERN.test(value)) {
+    throw new HttpError(400, `${label} is not an object ID or address: "${value}"`);
+  }
+  return value;
+};
+
+const parseLimit = (value: string | null): number => {
+  if (value === null) return DEFAULT_PAGE_SIZE;
+
+  const limit = Number(value);
+  if (!Number.isInteger(limit) || limit <= 0) {
+    throw new HttpError(400, `limit must be a positive integer, got "${value}"`);
+  }
+  return Math.min(limit, MAX_PAGE_SIZE);
+};
+
+const parseSort = (value: string | null): ProjectSort => {
+  if (value === null) return 'newest';
+
+  if (!PROJECT_SORTS.includes(value as ProjectSort)) {
+    throw new HttpError(400, `sort must be one of ${PROJECT_SORTS.join(', ')}, got "${value}"`);
+  }
+  return value as ProjectSort;
+};
+
+// Comma-separated, e.g. "active,goal_reached"
+const parseStatuses = (value: string | null): ProjectStatus[] | undefined => {
+  if (value === null) return undefined;
+
+  const statuses = value.split(',');
+  const invalid = statuses.find((status) => !PROJECT_STATUSES.includes(status as ProjectStatus));
+  if (invalid !== undefined) {
+    throw new HttpError(400, `status must be one of ${PROJECT_STATUSES.join(', ')}, got "${invalid}"`);
+  }
+  return statuses as ProjectStatus[];
+};
+
+// Cursors are returned by GET /projects as "<created_at>:<project ID>"
+// when newest first, and as offsets in the other orders
+const parseCursor = (value: string | null, sort: ProjectSort): string | undefined => {
+  if (value === null) return undefined;
+
+  const pattern = sort === 'newest' ? /^\d+:0x[0-9a-fA-F]{1,64}$/ : /^\d+$/;
+  if (!pattern.test(value)) {
+    throw new HttpError(400, `Invalid cursor: "${value}"`);
+  }
+  return value;
+};
+
+const parsePollId = (value: string): bigint => {
+  if (!/^\d+$/.test(value)) {
+    throw new HttpError(400, `pollId must be an unsigned integer, got "${value}"`);
+  }
+  return BigInt(value);
+};
+
+// Positions are returned by GET /projects/:id/events as `cursor`
+const parseAfter = (value: string | null): bigint | undefined => {
+  if (value === null) return undefined;
+
+  if (!/^\d+$/.test(value)) {
+    throw new HttpError(400, `after must be an unsigned integer, got "${value}"`);
+  }
+  return BigInt(value);
+};
+
+/**
+ * Creates the API server (call `listen` to start it)
+ */
+export function createApiServer(
+  store: FoundryStore,
+  config: IndexerConfig,
+  getStatus: () => { lastError: string | null }
+) {
+  const route = (segments: string[], query: URLSearchParams): unknown => {
+    const [resource, id, child, childId, grandchild] = segments;
+
+    if (resource === 'health' && segments.length === 1) {
+      const { lastError } = getStatus();
+      return {
+        network: config.network,
+        packageId: config.originalPackageId,
+        cursors: store.getCursorUpdates(),
+        lastError,
+      };
+    }
+
+    if (resource === 'projects') {
+      if (segments.length === 1) {
+        const owner = query.get('owner');
+        const sort = parseSort(query.get('sort'));
+        return store.listProjects({
+          owner: owner ? parseId(owner, 'owner') : undefined,
+          statuses: parseStatuses(query.get('status')),
+          sort,
+          cursor: parseCursor(query.get('cursor'), sort),
+          limit: parseLimit(query.get('limit')),
+        });
+      }
+
+      const projectId = parseId(id, 'Project ID');
+
+      if (segments.length === 2) {
+        const project = store.getProject(projectId);
+        if (!project) throw new HttpError(404, `Project ${projectId} is not indexed`);
+        return project;
+      }
+
+      if (segments.length === 3 && child === 'events') {
+        return store.listProjectEvents(projectId, {
+          after: parseAfter(query.get('after')),
+          limit: parseLimit(query.get('limit')),
+        });
+      }
+      if (segments.length === 3 && child === 'feedback') return store.listFeedback(projectId);
+      if (segments.length === 3 && child === 'jobs') return store.listJobs(projectId);
+      if (segments.length === 3 && child === 'polls') return store.listPolls(projectId);
+
+      if (segments.length === 5 && child === 'polls' && grandchild === 'votes') {
+        const votes = store.getPollVotes(projectId, parsePollId(childId));
+        if (!votes) throw new HttpError(404, `Poll ${childId} of project ${projectId} is not indexed`);
+        return votes;
+      }
+    }
+
+    if (resource === 'backers' && segments.length === 3 && child === 'contributions') {
+      const projectId = query.get('projectId');
+      return store.listContributionsByBacker(
+        parseId(id, 'Backer address'),
+        projectId ? parseId(projectId, 'projectId') : undefined
+      );
+    }
+
+    throw new HttpError(404, 'Not found');
+  };
+
+  const handle = (request: IncomingMessage, response: ServerResponse) => {
+    if (request.method === 'OPTIONS') {
+      response.writeHead(204, {
+        'Access-Control-Allow-Origin': '*',
+        'Access-Control-Allow-Methods': 'GET, OPTIONS',
+      });
+      response.end();
+      return;
+    }
+
+    if (request.method !== 'GET') {
+      sendJson(response, 405, { error: 'Method not allowed' });
+      return;
+    }
+
+    try {
+      const url = new URL(request.url ?? '/', 'http://localhost');
+      const segments = url.pathname.split('/').filter(Boolean).map(decodeURIComponent);
+      sendJson(response, 200, route(segments, url.searchParams));
+    } catch (error) {
+      if (error instanceof HttpError) {
+        sendJson(response, error.status, { error: error.message });
+        return;
+      }
+
+      console.error('❌ API request failed:', request.url, error);
+      sendJson(response, 500, { error: 'Internal error' });
+    }
+  };
+
+  return createServer(handle);
+}
@@ -0,0 +1,97 @@
+/**
+ * Indexer Configuration
+ *
+ * Read from environment variables. The package is resolved from the same
+ * deployment manifest the frontend uses (`frontend/public/deployments.json`),
+ * so a new deployment does not need a separate indexer setting.
+ */
+
+import { readFileSync } from 'node:fs';
+import { resolve } from 'node:path';
+import { getFullnodeUrl } from '@mysten/sui/client';
+
+export type SuiNetwork = 'testnet' | 'mainnet' | 'devnet' | 'localnet';
+
+const SUI_NETWORKS: SuiNetwork[] = ['testnet', 'mainnet', 'devnet', 'localnet'];
+
+/**
+ * Everything the indexer needs to ingest and serve one network
+ */
+export interface IndexerConfig {
+  network: SuiNetwork;
+  rpcUrl: string;
+  // Struct and event types keep the ID of the first published version
+  originalPackageId: string;
+  contributionType: string;
+  databasePath: string;
+  port: number;
+  pollIntervalMs: number;
+}
+
+const ID_PATTERN = /^0x[0-9a-fA-F]{1,64}$/;
+
+const isSuiNetwork = (value: unknown): value is SuiNetwork =>
+  SUI_NETWORKS.includes(value as SuiNetwork);
+
+const readNumber = (name: string, fallback: number): number => {
+  const raw = process.env[name];
+  if (!raw) return fallback;
+
+  const value = Number(raw);
+  if (!Number.isInteger(value) || value <= 0) {
+    throw new Error(`${name} must be a positive integer, got "${raw}"`);
+  }
+  return value;
+};
+
+/**
+ * Reads the original package ID of a network from the deployment manifest
+ */
+const readOriginalPackageId = (manifestPath: string, network: SuiNetwork): string => {
+  const manifest = JSON.parse(readFileSync(manifestPath, 'utf8')) as Record<string, { originalPackageId?: unknown }>;
+  const packageId = manifest[network]?.originalPackageId;
+
+  if (typeof packageId !== 'string' || !ID_PATTERN.test(packageId)) {
+    throw new Error(`No ${network} deployment in ${manifestPath}`);
+  }
+  return packageId;
+};
+
+/**
+ * Loads the configuration from the environment
+ *
+ * SUI_NETWORK        network to index (default: testnet)
+ * SUI_RPC_URL        fullnode URL (default: the public fullnode of the network)
+ * FOUNDRY_PACKAGE_ID original package ID, overriding the manifest
+ * DEPLOYMENTS_PATH   deployment manifest (default: ../frontend/public/deployments.json)
+ * DATABASE_PATH      SQLite file (default: data/foundry-<network>.db)
+ * PORT               HTTP API port (default: 4000)
+ * POLL_INTERVAL_MS   delay between two ingestion passes (default: 2000)
+ */
+export function loadConfig(): IndexerConfig {
+  const network = process.env.SUI_NETWORK || 'testnet';
+  if (!isSuiNetwork(network)) {
+    throw new Error(`SUI_NETWORK must be one of ${SUI_NETWORKS.join(', ')}, got "${network}"`);
+  }
+
+  const originalPackageId =
+    process.env.FOUNDRY_PACKAGE_ID ||
+    readOriginalPackageId(
+      resolve(process.env.DEPLOYMENTS_PATH || '../frontend/public/deployments.json'),
+      network
+    );
+
+  if (!ID_PATTERN.test(originalPackageId)) {
+    throw new Error(`FOUNDRY_PACKAGE_ID is not an object ID: "${originalPackageId}"`);
+  }
+
+  return {
+    network,
+    rpcUrl: process.env.SUI_RPC_URL || (network === 'localnet' ? 'http://localhost:9000' : getFullnodeUrl(network)),
+    originalPackageId,
+    contributionType: `${originalPackageId}::foundry::Contribution`,
+    databasePath: resolve(process.env.DATABASE_PATH || `data/foundry-${network}.db`),
+    port: readNumber('PORT', 4000),
+    pollIntervalMs: readNumber('POLL_INTERVAL_MS', 2000),
+  };
+}
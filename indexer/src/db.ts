@@ -0,0 +1,679 @@
+/**
+ * SQLite Store
+ *
+ * Rows are derived from events only. Aggregates are sums (funding) or
+ * computed when read (withdrawal, vote tallies), so the order in which
+ * event types are ingested does not matter.
+ *
+ * SQLite integers are signed 64-bit, so u64 values are stored as TEXT,
+ * zero-padded to a fixed width so that comparing and ordering them as
+ * text matches their numeric order, and served as plain strings.
+ */
+
+import { mkdirSync } from 'node:fs';
+import { dirname } from 'node:path';
+import Database from 'better-sqlite3';
+import type { EventId } from '@mysten/sui/client';
+import type {
+  ContributionMadeEvent,
+  ContributionReceipt,
+  EventSource,
+  FeedbackSubmittedEvent,
+  FundsWithdrawnEvent,
+  IndexedContribution,
+  IndexedFeedback,
+  IndexedJob,
+  IndexedPoll,
+  IndexedProject,
+  IndexedProjectEvent,
+  JobPostedEvent,
+  Page,
+  PollCreatedEvent,
+  PollVotes,
+  ProjectCreatedEvent,
+  ProjectEventsPage,
+  ProjectSort,
+  ProjectStatus,
+  RefundIssuedEvent,
+  VoteCastEvent,
+} from './types.js';
+
+// Bumped when the schema changes; rows are derived from events, so an
+// older database is dropped and ingested again
+const SCHEMA_VERSION = 2;
+
+// Digits of u64::MAX
+const U64_WIDTH = 20;
+
+const toU64Text = (value: string | bigint) => BigInt(value).toString().padStart(U64_WIDTH, '0');
+const fromU64Text = (value: string | bigint) => BigInt(value).toString();
+
+const SCHEMA = `
+  CREATE TABLE IF NOT EXISTS cursors (
+    event_type TEXT PRIMARY KEY,
+    tx_digest TEXT NOT NULL,
+    event_seq TEXT NOT NULL,
+    updated_at INTEGER NOT NULL
+  );
+
+  CREATE TABLE IF NOT EXISTS projects (
+    id TEXT PRIMARY KEY,
+    owner TEXT NOT NULL,
+    funding_goal TEXT NOT NULL,
+    deadline TEXT NOT NULL,
+    metadata_cid TEXT NOT NULL,
+    created_at INTEGER NOT NULL,
+    tx_digest TEXT NOT NULL
+  );
+  CREATE INDEX IF NOT EXISTS projects_by_created ON projects (created_at DESC, id);
+  CREATE INDEX IF NOT EXISTS projects_by_owner ON projects (owner);
+
+  -- One row per ContributionMade event
+  CREATE TABLE IF NOT EXISTS fundings (
+    tx_digest TEXT NOT NULL,
+    event_seq TEXT NOT NULL,
+    project_id TEXT NOT NULL,
+    contributor TEXT NOT NULL,
+    amount TEXT NOT NULL,
+    created_at INTEGER NOT NULL,
+    PRIMARY KEY (tx_digest, event_seq)
+  );
+  CREATE INDEX IF NOT EXISTS fundings_by_project ON fundings (project_id);
+
+  -- Contribution receipts minted alongside ContributionMade events
+  CREATE TABLE IF NOT EXISTS contributions (
+    id TEXT PRIMARY KEY,
+    project_id TEXT NOT NULL,
+    backer TEXT NOT NULL,
+    amount TEXT NOT NULL,
+    created_at INTEGER NOT NULL,
+    tx_digest TEXT NOT NULL
+  );
+  CREATE INDEX IF NOT EXISTS contributions_by_backer ON contributions (backer, project_id);
+
+  -- One row per RefundIssued event
+  CREATE TABLE IF NOT EXISTS refunds (
+    tx_digest TEXT NOT NULL,
+    event_seq TEXT NOT NULL,
+    project_id TEXT NOT NULL,
+    backer TEXT NOT NULL,
+    amount TEXT NOT NULL,
+    created_at INTEGER NOT NULL,
+    PRIMARY KEY (tx_digest, event_seq)
+  );
+  CREATE INDEX IF NOT EXISTS refunds_by_project ON refunds (project_id);
+
+  -- Receipts deleted by reclaim_funds
+  CREATE TABLE IF NOT EXISTS refunded_contributions (
+    contribution_id TEXT PRIMARY KEY,
+    tx_digest TEXT NOT NULL
+  );
+
+  -- Funded and refunded sums per project, kept by addFunding and addRefund
+  CREATE TABLE IF NOT EXISTS project_totals (
+    project_id TEXT PRIMARY KEY,
+    funded TEXT NOT NULL,
+    refunded TEXT NOT NULL,
+    current_funding TEXT NOT NULL
+  );
+
+  CREATE TABLE IF NOT EXISTS withdrawals (
+    project_id TEXT PRIMARY KEY,
+    owner TEXT NOT NULL,
+    amount TEXT NOT NULL,
+    created_at INTEGER NOT NULL,
+    tx_digest TEXT NOT NULL
+  );
+
+  CREATE TABLE IF NOT EXISTS jobs (
+    project_id TEXT NOT NULL,
+    job_id TEXT NOT NULL,
+    title TEXT NOT NULL,
+    description_cid TEXT NOT NULL,
+    created_at INTEGER NOT NULL,
+    tx_digest TEXT NOT NULL,
+    PRIMARY KEY (project_id, job_id)
+  );
+
+  CREATE TABLE IF NOT EXISTS polls (
+    project_id TEXT NOT NULL,
+    poll_id TEXT NOT NULL,
+    question TEXT NOT NULL,
+    options_count TEXT NOT NULL,
+    created_at INTEGER NOT NULL,
+    tx_digest TEXT NOT NULL,
+    PRIMARY KEY (project_id, poll_id)
+  );
+
+  CREATE TABLE IF NOT EXISTS votes (
+    project_id TEXT NOT NULL,
+    poll_id TEXT NOT NULL,
+    voter TEXT NOT NULL,
+    option_index TEXT NOT NULL,
+    created_at INTEGER NOT NULL,
+    tx_digest TEXT NOT NULL,
+    PRIMARY KEY (project_id, poll_id, voter)
+  );
+
+  CREATE TABLE IF NOT EXISTS feedback (
+    id TEXT PRIMARY KEY,
+    project_id TEXT NOT NULL,
+    backer TEXT NOT NULL,
+    message_cid TEXT NOT NULL,
+    created_at INTEGER NOT NULL,
+    tx_digest TEXT NOT NULL
+  );
+  CREATE INDEX IF NOT EXISTS feedback_by_project ON feedback (project_id, created_at DESC);
+
+  -- Every event naming a project, in ingestion order, for live updates
+  CREATE TABLE IF NOT EXISTS project_events (
+    seq INTEGER PRIMARY KEY AUTOINCREMENT,
+    project_id TEXT NOT NULL,
+    event_type TEXT NOT NULL,
+    payload TEXT NOT NULL,
+    created_at INTEGER NOT NULL,
+    tx_digest TEXT NOT NULL,
+    event_seq TEXT NOT NULL,
+    UNIQUE (tx_digest, event_seq)
+  );
+  CREATE INDEX IF NOT EXISTS project_events_by_project ON project_events (project_id, seq);
+`;
+
+// Project columns with funding and withdrawal aggregated from events
+const PROJECT_SELECT = `
+  SELECT
+    p.*,
+    COALESCE(t.current_funding, '${toU64Text(0n)}') AS current_funding,
+    EXISTS (SELECT 1 FROM withdrawals WHERE project_id = p.id) AS is_withdrawn,
+    (SELECT COUNT(DISTINCT contributor) FROM fundings WHERE project_id = p.id) AS backer_count
+  FROM projects p
+  LEFT JOIN project_totals t ON t.project_id = p.id
+`;
+
+// Status of a PROJECT_SELECT row at @now (u64 text), as the frontend derives it
+const PROJECT_STATUS = `
+  CASE
+    WHEN is_withdrawn THEN 'withdrawn'
+    WHEN current_funding >= funding_goal THEN 'goal_reached'
+    WHEN @now > deadline THEN 'expired'
+    ELSE 'active'
+  END
+`;
+
+interface ListedProject {
+  project: IndexedProject;
+  status: ProjectStatus;
+}
+
+const compareBigInt = (a: bigint, b: bigint): number => (a < b ? -1 : a > b ? 1 : 0);
+
+// Funded ratio in basis points (10000 = 100%)
+const fundedBasisPoints = ({ project }: ListedProject): bigint => {
+  const goal = BigInt(project.funding_goal);
+  return goal === 0n ? 0n : (BigInt(project.current_funding) * 10_000n) / goal;
+};
+
+const remaining = ({ project }: ListedProject): bigint =>
+  BigInt(project.funding_goal) - BigInt(project.current_funding);
+
+// Orders other than newest first, applied to a newest-first list with
+// bigint arithmetic (a stable sort, so ties keep newest first)
+const PROJECT_ORDERS: Record<Exclude<ProjectSort, 'newest'>, (a: ListedProject, b: ListedProject) => number> = {
+  // Open campaigns first, soonest deadline first
+  ending_soon: (a, b) =>
+    Number(a.status !== 'active') - Number(b.status !== 'active') ||
+    compareBigInt(BigInt(a.project.deadline), BigInt(b.project.deadline)),
+  most_funded: (a, b) => compareBigInt(BigInt(b.project.current_funding), BigInt(a.project.current_funding)),
+  // Smallest remaining amount first; projects that reached their goal last
+  closest_to_goal: (a, b) =>
+    Number(remaining(a) <= 0n) - Number(remaining(b) <= 0n) || compareBigInt(remaining(a), remaining(b)),
+  percent_funded: (a, b) => compareBigInt(fundedBasisPoints(b), fundedBasisPoints(a)),
+};
+
+const PROJECT_FILTER = `
+  (@owner IS NULL OR owner = @owner)
+  AND (@statuses IS NULL OR ${PROJECT_STATUS} IN (SELECT value FROM json_each(@statuses)))
+`;
+
+const CONTRIBUTION_SELECT = `
+  SELECT c.*, r.contribution_id IS NOT NULL AS is_refunded
+  FROM contributions c
+  LEFT JOIN refunded_contributions r ON r.contribution_id = c.id
+`;
+
+// Rows as read with safeIntegers: every INTEGER column is a bigint
+type Row = Record<string, string | bigint>;
+
+const toProject = (row: Row): IndexedProject => ({
+  id: String(row.id),
+  owner: String(row.owner),
+  funding_goal: fromU64Text(row.funding_goal),
+  deadline: fromU64Text(row.deadline),
+  metadata_cid: String(row.metadata_cid),
+  current_funding: fromU64Text(row.current_funding),
+  is_withdrawn: row.is_withdrawn === 1n,
+  backer_count: Number(row.backer_count),
+  created_at: Number(row.created_at),
+  tx_digest: String(row.tx_digest),
+});
+
+const toContribution = (row: Row): IndexedContribution => ({
+  id: String(row.id),
+  project_id: String(row.project_id),
+  backer: String(row.backer),
+  amount: fromU64Text(row.amount),
+  is_refunded: row.is_refunded === 1n,
+  created_at: Number(row.created_at),
+  tx_digest: String(row.tx_digest),
+});
+
+const toFeedback = (row: Row): IndexedFeedback => ({
+  id: String(row.id),
+  project_id: String(row.project_id),
+  backer: String(row.backer),
+  message_cid: String(row.message_cid),
+  created_at: Number(row.created_at),
+  tx_digest: String(row.tx_digest),
+});
+
+const toProjectEvent = (row: Row): IndexedProjectEvent => ({
+  seq: String(row.seq),
+  event_type: String(row.event_type),
+  payload: JSON.parse(String(row.payload)),
+  created_at: Number(row.created_at),
+  tx_digest: String(row.tx_digest),
+});
+
+const toJob = (row: Row): IndexedJob => ({
+  project_id: String(row.project_id),
+  job_id: fromU64Text(row.job_id),
+  title: String(row.title),
+  description_cid: String(row.description_cid),
+  created_at: Number(row.created_at),
+  tx_digest: String(row.tx_digest),
+});
+
+const toPoll = (row: Row): IndexedPoll => ({
+  project_id: String(row.project_id),
+  poll_id: fromU64Text(row.poll_id),
+  question: String(row.question),
+  options_count: Number(row.options_count),
+  created_at: Number(row.created_at),
+  tx_digest: String(row.tx_digest),
+});
+
+// Project pages are ordered newest first; the cursor is the last row's "<created_at>:<id>"
+const encodeProjectCursor = (project: IndexedProject) => `${project.created_at}:${project.id}`;
+
+const decodeProjectCursor = (cursor: string): { createdAt: number; id: string } => {
+  const [createdAt, id] = cursor.split(':');
+  if (!id || !Number.isInteger(Number(createdAt))) {
+    throw new Error(`Invalid cursor: "${cursor}"`);
+  }
+  return { createdAt: Number(createdAt), id };
+};
+
+/**
+ * Opens (and creates if needed) the indexer database
+ */
+export function openStore(databasePath: string) {
+  mkdirSync(dirname(databasePath), { recursive: true });
+
+  const db = new Database(databasePath);
+  db.pragma('journal_mode = WAL');
+
+  if (db.pragma('user_version', { simple: true }) !== SCHEMA_VERSION) {
+    const tables = db
+      .prepare("SELECT name FROM sqlite_master WHERE type = 'table' AND name NOT LIKE 'sqlite_%'")
+      .pluck()
+      .all() as string[];
+    tables.forEach((table) => db.exec(`DROP TABLE "${table}"`));
+    db.pragma(`user_version = ${SCHEMA_VERSION}`);
+  }
+  db.exec(SCHEMA);
+
+  const select = (sql: string) => db.prepare(sql).safeIntegers(true);
+
+  const statements = {
+    getCursor: select('SELECT tx_digest, event_seq FROM cursors WHERE event_type = ?'),
+    getCursors: select('SELECT event_type, updated_at FROM cursors'),
+    setCursor: db.prepare(`
+      INSERT INTO cursors (event_type, tx_digest, event_seq, updated_at) VALUES (?, ?, ?, ?)
+      ON CONFLICT (event_type) DO UPDATE SET
+        tx_digest = excluded.tx_digest, event_seq = excluded.event_seq, updated_at = excluded.updated_at
+    `),
+
+    insertProject: db.prepare('INSERT OR IGNORE INTO projects VALUES (?, ?, ?, ?, ?, ?, ?)'),
+    insertFunding: db.prepare('INSERT OR IGNORE INTO fundings VALUES (?, ?, ?, ?, ?, ?)'),
+    insertContribution: db.prepare('INSERT OR IGNORE INTO contributions VALUES (?, ?, ?, ?, ?, ?)'),
+    insertRefund: db.prepare('INSERT OR IGNORE INTO refunds VALUES (?, ?, ?, ?, ?, ?)'),
+    getTotals: select('SELECT funded, refunded FROM project_totals WHERE project_id = ?'),
+    setTotals: db.prepare(`
+      INSERT INTO project_totals (project_id, funded, refunded, current_funding) VALUES (?, ?, ?, ?)
+      ON CONFLICT (project_id) DO UPDATE SET
+        funded = excluded.funded, refunded = excluded.refunded, current_funding = excluded.current_funding
+    `),
+    insertRefundedContribution: db.prepare('INSERT OR IGNORE INTO refunded_contributions VALUES (?, ?)'),
+    insertWithdrawal: db.prepare('INSERT OR IGNORE INTO withdrawals VALUES (?, ?, ?, ?, ?)'),
+    insertJob: db.prepare('INSERT OR IGNORE INTO jobs VALUES (?, ?, ?, ?, ?, ?)'),
+    insertPoll: db.prepare('INSERT OR IGNORE INTO polls VALUES (?, ?, ?, ?, ?, ?)'),
+    insertVote: db.prepare('INSERT OR IGNORE INTO votes VALUES (?, ?, ?, ?, ?, ?)'),
+    insertFeedback: db.prepare('INSERT OR IGNORE INTO feedback VALUES (?, ?, ?, ?, ?, ?)'),
+    insertProjectEvent: db.prepare(`
+      INSERT OR IGNORE INTO project_events (project_id, event_type, payload, created_at, tx_digest, event_seq)
+      VALUES (?, ?, ?, ?, ?, ?)
+    `),
+
+    getProject: select(`${PROJECT_SELECT} WHERE p.id = ?`),
+    listProjects: select(`
+      SELECT * FROM (${PROJECT_SELECT})
+      WHERE ${PROJECT_FILTER}
+        AND (@createdAt IS NULL OR created_at < @createdAt OR (created_at = @createdAt AND id > @id))
+      ORDER BY created_at DESC, id
+      LIMIT @limit
+    `),
+    // Every matching project, to be sorted in another order
+    listAllProjects: select(`
+      SELECT *, ${PROJECT_STATUS} AS status FROM (${PROJECT_SELECT})
+      WHERE ${PROJECT_FILTER}
+      ORDER BY created_at DESC, id
+    `),
+    listContributionsByBacker: select(`
+      ${CONTRIBUTION_SELECT}
+      WHERE c.backer = @backer AND (@projectId IS NULL OR c.project_id = @projectId)
+      ORDER BY c.created_at DESC, c.id
+    `),
+    listFeedback: select('SELECT * FROM feedback WHERE project_id = ? ORDER BY created_at DESC, id'),
+    listProjectEvents: select('SELECT * FROM project_events WHERE project_id = ? AND seq > ? ORDER BY seq LIMIT ?'),
+    getLatestProjectEvent: select('SELECT COALESCE(MAX(seq), 0) AS seq FROM project_events WHERE project_id = ?'),
+    listJobs: select('SELECT * FROM jobs WHERE project_id = ? ORDER BY job_id'),
+    listPolls: select('SELECT * FROM polls WHERE project_id = ? ORDER BY poll_id'),
+    getPoll: select('SELECT * FROM polls WHERE project_id = ? AND poll_id = ?'),
+    listVotes: select(`
+      SELECT voter, option_index, created_at, tx_digest FROM votes
+      WHERE project_id = ? AND poll_id = ?
+      ORDER BY created_at, voter
+    `),
+  };
+
+  // Adds to a project's funded and refunded sums, with bigint arithmetic
+  const addToTotals = (projectId: string, funded: bigint, refunded: bigint) => {
+    const row = statements.getTotals.get(projectId) as Row | undefined;
+    const totalFunded = (row ? BigInt(row.funded) : 0n) + funded;
+    const totalRefunded = (row ? BigInt(row.refunded) : 0n) + refunded;
+    // Refunds may be ingested before the contributions they return
+    const current = totalFunded > totalRefunded ? totalFunded - totalRefunded : 0n;
+
+    statements.setTotals.run(projectId, toU64Text(totalFunded), toU64Text(totalRefunded), toU64Text(current));
+  };
+
+  return {
+    close: () => db.close(),
+
+    // Ingestion
+
+    getCursor(eventType: string): EventId | null {
+      const row = statements.getCursor.get(eventType) as Row | undefined;
+      return row ? { txDigest: String(row.tx_digest), eventSeq: String(row.event_seq) } : null;
+    },
+
+    /**
+     * Last time each event type's cursor moved, in milliseconds
+     */
+    getCursorUpdates(): Record<string, number> {
+      const rows = statements.getCursors.all() as Row[];
+      return Object.fromEntries(rows.map((row) => [String(row.event_type), Number(row.updated_at)]));
+    },
+
+    /**
+     * Runs the writes of one page of events and moves the cursor, atomically
+     */
+    commitPage(eventType: string, cursor: EventId, write: () => void) {
+      db.transaction(() => {
+        write();
+        statements.setCursor.run(eventType, cursor.txDigest, cursor.eventSeq, Date.now());
+      })();
+    },
+
+    addProject(event: ProjectCreatedEvent, source: EventSource) {
+      statements.insertProject.run(
+        event.project_id,
+        event.owner,
+        toU64Text(event.funding_goal),
+        toU64Text(event.deadline),
+        event.metadata_cid,
+        source.timestampMs,
+        source.txDigest
+      );
+    },
+
+    addFunding(event: ContributionMadeEvent, source: EventSource) {
+      const { changes } = statements.insertFunding.run(
+        source.txDigest,
+        source.eventSeq,
+        event.project_id,
+        event.contributor,
+        toU64Text(event.amount),
+        source.timestampMs
+      );
+      if (changes > 0) addToTotals(event.project_id, BigInt(event.amount), 0n);
+    },
+
+    addContribution(receipt: ContributionReceipt, source: EventSource) {
+      statements.insertContribution.run(
+        receipt.id,
+        receipt.projectId,
+        receipt.backer,
+        toU64Text(receipt.amount),
+        source.timestampMs,
+        source.txDigest
+      );
+    },
+
+    addRefund(event: RefundIssuedEvent, source: EventSource) {
+      const { changes } = statements.insertRefund.run(
+        source.txDigest,
+        source.eventSeq,
+        event.project_id,
+        event.backer,
+        toU64Text(event.amount),
+        source.timestampMs
+      );
+      if (changes > 0) addToTotals(event.project_id, 0n, BigInt(event.amount));
+    },
+
+    markContributionRefunded(contributionId: string, txDigest: string) {
+      statements.insertRefundedContribution.run(contributionId, txDigest);
+    },
+
+    addWithdrawal(event: FundsWithdrawnEvent, source: EventSource) {
+      statements.insertWithdrawal.run(
+        event.project_id,
+        event.owner,
+        toU64Text(event.amount),
+        source.timestampMs,
+        source.txDigest
+      );
+    },
+
+    addJob(event: JobPostedEvent, source: EventSource) {
+      statements.insertJob.run(
+        event.project_id,
+        toU64Text(event.job_id),
+        event.title,
+        event.description_cid,
+        source.timestampMs,
+        source.txDigest
+      );
+    },
+
+    addPoll(event: PollCreatedEvent, source: EventSource) {
+      statements.insertPoll.run(
+        event.project_id,
+        toU64Text(event.poll_id),
+        event.question,
+        toU64Text(event.options_count),
+        source.timestampMs,
+        source.txDigest
+      );
+    },
+
+    addVote(event: VoteCastEvent, source: EventSource) {
+      statements.insertVote.run(
+        event.project_id,
+        toU64Text(event.poll_id),
+        event.voter,
+        toU64Text(event.option_index),
+        source.timestampMs,
+        source.txDigest
+      );
+    },
+
+    addFeedback(event: FeedbackSubmittedEvent, source: EventSource) {
+      statements.insertFeedback.run(
+        event.feedback_id,
+        event.project_id,
+        event.backer,
+        event.message_cid,
+        source.timestampMs,
+        source.txDigest
+      );
+    },
+
+    addProjectEvent(eventType: string, projectId: string, payload: unknown, source: EventSource) {
+      statements.insertProjectEvent.run(
+        projectId,
+        eventType,
+        JSON.stringify(payload),
+        source.timestampMs,
+        source.txDigest,
+        source.eventSeq
+      );
+    },
+
+    // Queries
+
+    getProject(projectId: string): IndexedProject | null {
+      const row = statements.getProject.get(projectId) as Row | undefined;
+      return row ? toProject(row) : null;
+    },
+
+    /**
+     * Lists projects newest first or in another order, optionally only
+     * those of one owner or with one of the given statuses
+     *
+     * Newest-first cursors are "<created_at>:<project ID>"; the cursors of
+     * other orders are offsets into the list.
+     */
+    listProjects(options: {
+      owner?: string;
+      cursor?: string;
+      limit: number;
+      sort?: ProjectSort;
+      statuses?: ProjectStatus[];
+    }): Page<IndexedProject> {
+      const filter = {
+        owner: options.owner ?? null,
+        statuses: options.statuses?.length ? JSON.stringify(options.statuses) : null,
+        now: toU64Text(BigInt(Date.now())),
+      };
+
+      // Other orders change as projects are funded, so they page by offset
+      if (options.sort && options.sort !== 'newest') {
+        const offset = options.cursor ? Number(options.cursor) : 0;
+        const listed = (statements.listAllProjects.all(filter) as Row[])
+          .map((row): ListedProject => ({ project: toProject(row), status: String(row.status) as ProjectStatus }))
+          .sort(PROJECT_ORDERS[options.sort]);
+
+        const data = listed.slice(offset, offset + options.limit).map(({ project }) => project);
+        const hasNextPage = listed.length > offset + options.limit;
+
+        return { data, nextCursor: hasNextPage ? String(offset + data.length) : null, hasNextPage };
+      }
+
+      const after = options.cursor ? decodeProjectCursor(options.cursor) : null;
+
+      // Fetch one extra row to know whether another page follows
+      const rows = statements.listProjects.all({
+        ...filter,
+        createdAt: after?.createdAt ?? null,
+        id: after?.id ?? null,
+        limit: options.limit + 1,
+      }) as Row[];
+
+      const data = rows.slice(0, options.limit).map(toProject);
+      const hasNextPage = rows.length > options.limit;
+
+      return {
+        data,
+        nextCursor: hasNextPage ? encodeProjectCursor(data[data.length - 1]) : null,
+        hasNextPage,
+      };
+    },
+
+    listContributionsByBacker(backer: string, projectId?: string): IndexedContribution[] {
+      const rows = statements.listContributionsByBacker.all({ backer, projectId: projectId ?? null }) as Row[];
+      return rows.map(toContribution);
+    },
+
+    listFeedback(projectId: string): IndexedFeedback[] {
+      return (statements.listFeedback.all(projectId) as Row[]).map(toFeedback);
+    },
+
+    /**
+     * Events of a project after `after` in the log; without it, no events
+     * and the cursor of the latest one, to follow the project from now
+     */
+    listProjectEvents(projectId: string, options: { after?: bigint; limit: number }): ProjectEventsPage {
+      if (options.after === undefined) {
+        const row = statements.getLatestProjectEvent.get(projectId) as Row;
+        return { data: [], cursor: String(row.seq), hasNextPage: false };
+      }
+
+      // Fetch one extra row to know whether another page follows
+      const rows = statements.listProjectEvents.all(projectId, options.after, options.limit + 1) as Row[];
+      const data = rows.slice(0, options.limit).map(toProjectEvent);
+
+      return {
+        data,
+        cursor: data.length > 0 ? data[data.length - 1].seq : String(options.after),
+        hasNextPage: rows.length > options.limit,
+      };
+    },
+
+    listJobs(projectId: string): IndexedJob[] {
+      return (statements.listJobs.all(projectId) as Row[]).map(toJob);
+    },
+
+    listPolls(projectId: string): IndexedPoll[] {
+      return (statements.listPolls.all(projectId) as Row[]).map(toPoll);
+    },
+
+    /**
+     * Votes of a poll with the count per option, or null for an unknown poll
+     */
+    getPollVotes(projectId: string, pollId: bigint): PollVotes | null {
+      const pollRow = statements.getPoll.get(projectId, toU64Text(pollId)) as Row | undefined;
+      if (!pollRow) return null;
+
+      const poll = toPoll(pollRow);
+      const votes = (statements.listVotes.all(projectId, toU64Text(pollId)) as Row[]).map((row) => ({
+        voter: String(row.voter),
+        option_index: Number(row.option_index),
+        created_at: Number(row.created_at),
+        tx_digest: String(row.tx_digest),
+      }));
+
+      const tallies = Array.from({ length: poll.options_count }, () => 0);
+      for (const vote of votes) {
+        if (vote.option_index < tallies.length) {
+          tallies[vote.option_index] += 1;
+        }
+      }
+
+      return { project_id: poll.project_id, poll_id: poll.poll_id, tallies, votes };
+    },
+  };
+}
+
+export type FoundryStore = ReturnType<typeof openStore>;
@@ -0,0 +1,41 @@
+/**
+ * Foundry Indexer
+ *
+ * Ingests every foundry event of one network into SQLite and serves it
+ * over a small HTTP/JSON API (see api.ts). The frontend queries it when
+ * VITE_INDEXER_URL is set and falls back to the fullnode otherwise.
+ */
+
+import { SuiClient } from '@mysten/sui/client';
+import { loadConfig } from './config.js';
+import { openStore } from './db.js';
+import { createIngester } from './ingest.js';
+import { createApiServer } from './api.js';
+
+const config = loadConfig();
+const store = openStore(config.databasePath);
+const client = new SuiClient({ url: config.rpcUrl });
+
+const ingester = createIngester(client, store, config);
+const server = createApiServer(store, config, () => ({ lastError: ingester.getLastError() }));
+
+console.log(`🚀 Indexing ${config.network} package ${config.originalPackageId}`);
+console.log(`📡 RPC: ${config.rpcUrl}`);
+console.log(`💾 Database: ${config.databasePath}`);
+
+ingester.start();
+server.listen(config.port, () => {
+  console.log(`✅ API listening on http://localhost:${config.port}`);
+});
+
+const shutdown = () => {
+  console.log('👋 Shutting down');
+  ingester.stop();
+  server.close(() => {
+    store.close();
+    process.exit(0);
+  });
+};
+
+process.on('SIGINT', shutdown);
+process.on('SIGTERM', shutdown);
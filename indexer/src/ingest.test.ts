@@ -0,0 +1,311 @@
+/**
+ * Ingestion Tests
+ *
+ * Runs the ingester against a local JSON-RPC stand-in for a fullnode that
+ * serves paged events, then reads the result through the HTTP API. The
+ * tests share the stand-in's events and build on each other, in order.
+ */
+
+import { after, afterEach, before, beforeEach, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { mkdtempSync, rmSync } from 'node:fs';
+import { createServer } from 'node:http';
+import type { AddressInfo } from 'node:net';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { SuiClient } from '@mysten/sui/client';
+import type { EventId, SuiEvent } from '@mysten/sui/client';
+import { createApiServer } from './api.js';
+import type { IndexerConfig } from './config.js';
+import { openStore } from './db.js';
+import type { FoundryStore } from './db.js';
+import { createIngester } from './ingest.js';
+import type { IndexedProject, Page, ProjectEventsPage } from './types.js';
+
+const PACKAGE_ID = '0x0000000000000000000000000000000000000000000000000000000000000abc';
+const OWNER = '0x0000000000000000000000000000000000000000000000000000000000000001';
+
+const objectId = (n: number) => `0x${n.toString(16).padStart(64, '0')}`;
+
+/**
+ * Fullnode stand-in answering suix_queryEvents from in-memory event lists
+ */
+function createFakeRpc() {
+  const events = new Map<string, SuiEvent[]>();
+  const queries: Array<{ type: string; cursor: EventId | null }> = [];
+  let failAfterPages = Infinity;
+
+  const server = createServer((request, response) => {
+    let body = '';
+    request.on('data', (chunk) => (body += chunk));
+    request.on('end', () => {
+      const { id, method, params } = JSON.parse(body);
+      const reply = (payload: object) => {
+        response.writeHead(200, { 'Content-Type': 'application/json' });
+        response.end(JSON.stringify({ jsonrpc: '2.0', id, ...payload }));
+      };
+
+      if (method !== 'suix_queryEvents') {
+        reply({ error: { code: -32601, message: `Unsupported method ${method}` } });
+        return;
+      }
+
+      const [query, cursor, limit, descending] = params as [{ MoveEventType: string }, EventId | null, number, boolean];
+      assert.equal(descending, false, 'the ingester reads events oldest first');
+
+      if (queries.length >= failAfterPages) {
+        reply({ error: { code: -32000, message: 'Fullnode unavailable' } });
+        return;
+      }
+      queries.push({ type: query.MoveEventType, cursor });
+
+      const list = events.get(query.MoveEventType) ?? [];
+      const start = cursor
+        ? list.findIndex((event) => event.id.txDigest === cursor.txDigest && event.id.eventSeq === cursor.eventSeq) + 1
+        : 0;
+      const data = list.slice(start, start + limit);
+      const hasNextPage = start + limit < list.length;
+
+      reply({ result: { data, nextCursor: data.length > 0 ? data[data.length - 1].id : cursor, hasNextPage } });
+    });
+  });
+
+  return {
+    server,
+    queries,
+    failAfter: (pages: number) => {
+      failAfterPages = queries.length + pages;
+    },
+    recover: () => {
+      failAfterPages = Infinity;
+    },
+    addProjects(from: number, count: number) {
+      const type = `${PACKAGE_ID}::foundry::ProjectCreated`;
+      const list = events.get(type) ?? [];
+
+      for (let n = from; n < from + count; n++) {
+        list.push({
+          id: { txDigest: `tx${n}`, eventSeq: '0' },
+          packageId: PACKAGE_ID,
+          transactionModule: 'foundry',
+          sender: OWNER,
+          type,
+          parsedJson: {
+            project_id: objectId(1000 + n),
+            owner: OWNER,
+            funding_goal: '1000000000',
+            deadline: '1900000000000',
+            metadata_cid: `cid-${n}`,
+          },
+          bcs: '',
+          bcsEncoding: 'base64',
+          timestampMs: String(1_700_000_000_000 + n),
+        } as SuiEvent);
+      }
+
+      events.set(type, list);
+    },
+  };
+}
+
+const listen = (server: ReturnType<typeof createServer>) =>
+  new Promise<string>((resolve) => {
+    server.listen(0, '127.0.0.1', () => resolve(`http://127.0.0.1:${(server.address() as AddressInfo).port}`));
+  });
+
+describe('ingestion', () => {
+  let rpc: ReturnType<typeof createFakeRpc>;
+  let rpcUrl: string;
+  let directory: string;
+  let config: IndexerConfig;
+  let store: FoundryStore;
+
+  before(async () => {
+    rpc = createFakeRpc();
+    rpcUrl = await listen(rpc.server);
+  });
+
+  after(() => {
+    rpc.server.close();
+  });
+
+  beforeEach(() => {
+    directory = mkdtempSync(join(tmpdir(), 'foundry-indexer-'));
+    config = {
+      network: 'localnet',
+      rpcUrl,
+      originalPackageId: PACKAGE_ID,
+      contributionType: `${PACKAGE_ID}::foundry::Contribution`,
+      databasePath: join(directory, 'foundry.db'),
+      port: 0,
+      pollIntervalMs: 1000,
+    };
+    store = openStore(config.databasePath);
+  });
+
+  afterEach(() => {
+    store.close();
+    rmSync(directory, { recursive: true, force: true });
+  });
+
+  it('ingests every page of events and serves them through the API', async () => {
+    rpc.addProjects(0, 120);
+    const ingester = createIngester(new SuiClient({ url: rpcUrl }), store, config);
+    await ingester.ingestOnce();
+
+    const api = createApiServer(store, config, () => ({ lastError: null }));
+    const apiUrl = await listen(api);
+
+    try {
+      const first = (await (await fetch(`${apiUrl}/projects?limit=100`)).json()) as Page<IndexedProject>;
+      assert.equal(first.data.length, 100);
+      assert.equal(first.hasNextPage, true);
+      // Newest first
+      assert.equal(first.data[0].id, objectId(1119));
+
+      const second = (await (await fetch(`${apiUrl}/projects?limit=100&cursor=${first.nextCursor}`)).json()) as Page<IndexedProject>;
+      assert.equal(second.data.length, 20);
+      assert.equal(second.hasNextPage, false);
+
+      const project = (await (await fetch(`${apiUrl}/projects/${objectId(1000)}`)).json()) as IndexedProject;
+      assert.equal(project.metadata_cid, 'cid-0');
+      assert.equal(project.current_funding, '0');
+
+      // Followers start from the latest event, then read what comes after
+      const latest = (await (await fetch(`${apiUrl}/projects/${objectId(1000)}/events`)).json()) as ProjectEventsPage;
+      assert.deepEqual(latest.data, []);
+
+      const events = (await (await fetch(`${apiUrl}/projects/${objectId(1000)}/events?after=0`)).json()) as ProjectEventsPage;
+      assert.equal(events.data.length, 1);
+      assert.equal(events.data[0].event_type, 'ProjectCreated');
+      assert.equal(events.cursor, latest.cursor);
+    } finally {
+      api.close();
+    }
+  });
+
+  it('resumes from the stored cursor after a restart', async () => {
+    const projectType = `${PACKAGE_ID}::foundry::ProjectCreated`;
+    const client = new SuiClient({ url: rpcUrl });
+    await createIngester(client, store, config).ingestOnce();
+    assert.deepEqual(store.getCursor('ProjectCreated'), { txDigest: 'tx119', eventSeq: '0' });
+
+    // Restart on the same database with new events on chain
+    store.close();
+    store = openStore(config.databasePath);
+    rpc.addProjects(120, 5);
+    rpc.queries.length = 0;
+
+    await createIngester(client, store, config).ingestOnce();
+
+    const projectQueries = rpc.queries.filter((query) => query.type === projectType);
+    assert.deepEqual(projectQueries, [{ type: projectType, cursor: { txDigest: 'tx119', eventSeq: '0' } }]);
+    assert.deepEqual(store.getCursor('ProjectCreated'), { txDigest: 'tx124', eventSeq: '0' });
+    assert.equal(store.listProjects({ limit: 200 }).data.length, 125);
+  });
+
+  it('keeps the pages committed before a failure and continues after them', async () => {
+    const client = new SuiClient({ url: rpcUrl });
+    rpc.failAfter(1);
+
+    await assert.rejects(createIngester(client, store, config).ingestOnce(), /Fullnode unavailable/);
+    assert.deepEqual(store.getCursor('ProjectCreated'), { txDigest: 'tx49', eventSeq: '0' });
+    assert.equal(store.listProjects({ limit: 200 }).data.length, 50);
+
+    rpc.recover();
+    await createIngester(client, store, config).ingestOnce();
+    assert.equal(store.listProjects({ limit: 200 }).data.length, 125);
+  });
+
+  it('sorts and filters the whole project list by funding and status', () => {
+    const fund = (n: number, amount: string) =>
+      store.addFunding(
+        { project_id: objectId(n), contributor: OWNER, amount, total_funded: amount },
+        { txDigest: `fund${n}`, eventSeq: '0', timestampMs: 2 }
+      );
+
+    // Goals of 100; project 3 reached its goal and project 4 has expired
+    for (let n = 1; n <= 4; n++) {
+      store.addProject(
+        {
+          project_id: objectId(n),
+          owner: OWNER,
+          funding_goal: '100',
+          deadline: n === 4 ? '1' : '1900000000000',
+          metadata_cid: `cid-${n}`,
+        },
+        { txDigest: `tx${n}`, eventSeq: '0', timestampMs: n }
+      );
+    }
+    fund(1, '10');
+    fund(2, '60');
+    fund(3, '100');
+
+    const mostFunded = store.listProjects({ sort: 'most_funded', limit: 2 });
+    assert.deepEqual(mostFunded.data.map((project) => project.id), [objectId(3), objectId(2)]);
+    assert.equal(mostFunded.nextCursor, '2');
+
+    const rest = store.listProjects({ sort: 'most_funded', cursor: mostFunded.nextCursor!, limit: 2 });
+    assert.deepEqual(rest.data.map((project) => project.id), [objectId(1), objectId(4)]);
+    assert.equal(rest.hasNextPage, false);
+
+    const closest = store.listProjects({ sort: 'closest_to_goal', statuses: ['active'], limit: 10 });
+    assert.deepEqual(closest.data.map((project) => project.id), [objectId(2), objectId(1)]);
+
+    const expired = store.listProjects({ statuses: ['expired', 'goal_reached'], limit: 10 });
+    assert.deepEqual(expired.data.map((project) => project.id), [objectId(4), objectId(3)]);
+  });
+
+  it('stores u64 values beyond the range of SQLite integers', () => {
+    const max = (2n ** 64n - 1n).toString();
+    const source = { txDigest: 'tx1', eventSeq: '0', timestampMs: 1 };
+
+    store.commitPage('ProjectCreated', { txDigest: 'tx1', eventSeq: '0' }, () => {
+      store.addProject(
+        { project_id: objectId(1), owner: OWNER, funding_goal: max, deadline: max, metadata_cid: 'cid' },
+        source
+      );
+      store.addProject(
+        { project_id: objectId(2), owner: OWNER, funding_goal: '100', deadline: max, metadata_cid: 'cid' },
+        { ...source, txDigest: 'tx2' }
+      );
+      store.addFunding(
+        { project_id: objectId(1), contributor: OWNER, amount: max, total_funded: max },
+        { ...source, txDigest: 'fund1' }
+      );
+      store.addFunding(
+        { project_id: objectId(2), contributor: OWNER, amount: '50', total_funded: '50' },
+        { ...source, txDigest: 'fund2' }
+      );
+    });
+
+    const project = store.getProject(objectId(1));
+    assert.equal(project?.funding_goal, max);
+    assert.equal(project?.deadline, max);
+    assert.equal(project?.current_funding, max);
+
+    const mostFunded = store.listProjects({ sort: 'most_funded', limit: 10 });
+    assert.deepEqual(mostFunded.data.map((listed) => listed.id), [objectId(1), objectId(2)]);
+
+    const goalReached = store.listProjects({ statuses: ['goal_reached'], limit: 10 });
+    assert.deepEqual(goalReached.data.map((listed) => listed.id), [objectId(1)]);
+  });
+
+  it('commits the writes of a page and its cursor atomically', () => {
+    const source = { txDigest: 'tx0', eventSeq: '0', timestampMs: 1 };
+    const cursor = { txDigest: 'tx0', eventSeq: '0' };
+
+    assert.throws(() =>
+      store.commitPage('ProjectCreated', cursor, () => {
+        store.addProject(
+          { project_id: objectId(1), owner: OWNER, funding_goal: '1', deadline: '1', metadata_cid: 'cid' },
+          source
+        );
+        throw new Error('write failed');
+      })
+    );
+
+    assert.equal(store.getProject(objectId(1)), null);
+    assert.equal(store.getCursor('ProjectCreated'), null);
+  });
+});
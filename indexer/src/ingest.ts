@@ -0,0 +1,288 @@
+/**
+ * Event Ingestion
+ *
+ * Follows every foundry event type from its stored cursor, oldest first,
+ * and writes each page to the store together with the new cursor. A
+ * restarted indexer resumes where it stopped; a fresh database replays
+ * the package's whole history.
+ *
+ * ContributionMade and RefundIssued events do not carry the Contribution
+ * receipt's ID, so their transactions are fetched to read the receipts
+ * they created or deleted.
+ */
+
+import type { EventId, SuiClient, SuiEvent, SuiTransactionBlockResponse } from '@mysten/sui/client';
+import { normalizeStructTag } from '@mysten/sui/utils';
+import type { IndexerConfig } from './config.js';
+import type { FoundryStore } from './db.js';
+import type {
+  ContributionMadeEvent,
+  ContributionReceipt,
+  EventSource,
+  FeedbackSubmittedEvent,
+  FundsWithdrawnEvent,
+  JobPostedEvent,
+  PollCreatedEvent,
+  ProjectCreatedEvent,
+  RefundIssuedEvent,
+  VoteCastEvent,
+} from './types.js';
+
+// Event structs of the foundry module, in the order they are ingested
+export const FOUNDRY_EVENTS = [
+  'ProjectCreated',
+  'ContributionMade',
+  'FundsWithdrawn',
+  'RefundIssued',
+  'JobPosted',
+  'PollCreated',
+  'VoteCast',
+  'FeedbackSubmitted',
+] as const;
+
+export type FoundryEventName = (typeof FOUNDRY_EVENTS)[number];
+
+// Events requested per page
+const EVENTS_PAGE_SIZE = 50;
+
+// Maximum number of digests accepted by a single multiGetTransactionBlocks call
+const MULTI_GET_BATCH_SIZE = 50;
+
+const sameType = (a: string, b: string) => {
+  try {
+    return normalizeStructTag(a) === normalizeStructTag(b);
+  } catch {
+    return a === b;
+  }
+};
+
+const toSource = (event: SuiEvent): EventSource => ({
+  txDigest: event.id.txDigest,
+  eventSeq: event.id.eventSeq,
+  timestampMs: Number(event.timestampMs ?? Date.now()),
+});
+
+/**
+ * Ingests foundry events from a fullnode into the store
+ */
+export function createIngester(client: SuiClient, store: FoundryStore, config: IndexerConfig) {
+  const eventType = (name: FoundryEventName) => `${config.originalPackageId}::foundry::${name}`;
+
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  let running = false;
+  let lastError: string | null = null;
+
+  /**
+   * Fetches transactions with their events and object changes, by digest
+   */
+  const fetchTransactions = async (digests: string[]) => {
+    const transactions = new Map<string, SuiTransactionBlockResponse>();
+    const unique = [...new Set(digests)];
+
+    for (let i = 0; i < unique.length; i += MULTI_GET_BATCH_SIZE) {
+      const responses = await client.multiGetTransactionBlocks({
+        digests: unique.slice(i, i + MULTI_GET_BATCH_SIZE),
+        options: { showEvents: true, showObjectChanges: true },
+      });
+      responses.forEach((response) => transactions.set(response.digest, response));
+    }
+
+    return transactions;
+  };
+
+  /**
+   * Reads the Contribution receipts a transaction minted
+   *
+   * With a single fund_project call the receipt matches the event. When
+   * one transaction funds several projects, each receipt's content is read
+   * at the version it was created with, which also works once the receipt
+   * has been reclaimed.
+   */
+  const readReceipts = async (transaction: SuiTransactionBlockResponse): Promise<ContributionReceipt[]> => {
+    const created = (transaction.objectChanges ?? []).flatMap((change) =>
+      change.type === 'created' && sameType(change.objectType, config.contributionType) ? [change] : []
+    );
+    const fundings = (transaction.events ?? []).filter((event) =>
+      sameType(event.type, eventType('ContributionMade'))
+    );
+
+    if (created.length === 1 && fundings.length === 1) {
+      const event = fundings[0].parsedJson as ContributionMadeEvent;
+      return [{ id: created[0].objectId, projectId: event.project_id, backer: event.contributor, amount: BigInt(event.amount) }];
+    }
+
+    const receipts: ContributionReceipt[] = [];
+
+    for (const change of created) {
+      const past = await client.tryGetPastObject({
+        id: change.objectId,
+        version: Number(change.version),
+        options: { showContent: true },
+      });
+
+      const content = past.status === 'VersionFound' ? past.details.content : null;
+      if (content?.dataType !== 'moveObject') {
+        console.warn(`⚠️ Contribution ${change.objectId} is not available at version ${change.version}`);
+        continue;
+      }
+
+      const fields = content.fields as Record<string, string>;
+      receipts.push({
+        id: change.objectId,
+        projectId: fields.project_id,
+        backer: fields.backer_address,
+        amount: BigInt(fields.amount),
+      });
+    }
+
+    return receipts;
+  };
+
+  /**
+   * Reads the IDs of the Contribution receipts a transaction deleted
+   */
+  const readDeletedReceipts = (transaction: SuiTransactionBlockResponse): string[] =>
+    (transaction.objectChanges ?? []).flatMap((change) =>
+      change.type === 'deleted' && sameType(change.objectType, config.contributionType) ? [change.objectId] : []
+    );
+
+  /**
+   * Prepares the writes of one page of events
+   *
+   * Everything that needs the network happens here, so the returned
+   * function only touches the database and can run in a transaction.
+   */
+  const preparePage = async (name: FoundryEventName, events: SuiEvent[]): Promise<() => void> => {
+    const writes: Array<() => void> = [];
+
+    if (name === 'ContributionMade' || name === 'RefundIssued') {
+      const transactions = await fetchTransactions(events.map((event) => event.id.txDigest));
+
+      for (const [digest, transaction] of transactions) {
+        const source = toSource(events.find((event) => event.id.txDigest === digest)!);
+
+        if (name === 'ContributionMade') {
+          const receipts = await readReceipts(transaction);
+          writes.push(() => receipts.forEach((receipt) => store.addContribution(receipt, source)));
+        } else {
+          const deleted = readDeletedReceipts(transaction);
+          writes.push(() => deleted.forEach((id) => store.markContributionRefunded(id, digest)));
+        }
+      }
+    }
+
+    for (const event of events) {
+      const source = toSource(event);
+      const projectId = (event.parsedJson as { project_id?: string } | undefined)?.project_id;
+
+      if (projectId) {
+        writes.push(() => store.addProjectEvent(name, projectId, event.parsedJson, source));
+      }
+
+      switch (name) {
+        case 'ProjectCreated':
+          writes.push(() => store.addProject(event.parsedJson as ProjectCreatedEvent, source));
+          break;
+        case 'ContributionMade':
+          writes.push(() => store.addFunding(event.parsedJson as ContributionMadeEvent, source));
+          break;
+        case 'FundsWithdrawn':
+          writes.push(() => store.addWithdrawal(event.parsedJson as FundsWithdrawnEvent, source));
+          break;
+        case 'RefundIssued':
+          writes.push(() => store.addRefund(event.parsedJson as RefundIssuedEvent, source));
+          break;
+        case 'JobPosted':
+          writes.push(() => store.addJob(event.parsedJson as JobPostedEvent, source));
+          break;
+        case 'PollCreated':
+          writes.push(() => store.addPoll(event.parsedJson as PollCreatedEvent, source));
+          break;
+        case 'VoteCast':
+          writes.push(() => store.addVote(event.parsedJson as VoteCastEvent, source));
+          break;
+        case 'FeedbackSubmitted':
+          writes.push(() => store.addFeedback(event.parsedJson as FeedbackSubmittedEvent, source));
+          break;
+      }
+    }
+
+    return () => writes.forEach((write) => write());
+  };
+
+  /**
+   * Ingests every new event of one type, returning how many were written
+   */
+  const ingestEventType = async (name: FoundryEventName): Promise<number> => {
+    let cursor: EventId | null = store.getCursor(name);
+    let hasNextPage = true;
+    let count = 0;
+
+    while (hasNextPage) {
+      const page = await client.queryEvents({
+        query: { MoveEventType: eventType(name) },
+        cursor,
+        order: 'ascending',
+        limit: EVENTS_PAGE_SIZE,
+      });
+
+      if (page.data.length === 0) break;
+
+      const write = await preparePage(name, page.data);
+      const lastEvent = page.data[page.data.length - 1];
+      store.commitPage(name, lastEvent.id, write);
+
+      cursor = lastEvent.id;
+      hasNextPage = page.hasNextPage;
+      count += page.data.length;
+    }
+
+    return count;
+  };
+
+  /**
+   * Runs one pass over every event type
+   */
+  const ingestOnce = async () => {
+    for (const name of FOUNDRY_EVENTS) {
+      const count = await ingestEventType(name);
+      if (count > 0) {
+        console.log(`📥 Indexed ${count} ${name} event(s)`);
+      }
+    }
+  };
+
+  const loop = async () => {
+    try {
+      await ingestOnce();
+      lastError = null;
+    } catch (error) {
+      lastError = error instanceof Error ? error.message : String(error);
+      console.error('❌ Ingestion pass failed:', error);
+    }
+
+    if (running) {
+      timer = setTimeout(loop, config.pollIntervalMs);
+    }
+  };
+
+  return {
+    ingestOnce,
+
+    /**
+     * Starts polling; failed passes are logged and retried on the next tick
+     */
+    start() {
+      if (running) return;
+      running = true;
+      loop();
+    },
+
+    stop() {
+      running = false;
+      clearTimeout(timer);
+    },
+
+    getLastError: () => lastError,
+  };
+}
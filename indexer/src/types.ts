@@ -0,0 +1,192 @@
+/**
+ * Indexer Types
+ *
+ * Payloads of the foundry Move events as returned by the fullnode (u64
+ * fields are strings), the rows written by the ingester, and the records
+ * served by the HTTP API. API records keep u64 amounts as strings too, so
+ * clients can parse them into bigint without losing precision.
+ */
+
+// Contract events
+export interface ProjectCreatedEvent {
+  project_id: string;
+  owner: string;
+  funding_goal: string;
+  deadline: string;
+  metadata_cid: string;
+}
+
+export interface ContributionMadeEvent {
+  project_id: string;
+  contributor: string;
+  amount: string;
+  total_funded: string;
+}
+
+export interface FundsWithdrawnEvent {
+  project_id: string;
+  owner: string;
+  amount: string;
+}
+
+export interface RefundIssuedEvent {
+  project_id: string;
+  backer: string;
+  amount: string;
+}
+
+export interface JobPostedEvent {
+  project_id: string;
+  job_id: string;
+  title: string;
+  description_cid: string;
+}
+
+export interface PollCreatedEvent {
+  project_id: string;
+  poll_id: string;
+  question: string;
+  options_count: string;
+}
+
+export interface VoteCastEvent {
+  project_id: string;
+  poll_id: string;
+  voter: string;
+  option_index: string;
+  new_vote_count: string;
+}
+
+export interface FeedbackSubmittedEvent {
+  feedback_id: string;
+  project_id: string;
+  backer: string;
+  message_cid: string;
+}
+
+/**
+ * Where an indexed row comes from
+ */
+export interface EventSource {
+  txDigest: string;
+  eventSeq: string;
+  // Checkpoint timestamp of the transaction, in milliseconds
+  timestampMs: number;
+}
+
+/**
+ * Contribution receipt minted by fund_project
+ */
+export interface ContributionReceipt {
+  id: string;
+  projectId: string;
+  backer: string;
+  amount: bigint;
+}
+
+// API records
+
+export interface IndexedProject {
+  id: string;
+  owner: string;
+  funding_goal: string;
+  deadline: string;
+  metadata_cid: string;
+  current_funding: string;
+  is_withdrawn: boolean;
+  backer_count: number;
+  created_at: number;
+  tx_digest: string;
+}
+
+// Orders of GET /projects, the same as the frontend gallery's
+export type ProjectSort = 'newest' | 'ending_soon' | 'most_funded' | 'closest_to_goal' | 'percent_funded';
+
+// Campaign status derived from a project's funding, deadline and withdrawal
+export type ProjectStatus = 'active' | 'goal_reached' | 'expired' | 'withdrawn';
+
+export interface IndexedContribution {
+  id: string;
+  project_id: string;
+  backer: string;
+  amount: string;
+  // Whether the receipt was consumed by reclaim_funds
+  is_refunded: boolean;
+  created_at: number;
+  tx_digest: string;
+}
+
+export interface IndexedFeedback {
+  id: string;
+  project_id: string;
+  backer: string;
+  message_cid: string;
+  created_at: number;
+  tx_digest: string;
+}
+
+export interface IndexedJob {
+  project_id: string;
+  job_id: string;
+  title: string;
+  description_cid: string;
+  created_at: number;
+  tx_digest: string;
+}
+
+export interface IndexedPoll {
+  project_id: string;
+  poll_id: string;
+  question: string;
+  options_count: number;
+  created_at: number;
+  tx_digest: string;
+}
+
+export interface IndexedVote {
+  voter: string;
+  option_index: number;
+  created_at: number;
+  tx_digest: string;
+}
+
+/**
+ * Foundry event naming a project, as emitted on chain
+ */
+export interface IndexedProjectEvent {
+  // Position in the indexer's log, increasing with ingestion
+  seq: string;
+  // Event struct name, e.g. "ContributionMade"
+  event_type: string;
+  // parsedJson of the event
+  payload: Record<string, unknown>;
+  created_at: number;
+  tx_digest: string;
+}
+
+/**
+ * Events of a project after a position in the log
+ */
+export interface ProjectEventsPage {
+  data: IndexedProjectEvent[];
+  // Position to pass back as `after`, even when `data` is empty
+  cursor: string;
+  hasNextPage: boolean;
+}
+
+export interface PollVotes {
+  project_id: string;
+  poll_id: string;
+  // Vote count per option index
+  tallies: number[];
+  votes: IndexedVote[];
+}
+
+/**
+ * Page of records, continued by passing `nextCursor` back as `cursor`
+ */
+export interface Page<T> {
+  data: T[];
+  nextCursor: string | null;
+  hasNextPage: boolean;
+}